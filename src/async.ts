@@ -0,0 +1,694 @@
+import { isMainThread, parentPort, Worker, workerData } from "node:worker_threads";
+import { decodeValue, encodeValue } from "./encoding";
+import { ConflictError, ValidationError } from "./errors";
+import type {
+	BackupOptions,
+	ChangeLogEntry,
+	ChangesSinceOptions,
+	DBOptions,
+	DBStats,
+	DiffOptions,
+	DiffResult,
+	EncryptionKey,
+	ExportOptions,
+	GetExOptions,
+	IMiftahDB,
+	ImportOptions,
+	MiftahDBEventHandler,
+	MiftahDBEventType,
+	MiftahValue,
+	NamespaceOptions,
+	NamespaceStats,
+	PromiseResult,
+	Result,
+	ScanEntry,
+	ScanOptions,
+	ScanResult,
+	SetOptions,
+	SweepStats,
+	SyncOptions,
+	SyncResult,
+	Validator,
+	VersionedValue,
+	ZSetEntry,
+} from "./types";
+import { defaultDBOptions } from "./types";
+import { OK } from "./utils";
+import { assertValid } from "./validation";
+
+// Marks the workers started by `MiftahDBAsync`, so that loading the entry file elsewhere does nothing
+const WORKER_MARKER = "__miftahdb_worker__";
+
+// Errors rebuilt with their own class on the main thread, so that `instanceof` checks keep working
+const ERROR_CLASSES: Record<string, new (message: string) => Error> = {
+	ConflictError,
+	ValidationError,
+};
+
+interface WorkerRequest {
+	id: number;
+	namespace: string[];
+	method: string;
+	// Arguments encoded with `encodeValue`, `null` stands for `undefined`
+	args: (Uint8Array | null)[];
+}
+
+type WorkerResponse =
+	| { id: number; success: true; data: Uint8Array }
+	| { id: number; success: false; error: { name: string; message: string } }
+	| { listenerId: number; payload: Uint8Array };
+
+interface WorkerChannel {
+	worker: Worker;
+	nextId: number;
+	pending: Map<number, (result: Result<unknown>) => void>;
+	listeners: Map<number, MiftahDBEventHandler<MiftahDBEventType>>;
+	closed: boolean;
+}
+
+/**
+ * Serves the requests of a `MiftahDBAsync` instance when the current thread is one of its workers.
+ * Does nothing on the main thread, so entry files can call it unconditionally.
+ */
+export function serveMiftahDBWorker(createDB: (path: string, options: DBOptions) => IMiftahDB) {
+	if (isMainThread || !parentPort || !workerData?.[WORKER_MARKER]) return;
+
+	const port = parentPort;
+	// Signals are not delivered to workers, closing on exit is up to the main thread
+	const db = createDB(workerData.path, { ...workerData.options, autoCloseOnExit: false });
+	const namespaces = new Map<string, IMiftahDB>();
+	const listeners = new Map<number, MiftahDBEventHandler<MiftahDBEventType>>();
+
+	const getTarget = (namespace: string[]): IMiftahDB => {
+		const name = JSON.stringify(namespace);
+		let target = namespaces.get(name);
+		if (!target) {
+			target = namespace.reduce<IMiftahDB>((parent, n) => parent.namespace(n), db);
+			namespaces.set(name, target);
+		}
+
+		return target;
+	};
+
+	const call = async (target: IMiftahDB, method: string, args: unknown[]) => {
+		if (method === "on") {
+			const [event, pattern, listenerId] = args as [MiftahDBEventType, string, number];
+			const handler: MiftahDBEventHandler<MiftahDBEventType> = (payload) => {
+				port.postMessage({ listenerId, payload: encodeValue(payload) });
+			};
+			listeners.set(listenerId, handler);
+
+			return target.on(event, pattern, handler);
+		}
+
+		if (method === "off") {
+			const [event, listenerId] = args as [MiftahDBEventType, number];
+			const handler = listeners.get(listenerId);
+			listeners.delete(listenerId);
+
+			return handler ? target.off(event, handler) : OK(false);
+		}
+
+		const fn = (target as unknown as Record<string, unknown>)[method];
+		if (typeof fn !== "function") throw new Error(`Unknown method "${method}".`);
+
+		return (await fn.apply(target, args)) as Result<unknown>;
+	};
+
+	port.on("message", async ({ id, namespace, method, args }: WorkerRequest) => {
+		let response: WorkerResponse;
+
+		try {
+			const decodedArgs = args.map((arg) => (arg === null ? undefined : decodeValue(arg)));
+			const result = await call(getTarget(namespace), method, decodedArgs);
+
+			response = result.success
+				? { id, success: true, data: encodeValue((result.data ?? null) as MiftahValue) }
+				: { id, success: false, error: { name: result.error.name, message: result.error.message } };
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			response = { id, success: false, error: { name: err.name, message: err.message } };
+		}
+
+		port.postMessage(response);
+	});
+}
+
+// Starts a worker that loads `entry`, the module calling `serveMiftahDBWorker`
+function startWorker(entry: string, path: string, options: DBOptions): Worker {
+	// An eval worker can pick `require` or `import` depending on the build that is running
+	const bootstrap = entry.endsWith(".mjs")
+		? `import(${JSON.stringify(new URL(`file://${entry}`).href)});`
+		: `require(${JSON.stringify(entry)});`;
+
+	return new Worker(bootstrap, {
+		eval: true,
+		workerData: { [WORKER_MARKER]: true, path, options },
+	});
+}
+
+/**
+ * Non-blocking counterpart of `MiftahDB`, running the database connection in a worker thread.
+ * It exposes the same API as `MiftahDB`, with every method returning a `PromiseResult`.
+ * Values are encoded with the same encoding as the database before being posted to the worker.
+ */
+export abstract class BaseMiftahDBAsync {
+	readonly namespaceName: string | null = null;
+	readonly parent: BaseMiftahDBAsync | null = null;
+	private readonly channel: WorkerChannel;
+	private readonly namespacePath: string[] = [];
+	private readonly validator: Validator<unknown> | null = null;
+
+	constructor(path = ":memory:", options: DBOptions = defaultDBOptions) {
+		// Functions cannot be posted to the worker
+		if (options.serializer)
+			throw new Error("The serializer option is not supported by MiftahDBAsync.");
+
+		const worker = startWorker(this.workerEntry(), path, options);
+		this.channel = {
+			worker,
+			nextId: 0,
+			pending: new Map(),
+			listeners: new Map(),
+			closed: false,
+		};
+
+		worker.on("message", (response: WorkerResponse) => this.handleResponse(response));
+		worker.on("error", (error) => this.failPending(error));
+		worker.on("exit", () => this.failPending(new Error("Database worker exited.")));
+		// The worker only keeps the process alive while requests are in flight
+		worker.unref();
+	}
+
+	// Path of the entry file that calls `serveMiftahDBWorker` with the matching `MiftahDB` class
+	protected abstract workerEntry(): string;
+
+	private handleResponse(response: WorkerResponse): void {
+		const { channel } = this;
+
+		if ("listenerId" in response) {
+			const handler = channel.listeners.get(response.listenerId);
+			handler?.(decodeValue(response.payload) as never);
+			return;
+		}
+
+		const resolve = channel.pending.get(response.id);
+		if (!resolve) return;
+
+		channel.pending.delete(response.id);
+		if (channel.pending.size === 0) channel.worker.unref();
+
+		if (response.success) {
+			resolve({ success: true, data: decodeValue(response.data) });
+		} else {
+			const ErrorClass = ERROR_CLASSES[response.error.name] ?? Error;
+			const error = new ErrorClass(response.error.message);
+			error.name = response.error.name;
+			resolve({ success: false, error });
+		}
+	}
+
+	private failPending(error: Error): void {
+		const { channel } = this;
+		channel.closed = true;
+
+		for (const resolve of channel.pending.values()) resolve({ success: false, error });
+		channel.pending.clear();
+	}
+
+	private call<R>(method: string, args: unknown[] = []): PromiseResult<R> {
+		const { channel } = this;
+		if (channel.closed) {
+			return Promise.resolve({ success: false, error: new Error("Database is closed.") });
+		}
+
+		const id = channel.nextId++;
+		const request: WorkerRequest = {
+			id,
+			namespace: this.namespacePath,
+			method,
+			args: args.map((arg) => (arg === undefined ? null : encodeValue(arg as MiftahValue))),
+		};
+
+		return new Promise((resolve) => {
+			channel.pending.set(id, resolve as (result: Result<unknown>) => void);
+			channel.worker.ref();
+			channel.worker.postMessage(request);
+		});
+	}
+
+	// Validates the written values on this thread, as validators cannot be posted to the worker
+	private callValidated<R>(
+		method: string,
+		args: unknown[],
+		values: [key: string, value: unknown][],
+	): PromiseResult<R> {
+		try {
+			if (this.validator) {
+				for (const [key, value] of values) assertValid(this.validator, value, key, method);
+			}
+		} catch (error) {
+			return Promise.resolve({ success: false, error: error as Error });
+		}
+
+		return this.call(method, args);
+	}
+
+	namespace<N extends MiftahValue | object = MiftahValue>(
+		name: string,
+		options: Pick<NamespaceOptions<N>, "validate"> = {},
+	): this {
+		const namespacedDB = Object.create(this);
+		namespacedDB.namespaceName = name;
+		namespacedDB.parent = this;
+		namespacedDB.namespacePath = [...this.namespacePath, name];
+		if (options.validate) namespacedDB.validator = options.validate;
+
+		return namespacedDB;
+	}
+
+	get<T>(key: string): PromiseResult<T> {
+		return this.call("get", [key]);
+	}
+
+	set<T extends MiftahValue>(
+		key: string,
+		value: T,
+		expiresAt?: Date | number,
+	): PromiseResult<boolean>;
+	set<T extends MiftahValue>(
+		key: string,
+		value: T,
+		options: SetOptions & { returnPrevious: true },
+	): PromiseResult<T | null>;
+	set<T extends MiftahValue>(key: string, value: T, options: SetOptions): PromiseResult<boolean>;
+	set<T extends MiftahValue>(
+		key: string,
+		value: T,
+		expiresAtOrOptions?: Date | number | SetOptions,
+	): PromiseResult<boolean | T | null> {
+		return this.callValidated("set", [key, value, expiresAtOrOptions], [[key, value]]);
+	}
+
+	getDel<T>(key: string): PromiseResult<T> {
+		return this.call("getDel", [key]);
+	}
+
+	getEx<T>(key: string, options: GetExOptions): PromiseResult<T> {
+		return this.call("getEx", [key, options]);
+	}
+
+	getSet<T extends MiftahValue>(key: string, value: T): PromiseResult<T | null> {
+		return this.callValidated("getSet", [key, value], [[key, value]]);
+	}
+
+	exists(key: string): PromiseResult<boolean> {
+		return this.call("exists", [key]);
+	}
+
+	delete(key: string): PromiseResult<number> {
+		return this.call("delete", [key]);
+	}
+
+	rename(oldKey: string, newKey: string): PromiseResult<boolean> {
+		return this.call("rename", [oldKey, newKey]);
+	}
+
+	setExpire(key: string, expiresAt: Date | number): PromiseResult<boolean> {
+		return this.call("setExpire", [key, expiresAt]);
+	}
+
+	getExpire(key: string): PromiseResult<Date> {
+		return this.call("getExpire", [key]);
+	}
+
+	ttl(key: string): PromiseResult<number | null> {
+		return this.call("ttl", [key]);
+	}
+
+	persist(key: string): PromiseResult<boolean> {
+		return this.call("persist", [key]);
+	}
+
+	increment(key: string, amount?: number): PromiseResult<number> {
+		return this.call("increment", [key, amount]);
+	}
+
+	decrement(key: string, amount?: number): PromiseResult<number> {
+		return this.call("decrement", [key, amount]);
+	}
+
+	keys(pattern?: string): PromiseResult<string[]> {
+		return this.call("keys", [pattern]);
+	}
+
+	pagination(limit: number, page: number, pattern?: string): PromiseResult<string[]> {
+		return this.call("pagination", [limit, page, pattern]);
+	}
+
+	scan<T>(options?: ScanOptions): PromiseResult<ScanResult<T>> {
+		return this.call("scan", [options]);
+	}
+
+	// Iterates in batches with `scan`, as a generator cannot be driven across the worker boundary
+	async *iterate<T>(pattern?: string, batchSize = 100): AsyncGenerator<ScanEntry<T>> {
+		let cursor: string | null = null;
+
+		do {
+			const result: Result<ScanResult<T>> = await this.scan<T>({
+				pattern,
+				cursor,
+				count: batchSize,
+				includeValues: true,
+			});
+			if (!result.success) throw result.error;
+
+			yield* result.data.entries;
+			cursor = result.data.cursor;
+		} while (cursor !== null);
+	}
+
+	expiredRange(
+		start: Date | number,
+		end: Date | number,
+		pattern?: string,
+	): PromiseResult<string[]> {
+		return this.call("expiredRange", [start, end, pattern]);
+	}
+
+	count(pattern?: string): PromiseResult<number> {
+		return this.call("count", [pattern]);
+	}
+
+	countExpired(pattern?: string): PromiseResult<number> {
+		return this.call("countExpired", [pattern]);
+	}
+
+	multiGet<T>(keys: string[]): PromiseResult<T[]> {
+		return this.call("multiGet", [keys]);
+	}
+
+	multiSet<T extends MiftahValue>(
+		entries: Array<{ key: string; value: T; expiresAt?: Date | number }>,
+	): PromiseResult<boolean> {
+		return this.callValidated(
+			"multiSet",
+			[entries],
+			entries.map((entry) => [entry.key, entry.value]),
+		);
+	}
+
+	multiDelete(keys: string[]): PromiseResult<number> {
+		return this.call("multiDelete", [keys]);
+	}
+
+	getWithVersion<T>(key: string): PromiseResult<VersionedValue<T>> {
+		return this.call("getWithVersion", [key]);
+	}
+
+	setIfVersion<T extends MiftahValue>(
+		key: string,
+		value: T,
+		expectedVersion: number,
+		expiresAt?: Date | number,
+	): PromiseResult<number> {
+		return this.callValidated(
+			"setIfVersion",
+			[key, value, expectedVersion, expiresAt],
+			[[key, value]],
+		);
+	}
+
+	compareAndSwap<T extends MiftahValue>(
+		key: string,
+		expectedValue: T,
+		newValue: T,
+		expiresAt?: Date | number,
+	): PromiseResult<number> {
+		return this.callValidated(
+			"compareAndSwap",
+			[key, expectedValue, newValue, expiresAt],
+			[[key, newValue]],
+		);
+	}
+
+	hset<T extends MiftahValue>(key: string, field: string, value: T): PromiseResult<boolean> {
+		return this.call("hset", [key, field, value]);
+	}
+
+	hget<T>(key: string, field: string): PromiseResult<T> {
+		return this.call("hget", [key, field]);
+	}
+
+	hmget<T>(key: string, fields: string[]): PromiseResult<(T | null)[]> {
+		return this.call("hmget", [key, fields]);
+	}
+
+	hgetall<T>(key: string): PromiseResult<Record<string, T>> {
+		return this.call("hgetall", [key]);
+	}
+
+	hdel(key: string, fields: string | string[]): PromiseResult<number> {
+		return this.call("hdel", [key, fields]);
+	}
+
+	hlen(key: string): PromiseResult<number> {
+		return this.call("hlen", [key]);
+	}
+
+	hincrby(key: string, field: string, amount?: number): PromiseResult<number> {
+		return this.call("hincrby", [key, field, amount]);
+	}
+
+	lpush<T extends MiftahValue>(key: string, ...values: T[]): PromiseResult<number> {
+		return this.call("lpush", [key, ...values]);
+	}
+
+	rpush<T extends MiftahValue>(key: string, ...values: T[]): PromiseResult<number> {
+		return this.call("rpush", [key, ...values]);
+	}
+
+	lpop<T>(key: string): PromiseResult<T> {
+		return this.call("lpop", [key]);
+	}
+
+	rpop<T>(key: string): PromiseResult<T> {
+		return this.call("rpop", [key]);
+	}
+
+	lrange<T>(key: string, start?: number, stop?: number): PromiseResult<T[]> {
+		return this.call("lrange", [key, start, stop]);
+	}
+
+	llen(key: string): PromiseResult<number> {
+		return this.call("llen", [key]);
+	}
+
+	lindex<T>(key: string, index: number): PromiseResult<T> {
+		return this.call("lindex", [key, index]);
+	}
+
+	ltrim(key: string, start: number, stop: number): PromiseResult<number> {
+		return this.call("ltrim", [key, start, stop]);
+	}
+
+	lrem<T extends MiftahValue>(key: string, count: number, value: T): PromiseResult<number> {
+		return this.call("lrem", [key, count, value]);
+	}
+
+	rpoplpush<T>(source: string, destination: string): PromiseResult<T> {
+		return this.call("rpoplpush", [source, destination]);
+	}
+
+	sadd<T extends MiftahValue>(key: string, ...members: T[]): PromiseResult<number> {
+		return this.call("sadd", [key, ...members]);
+	}
+
+	srem<T extends MiftahValue>(key: string, ...members: T[]): PromiseResult<number> {
+		return this.call("srem", [key, ...members]);
+	}
+
+	sismember<T extends MiftahValue>(key: string, member: T): PromiseResult<boolean> {
+		return this.call("sismember", [key, member]);
+	}
+
+	smembers<T>(key: string): PromiseResult<T[]> {
+		return this.call("smembers", [key]);
+	}
+
+	scard(key: string): PromiseResult<number> {
+		return this.call("scard", [key]);
+	}
+
+	sinter<T>(keys: string[]): PromiseResult<T[]> {
+		return this.call("sinter", [keys]);
+	}
+
+	sunion<T>(keys: string[]): PromiseResult<T[]> {
+		return this.call("sunion", [keys]);
+	}
+
+	sdiff<T>(keys: string[]): PromiseResult<T[]> {
+		return this.call("sdiff", [keys]);
+	}
+
+	zadd<T extends MiftahValue>(key: string, score: number, member: T): PromiseResult<number> {
+		return this.call("zadd", [key, score, member]);
+	}
+
+	zincrby<T extends MiftahValue>(key: string, amount: number, member: T): PromiseResult<number> {
+		return this.call("zincrby", [key, amount, member]);
+	}
+
+	zscore<T extends MiftahValue>(key: string, member: T): PromiseResult<number> {
+		return this.call("zscore", [key, member]);
+	}
+
+	zrank<T extends MiftahValue>(key: string, member: T): PromiseResult<number> {
+		return this.call("zrank", [key, member]);
+	}
+
+	zrange<T>(key: string, start?: number, stop?: number): PromiseResult<ZSetEntry<T>[]> {
+		return this.call("zrange", [key, start, stop]);
+	}
+
+	zrangebyscore<T>(
+		key: string,
+		min: number,
+		max: number,
+		options?: { offset?: number; limit?: number },
+	): PromiseResult<ZSetEntry<T>[]> {
+		return this.call("zrangebyscore", [key, min, max, options]);
+	}
+
+	zrem<T extends MiftahValue>(key: string, ...members: T[]): PromiseResult<number> {
+		return this.call("zrem", [key, ...members]);
+	}
+
+	listNamespaces(depth?: number): PromiseResult<string[]> {
+		return this.call("listNamespaces", [depth]);
+	}
+
+	namespaceStats(name: string): PromiseResult<NamespaceStats> {
+		return this.call("namespaceStats", [name]);
+	}
+
+	dropNamespace(name: string): PromiseResult<number> {
+		return this.call("dropNamespace", [name]);
+	}
+
+	formatVersion(): PromiseResult<number> {
+		return this.call("formatVersion");
+	}
+
+	changesSince(seq: number, options?: ChangesSinceOptions): PromiseResult<ChangeLogEntry[]> {
+		return this.call("changesSince", [seq, options]);
+	}
+
+	currentSequence(): PromiseResult<number> {
+		return this.call("currentSequence");
+	}
+
+	truncateChangeLog(beforeSeq: number): PromiseResult<number> {
+		return this.call("truncateChangeLog", [beforeSeq]);
+	}
+
+	sweepStats(): PromiseResult<SweepStats> {
+		return this.call("sweepStats");
+	}
+
+	stats(): PromiseResult<DBStats> {
+		return this.call("stats");
+	}
+
+	metricsText(): PromiseResult<string> {
+		return this.call("metricsText");
+	}
+
+	async on<E extends MiftahDBEventType>(
+		event: E,
+		pattern: string,
+		handler: MiftahDBEventHandler<E>,
+	): PromiseResult<boolean> {
+		const listenerId = this.channel.nextId++;
+		this.channel.listeners.set(listenerId, handler as MiftahDBEventHandler<MiftahDBEventType>);
+
+		const result = await this.call<boolean>("on", [event, pattern, listenerId]);
+		if (!result.success) this.channel.listeners.delete(listenerId);
+
+		return result;
+	}
+
+	off<E extends MiftahDBEventType>(
+		event: E,
+		handler: MiftahDBEventHandler<E>,
+	): PromiseResult<boolean> {
+		let listenerId = -1;
+		for (const [id, h] of this.channel.listeners) {
+			if (h === handler) listenerId = id;
+		}
+		this.channel.listeners.delete(listenerId);
+
+		return this.call("off", [event, listenerId]);
+	}
+
+	vacuum(): PromiseResult<boolean> {
+		return this.call("vacuum");
+	}
+
+	async close(): PromiseResult<boolean> {
+		const result = await this.call<boolean>("close");
+		if (!result.success) return result;
+
+		this.channel.closed = true;
+		await this.channel.worker.terminate();
+
+		return result;
+	}
+
+	cleanup(): PromiseResult<number> {
+		return this.call("cleanup");
+	}
+
+	recompress(batchSize?: number): PromiseResult<number> {
+		return this.call("recompress", [batchSize]);
+	}
+
+	rotateKey(newKey: EncryptionKey, batchSize?: number): PromiseResult<number> {
+		return this.call("rotateKey", [newKey, batchSize]);
+	}
+
+	flush(): PromiseResult<number> {
+		return this.call("flush");
+	}
+
+	execute(sql: string, params?: unknown[]): PromiseResult<unknown> {
+		return this.call("execute", [sql, params]);
+	}
+
+	// The progress callback cannot be sent to the worker, so only the step size is supported
+	backup(path: string, options?: Pick<BackupOptions, "pagesPerStep">): PromiseResult<boolean> {
+		return this.call("backup", [path, options]);
+	}
+
+	restore(path: string, options?: Pick<BackupOptions, "pagesPerStep">): PromiseResult<boolean> {
+		return this.call("restore", [path, options]);
+	}
+
+	exportTo(path: string, options?: ExportOptions): PromiseResult<number> {
+		return this.call("exportTo", [path, options]);
+	}
+
+	importFrom(path: string, options?: ImportOptions): PromiseResult<number> {
+		return this.call("importFrom", [path, options]);
+	}
+
+	// Instances cannot be sent to the worker, so the other database is given by its path
+	diff(other: string, options?: DiffOptions): PromiseResult<DiffResult> {
+		return this.call("diff", [other, options]);
+	}
+
+	syncFrom(other: string, options?: SyncOptions): PromiseResult<SyncResult> {
+		return this.call("syncFrom", [other, options]);
+	}
+}
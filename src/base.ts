@@ -1,45 +1,158 @@
-import { readFile, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { existsSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { open, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import DB, { type Database, type RunResult, type Statement } from "better-sqlite3";
-import { decodeValue, encodeValue } from "./encoding";
-import { SQL_STATEMENTS } from "./statements";
+import {
+	compressEncodedValue,
+	decodeKeyType,
+	decodeValue,
+	encodeKeyType,
+	encodeValue,
+	msgpackSerializer,
+	registerSerializer,
+	unwrapEncodedValue,
+} from "./encoding";
+import {
+	addKey,
+	createKeyring,
+	decryptBytes,
+	encryptBytes,
+	encryptedKeyId,
+	type Keyring,
+} from "./encryption";
+import { ConflictError } from "./errors";
+import { MiftahDBEventEmitter } from "./events";
+import { formatRecords, fromExportValue, readRecords, toExportValue } from "./exchange";
+import {
+	assertCurrentFormat,
+	assertSupportedFormat,
+	hasColumn,
+	migrate,
+	needsMigration,
+	readFormatVersion,
+} from "./migrations";
+import { formatPrometheus, OperationMetrics } from "./metrics";
+import { compilePattern, escapeGlob, patternToRegExp } from "./patterns";
+import { GLOB_MATCH, LIKE_MATCH, OTHER, SQL_STATEMENTS } from "./statements";
+import { ExpirySweeper } from "./sweeper";
 import type {
+	BackupOptions,
+	ChangeLogEntry,
+	ChangeOp,
+	DataTypeOperation,
+	ChangesSinceOptions,
+	CompressionOptions,
 	DBOptions,
+	DBStats,
+	DiffOptions,
+	DiffResult,
+	EncryptionKey,
+	ExportOptions,
+	ExportRecord,
+	GetExOptions,
 	IMiftahDB,
+	ImportOptions,
+	KeyType,
+	MiftahDBEventHandler,
+	MiftahDBEvents,
+	MiftahDBEventType,
 	MiftahDBItem,
 	MiftahValue,
+	NamespaceOptions,
+	NamespaceStats,
+	PatternMode,
 	PromiseResult,
 	Result,
+	ScanEntry,
+	ScanOptions,
+	ScanResult,
+	Serializer,
+	SetOptions,
+	SweepStats,
+	SyncOptions,
+	SyncResult,
+	TransactionMode,
+	TransactionOptions,
+	Validator,
+	VersionedValue,
+	ZSetEntry,
 } from "./types";
 
 import { defaultDBOptions } from "./types";
-import { executeOnExit, expiresAtMs, OK, SafeExecution } from "./utils";
+import {
+	executeOnExit,
+	expiresAtMs,
+	isFailedResult,
+	OK,
+	optionsExpiresAtMs,
+	SafeExecution,
+} from "./utils";
+import { assertValid } from "./validation";
 
 export abstract class BaseMiftahDB implements IMiftahDB {
 	protected declare db: Database;
 	protected statements: Record<string, Statement>;
+	// The path and options the database was opened with, `restore` opens it again with them
+	protected readonly path: string;
+	private readonly options: DBOptions;
+	readonly namespaceName: string | null = null;
+	readonly parent: IMiftahDB | null = null;
 	private readonly nameSpacePrefix: string | null = null;
+	private readonly namespaceSeparator: string;
 	private readonly autoCleanupOnClose: boolean;
+	private readonly vacuumOnClose: boolean;
+	private readonly patternMode: PatternMode;
+	private readonly serializer: Serializer;
+	private readonly compression: CompressionOptions | null;
+	private readonly keyring: Keyring;
+	private readonly validator: Validator<unknown> | null = null;
+	private readonly changeLog: boolean;
+	// Shared with namespaced instances, which inherit it through the prototype chain
+	private readonly events: MiftahDBEventEmitter;
+	private readonly sweeper: ExpirySweeper;
+	// Calls of the public methods, recorded by `SafeExecution` and shared with namespaced instances as well
+	protected readonly metrics = new OperationMetrics();
 
 	constructor(path = ":memory:", options: DBOptions = defaultDBOptions) {
+		this.path = path;
+		this.options = options;
+		// Checked before the file is opened, so that an invalid serializer leaves no handle behind
+		this.serializer = options.serializer ?? msgpackSerializer;
+		registerSerializer(this.serializer);
 		this.initDatabase(path);
 
-		const formattedPRAGMA = SQL_STATEMENTS.CREATE_PRAGMA.replace(
-			"%journal_mode",
-			options.journalMode ?? "WAL",
-		)
-			.replace("%synchronous_mode", options.synchronousMode ?? "NORMAL")
-			.replace("%temp_store_mode", options.tempStoreMode ?? "MEMORY")
-			.replace("%cache_size", options.cacheSize?.toString() ?? "-64000")
-			.replace("%mmap_size", options.mmapSize?.toString() ?? "30000000000")
-			.replace("%locking_mode", options.lockingMode ?? "NORMAL")
-			.replace("%auto_vacuum_mode", options.autoVacuumMode ?? "OFF");
-
-		this.db.exec(formattedPRAGMA);
-		this.db.exec(SQL_STATEMENTS.CREATE_TABLE);
-		this.db.exec(SQL_STATEMENTS.CREATE_INDEX);
+		this._applyPragmas(options);
+		try {
+			this.initSchema();
+		} catch (error) {
+			this.db.close();
+			throw error;
+		}
 
+		this.patternMode = options.patternMode ?? "like";
+		this.namespaceSeparator = options.namespaceSeparator ?? ":";
+		if (this.namespaceSeparator.length === 0)
+			throw new Error("Namespace separator cannot be empty.");
+		this.events = new MiftahDBEventEmitter(this.namespaceSeparator);
 		this.statements = this.prepareStatements();
 		this.autoCleanupOnClose = options.autoCleanupOnClose ?? false;
+		this.vacuumOnClose = options.vacuumOnClose ?? true;
+		this.changeLog = options.changeLog ?? false;
+
+		this.compression = options.compression ?? null;
+		this.keyring = createKeyring(options.encryption);
+
+		this.sweeper = new ExpirySweeper(
+			{
+				interval: options.cleanupInterval ?? 0,
+				batchSize: options.cleanupBatchSize ?? 500,
+				maxDurationMs: options.cleanupMaxDurationMs ?? 50,
+			},
+			(now, batchSize) => this._sweepBatch(now, batchSize),
+		);
+		this.sweeper.start();
 
 		const autoCloseOnExit = options.autoCloseOnExit ?? true;
 		if (autoCloseOnExit) executeOnExit(() => this.close());
@@ -49,41 +162,696 @@ export abstract class BaseMiftahDB implements IMiftahDB {
 		return {
 			get: this.db.prepare(SQL_STATEMENTS.GET),
 			set: this.db.prepare(SQL_STATEMENTS.SET),
+			touch: this.db.prepare(SQL_STATEMENTS.TOUCH),
+			versionSequence: this.db.prepare(SQL_STATEMENTS.VERSION_SEQUENCE),
 			exists: this.db.prepare(SQL_STATEMENTS.EXISTS),
 			delete: this.db.prepare(SQL_STATEMENTS.DELETE),
 			rename: this.db.prepare(SQL_STATEMENTS.RENAME),
 			getExpire: this.db.prepare(SQL_STATEMENTS.GET_EXPIRE),
+			pageCount: this.db.prepare(SQL_STATEMENTS.PAGE_COUNT),
+			pageSize: this.db.prepare(SQL_STATEMENTS.PAGE_SIZE),
 			persist: this.db.prepare(SQL_STATEMENTS.PERSIST),
 			setExpire: this.db.prepare(SQL_STATEMENTS.SET_EXPIRE),
-			keys: this.db.prepare(SQL_STATEMENTS.KEYS),
-			pagination: this.db.prepare(SQL_STATEMENTS.PAGINATION),
-			expiredRange: this.db.prepare(SQL_STATEMENTS.GET_EXPIRED_RANGE),
-			cleanup: this.db.prepare(SQL_STATEMENTS.CLEANUP),
-			countKeys: this.db.prepare(SQL_STATEMENTS.COUNT_KEYS),
-			countExpired: this.db.prepare(SQL_STATEMENTS.COUNT_EXPIRED),
+			keys: this._prepareMatching(SQL_STATEMENTS.KEYS),
+			pagination: this._prepareMatching(SQL_STATEMENTS.PAGINATION),
+			scanKeys: this._prepareMatching(SQL_STATEMENTS.SCAN_KEYS),
+			scanRows: this._prepareMatching(SQL_STATEMENTS.SCAN_ROWS),
+			expiredRange: this._prepareMatching(SQL_STATEMENTS.GET_EXPIRED_RANGE),
+			cleanup: this._prepareMatching(SQL_STATEMENTS.CLEANUP),
+			expiredKeys: this._prepareMatching(SQL_STATEMENTS.GET_EXPIRED_KEYS),
+			sweep: this.db.prepare(SQL_STATEMENTS.SWEEP),
+			countKeys: this._prepareMatching(SQL_STATEMENTS.COUNT_KEYS),
+			countExpired: this._prepareMatching(SQL_STATEMENTS.COUNT_EXPIRED),
+			listNamespaces: this._prepareMatching(SQL_STATEMENTS.LIST_NAMESPACES),
+			namespaceBytes: this._prepareMatching(SQL_STATEMENTS.NAMESPACE_BYTES),
+			appendChange: this.db.prepare(SQL_STATEMENTS.APPEND_CHANGE),
+			changesSince: this._prepareMatching(SQL_STATEMENTS.CHANGES_SINCE),
+			currentSequence: this.db.prepare(SQL_STATEMENTS.CURRENT_SEQUENCE),
+			truncateChanges: this.db.prepare(SQL_STATEMENTS.TRUNCATE_CHANGES),
 			vacuum: this.db.prepare(SQL_STATEMENTS.VACUUM),
-			flush: this.db.prepare(SQL_STATEMENTS.FLUSH),
+			flush: this._prepareMatching(SQL_STATEMENTS.FLUSH),
+			hset: this.db.prepare(SQL_STATEMENTS.HSET),
+			hget: this.db.prepare(SQL_STATEMENTS.HGET),
+			hgetall: this.db.prepare(SQL_STATEMENTS.HGETALL),
+			hdel: this.db.prepare(SQL_STATEMENTS.HDEL),
+			hlen: this.db.prepare(SQL_STATEMENTS.HLEN),
+			listInsert: this.db.prepare(SQL_STATEMENTS.LIST_INSERT),
+			listBounds: this.db.prepare(SQL_STATEMENTS.LIST_BOUNDS),
+			listAt: this.db.prepare(SQL_STATEMENTS.LIST_AT),
+			lrange: this.db.prepare(SQL_STATEMENTS.LRANGE),
+			listDeleteAt: this.db.prepare(SQL_STATEMENTS.LIST_DELETE_AT),
+			listMove: this.db.prepare(SQL_STATEMENTS.LIST_MOVE),
+			ltrim: this.db.prepare(SQL_STATEMENTS.LTRIM),
+			listElements: this.db.prepare(SQL_STATEMENTS.LIST_ELEMENTS),
+			listElementsReverse: this.db.prepare(SQL_STATEMENTS.LIST_ELEMENTS_REVERSE),
+			sadd: this.db.prepare(SQL_STATEMENTS.SADD),
+			srem: this.db.prepare(SQL_STATEMENTS.SREM),
+			sismember: this.db.prepare(SQL_STATEMENTS.SISMEMBER),
+			smembers: this.db.prepare(SQL_STATEMENTS.SMEMBERS),
+			scard: this.db.prepare(SQL_STATEMENTS.SCARD),
+			sinter: this.db.prepare(SQL_STATEMENTS.SINTER),
+			sunion: this.db.prepare(SQL_STATEMENTS.SUNION),
+			sdiff: this.db.prepare(SQL_STATEMENTS.SDIFF),
+			zadd: this.db.prepare(SQL_STATEMENTS.ZADD),
+			zscore: this.db.prepare(SQL_STATEMENTS.ZSCORE),
+			zrank: this.db.prepare(SQL_STATEMENTS.ZRANK),
+			zrange: this.db.prepare(SQL_STATEMENTS.ZRANGE),
+			zrangeByScore: this.db.prepare(SQL_STATEMENTS.ZRANGE_BY_SCORE),
+			zrem: this.db.prepare(SQL_STATEMENTS.ZREM),
+			zcard: this.db.prepare(SQL_STATEMENTS.ZCARD),
+			rowsAfter: this._prepareMatching(SQL_STATEMENTS.ROWS_AFTER),
+			updateValue: this.db.prepare(SQL_STATEMENTS.UPDATE_VALUE),
+			updateHashValue: this.db.prepare(SQL_STATEMENTS.UPDATE_HASH_VALUE),
+			updateListValue: this.db.prepare(SQL_STATEMENTS.UPDATE_LIST_VALUE),
+			updateSetMember: this.db.prepare(SQL_STATEMENTS.UPDATE_SET_MEMBER),
+			updateZSetMember: this.db.prepare(SQL_STATEMENTS.UPDATE_ZSET_MEMBER),
 		};
 	}
 
 	protected abstract initDatabase(path: string | ":memory:"): void;
 
+	// Prepares a statement that matches keys against a pattern, in the pattern mode of the instance
+	private _prepareMatching(sql: string): Statement {
+		return this.db.prepare(
+			this.patternMode === "glob" ? sql.replaceAll(LIKE_MATCH, GLOB_MATCH) : sql,
+		);
+	}
+
 	protected beforeClose(): void {
-		this.vacuum();
+		this.sweeper.stop();
+		if (this.vacuumOnClose) this.vacuum();
 		if (this.autoCleanupOnClose) this.cleanup();
 	}
 
+	private _applyPragmas(options: DBOptions): void {
+		const formattedPRAGMA = SQL_STATEMENTS.CREATE_PRAGMA.replace(
+			"%journal_mode",
+			options.journalMode ?? "WAL",
+		)
+			.replace("%synchronous_mode", options.synchronousMode ?? "NORMAL")
+			.replace("%temp_store_mode", options.tempStoreMode ?? "MEMORY")
+			.replace("%cache_size", options.cacheSize?.toString() ?? "-64000")
+			.replace("%mmap_size", options.mmapSize?.toString() ?? "30000000000")
+			.replace("%locking_mode", options.lockingMode ?? "NORMAL")
+			.replace("%auto_vacuum_mode", options.autoVacuumMode ?? "OFF");
+
+		this.db.exec(formattedPRAGMA);
+	}
+
+	// The instance that owns the connection, namespaced instances read it through the prototype chain
+	private _root(): BaseMiftahDB {
+		let root = this as BaseMiftahDB;
+		while (root.parent) root = root.parent as BaseMiftahDB;
+
+		return root;
+	}
+
+	// Replaces an in-memory database, the previous one is kept if the new one cannot be opened.
+	// The connection is replaced on the root instance, so that every namespace uses the new one.
+	protected replaceMemoryDatabase(db: Database): void {
+		const root = this._root();
+		const previousDB = root.db;
+		root.db = db;
+		try {
+			root._applyPragmas(root.options);
+			root.initSchema();
+		} catch (error) {
+			root.db.close();
+			root.db = previousDB;
+			throw error;
+		}
+
+		previousDB.close();
+		root.statements = root.prepareStatements();
+	}
+
+	// Closes the database while its file is replaced, then opens it again with the options it was opened with.
+	// The file is opened again even if it could not be replaced, on the root instance as well.
+	protected async replaceDatabaseFile(replace: () => Promise<void>): Promise<void> {
+		const root = this._root();
+		root.sweeper.stop();
+		root.db.close();
+
+		try {
+			await replace();
+		} finally {
+			root.initDatabase(root.path);
+			root._applyPragmas(root.options);
+			root.initSchema();
+			root.statements = root.prepareStatements();
+			root.sweeper.start();
+		}
+	}
+
+	// Reports a copy made in a single step, where no online backup is available
+	protected reportSingleStepCopy(db: Database, options: BackupOptions): void {
+		if (!options.progress) return;
+
+		const { page_count } = db.prepare(SQL_STATEMENTS.PAGE_COUNT).get() as { page_count: number };
+		options.progress({ totalPages: page_count, remainingPages: 0 });
+	}
+
+	private _pagesPerStep(options: BackupOptions, operation: string): number {
+		const pagesPerStep = options.pagesPerStep ?? 100;
+		if (!Number.isInteger(pagesPerStep) || pagesPerStep < 1) {
+			throw new Error(`Pages per step must be a positive integer, cannot ${operation}.`);
+		}
+
+		return pagesPerStep;
+	}
+
+	// Copies a database into a file with the online backup API, reporting the progress of every step
+	private async _copyDatabase(
+		source: Database,
+		path: string,
+		options: BackupOptions,
+		pagesPerStep: number,
+	): Promise<void> {
+		const result = await source.backup(path, {
+			progress: (progress) => {
+				options.progress?.(progress);
+				return pagesPerStep;
+			},
+		});
+		// The last step is not reported by better-sqlite3
+		options.progress?.(result);
+	}
+
 	private addNamespacePrefix(k: string): string {
-		return this.nameSpacePrefix ? `${this.nameSpacePrefix}:${k}` : k;
+		return this.nameSpacePrefix ? `${this.nameSpacePrefix}${this.namespaceSeparator}${k}` : k;
+	}
+
+	// Compiles a key pattern of a namespace, the current one by default, into the two parameters of `LIKE_MATCH`:
+	// the glob of the namespace prefix and the pattern. Without a pattern, every key of the namespace matches.
+	private _keyPattern(pattern?: string, namespacePath = this.nameSpacePrefix): [string, string] {
+		const prefix = namespacePath === null ? "" : `${namespacePath}${this.namespaceSeparator}`;
+		return [`${escapeGlob(prefix)}*`, compilePattern(prefix, pattern, this.patternMode)];
 	}
 
 	private removeNamespacePrefix(key: string): string {
-		return this.nameSpacePrefix && key.startsWith(`${this.nameSpacePrefix}:`)
-			? key.slice(this.nameSpacePrefix.length + 1)
-			: key;
+		const prefix = `${this.nameSpacePrefix}${this.namespaceSeparator}`;
+		return this.nameSpacePrefix && key.startsWith(prefix) ? key.slice(prefix.length) : key;
+	}
+
+	// Throws a ValidationError if the namespace has a validator that rejects the value
+	private _validate(key: string, value: unknown, operation: string): void {
+		if (this.validator) assertValid(this.validator, value, key, operation);
+	}
+
+	// Returns the full paths of the namespaces holding live keys in a namespace, down to the given depth
+	private _childNamespaces(namespacePath: string | null, depth: number): string[] {
+		const separator = this.namespaceSeparator;
+		const prefix = namespacePath === null ? "" : `${namespacePath}${separator}`;
+		const rows = this.statements.listNamespaces.all(
+			separator,
+			[...prefix].length + 1,
+			...this._keyPattern(undefined, namespacePath),
+			Date.now(),
+			separator,
+		) as { name: string }[];
+
+		const paths: string[] = [];
+		for (const { name } of rows) {
+			paths.push(`${prefix}${name}`);
+			if (depth > 1) paths.push(...this._childNamespaces(`${prefix}${name}`, depth - 1));
+		}
+
+		return paths;
+	}
+
+	// Deletes every key of a namespace and publishes the flush, `null` flushes the whole database
+	private _flushNamespace(namespacePath: string | null): number {
+		return this._logged(() => {
+			const result = this.statements.flush.run(...this._keyPattern(undefined, namespacePath));
+			this._publish("flush", null, { namespace: namespacePath, count: result.changes });
+
+			return result.changes;
+		});
+	}
+
+	// Runs a transaction, events published inside it are delivered once the outermost transaction commits
+	private _transaction<R>(fn: () => R, mode: TransactionMode = "deferred"): R {
+		const mark = this.events.mark();
+
+		try {
+			const result = this.db.transaction(fn)[mode]();
+			if (!this.db.inTransaction) this.events.commit();
+
+			return result;
+		} catch (error) {
+			this.events.rollback(mark);
+			throw error;
+		}
+	}
+
+	// Publishes a change, and appends it to the change log when enabled
+	private _publish<E extends MiftahDBEventType>(
+		event: E,
+		prefixedKey: string | null,
+		payload: MiftahDBEvents[E],
+	): void {
+		if (this.changeLog) this._logChange(event, prefixedKey, payload);
+		this.events.publish(event, prefixedKey, payload, this.db.inTransaction);
+	}
+
+	private _logChange<E extends MiftahDBEventType>(
+		event: E,
+		prefixedKey: string | null,
+		payload: MiftahDBEvents[E],
+	): void {
+		const timestamp = Date.now();
+		const append = (op: ChangeOp, key: string | null, expiresAt: number | null) =>
+			this.statements.appendChange.run(op, key, expiresAt, timestamp);
+
+		if (event === "set" || event === "expire") {
+			append(event, prefixedKey, (payload as MiftahDBEvents["set"]).expiresAt);
+		} else if (event === "delete") {
+			append("delete", prefixedKey, null);
+		} else if (event === "increment") {
+			append("increment", prefixedKey, this._getExpiresAt(prefixedKey as string));
+		} else if (event === "rename") {
+			const newKey = this.addNamespacePrefix((payload as MiftahDBEvents["rename"]).newKey);
+			append("delete", prefixedKey, null);
+			append("set", newKey, this._getExpiresAt(newKey));
+		} else {
+			append("flush", (payload as MiftahDBEvents["flush"]).namespace, null);
+		}
+	}
+
+	// Publishes the deletion of an expired key as the instance that removed it, like the other changes
+	private _publishExpired(prefixedKey: string): void {
+		this._publish("delete", prefixedKey, {
+			key: this.removeNamespacePrefix(prefixedKey),
+			namespace: this.nameSpacePrefix,
+			expired: true,
+		});
+	}
+
+	// Deletes a key found expired when it was read, the key is already prefixed unlike the one of `delete`
+	private _deleteExpired(prefixedKey: string): void {
+		this._logged(() => {
+			if (this.statements.delete.run(prefixedKey).changes > 0) this._publishExpired(prefixedKey);
+		});
+	}
+
+	// Runs a write, in a transaction when the change log is enabled so that its changes are appended atomically
+	private _logged<R>(fn: () => R): R {
+		return this.changeLog ? this._transaction(fn) : fn();
+	}
+
+	private _sweepBatch(now: number, batchSize: number): number {
+		return this._transaction(() => {
+			const result = this.statements.sweep.all(now, batchSize) as { key: string }[];
+			for (const { key } of result) this._publishExpired(key);
+
+			return result.length;
+		});
+	}
+
+	// Attaches the file of another database while `fn` runs, an in-memory instance is attached from a temporary copy
+	private _withAttached<R>(other: IMiftahDB | string, operation: string, fn: () => R): R {
+		let path: string;
+		let copy: string | null = null;
+		if (typeof other === "string") {
+			// SQLite would create a missing file
+			if (!existsSync(other)) throw new Error(`Database file not found, cannot ${operation}.`);
+			path = other;
+		} else if (other instanceof BaseMiftahDB) {
+			if (other.path === ":memory:") {
+				copy = join(tmpdir(), `miftahdb-${randomUUID()}.db`);
+				writeFileSync(copy, other.db.serialize());
+			}
+			path = copy ?? other.path;
+		} else {
+			throw new Error(
+				`Other database must be a MiftahDB instance or a file path, cannot ${operation}.`,
+			);
+		}
+
+		this.db.prepare(SQL_STATEMENTS.ATTACH_OTHER).run(path);
+		try {
+			// Files of older releases lack the columns read by the statements, they are upgraded when opened
+			if (!hasColumn(this.db, OTHER, "modified_at")) {
+				throw new Error(
+					`Database file was written by an older release, open it to upgrade it, cannot ${operation}.`,
+				);
+			}
+			return fn();
+		} finally {
+			this.db.exec(SQL_STATEMENTS.DETACH_OTHER);
+			if (copy) rmSync(copy, { force: true });
+		}
+	}
+
+	// Returns the prefixed keys that differ from the attached database, read in a single transaction
+	private _diffAttached(pattern?: string): Record<keyof DiffResult, string[]> {
+		const now = Date.now();
+		const keyPattern = this._keyPattern(pattern);
+		const keys = (sql: string) =>
+			(this._prepareMatching(sql).all(...keyPattern, now, now) as { key: string }[]).map(
+				({ key }) => key,
+			);
+
+		return this._transaction(() => ({
+			added: keys(SQL_STATEMENTS.DIFF_ADDED),
+			removed: keys(SQL_STATEMENTS.DIFF_REMOVED),
+			changed: keys(SQL_STATEMENTS.DIFF_CHANGED),
+		}));
+	}
+
+	// Replaces a key with the key of the attached database and its data, and publishes the set
+	private _copyAttachedKey(prefixedKey: string, copyStatements: Statement[]): void {
+		const previousExpiresAt = this.events.has("set") ? this._getExpiresAt(prefixedKey) : null;
+		this.statements.delete.run(prefixedKey);
+		for (const statement of copyStatements) statement.run(prefixedKey);
+
+		this._publish("set", prefixedKey, {
+			key: this.removeNamespacePrefix(prefixedKey),
+			namespace: this.nameSpacePrefix,
+			expiresAt: this._getExpiresAt(prefixedKey),
+			previousExpiresAt,
+		});
+	}
+
+	// Deletes a key missing from the attached database, and publishes the delete
+	private _deleteAttachedRemoved(prefixedKey: string): void {
+		this.statements.delete.run(prefixedKey);
+		this._publish("delete", prefixedKey, {
+			key: this.removeNamespacePrefix(prefixedKey),
+			namespace: this.nameSpacePrefix,
+			expired: false,
+		});
+	}
+
+	// Reads a key into the record written by `exportTo`, data types are read whole
+	private _exportRecord(entry: ScanEntry<MiftahValue>): ExportRecord {
+		const readers: Record<KeyType, () => Result<unknown>> = {
+			value: () => OK(entry.value),
+			hash: () => this.hgetall(entry.key),
+			list: () => this.lrange(entry.key),
+			set: () => this.smembers(entry.key),
+			zset: () => this.zrange(entry.key),
+		};
+		const result = readers[entry.type]();
+		if (!result.success) throw result.error;
+
+		return {
+			key: entry.key,
+			type: entry.type,
+			value: toExportValue(result.data),
+			expiresAt: entry.expiresAt ? entry.expiresAt.toISOString() : null,
+		};
+	}
+
+	// Writes a record read by `importFrom`, a data type replaces the key of the same name instead of merging into it
+	private _importRecord(record: ExportRecord): void {
+		const { key, type } = record;
+		const prefixedKey = this.addNamespacePrefix(key);
+		const value = fromExportValue(record.value);
+		const expiresAt = record.expiresAt === null ? null : Date.parse(record.expiresAt);
+
+		if (type === "value") {
+			this._validate(key, value, "importFrom");
+			this._setValue(
+				prefixedKey,
+				key,
+				this._encodeStored(value as MiftahValue, prefixedKey),
+				expiresAt,
+			);
+			return;
+		}
+
+		this.statements.delete.run(prefixedKey);
+		// Data types cannot be empty, an empty one is only deleted
+		const size = Array.isArray(value) ? value.length : Object.keys(value as object).length;
+		if (size === 0) return;
+
+		this._setRow(prefixedKey, encodeKeyType(type), expiresAt);
+		if (type === "hash") {
+			for (const [field, fieldValue] of Object.entries(value as Record<string, MiftahValue>)) {
+				this.statements.hset.run(prefixedKey, field, this._encodeStored(fieldValue, prefixedKey));
+			}
+		} else if (type === "list") {
+			const values = value as MiftahValue[];
+			this._pushValues(
+				prefixedKey,
+				values.map((v) => this._encodeStored(v, prefixedKey)),
+				"tail",
+				"importFrom",
+			);
+		} else if (type === "set") {
+			for (const member of value as MiftahValue[]) {
+				this.statements.sadd.run(prefixedKey, this._encodeMember(member));
+			}
+		} else {
+			for (const { member, score } of value as ZSetEntry<MiftahValue>[]) {
+				this.statements.zadd.run(prefixedKey, this._encodeMember(member), score);
+			}
+		}
+	}
+
+	// Creates the tables of a new file or migrates an older one, files of a newer format are refused.
+	// Files at the current format are left untouched, so opening them takes no write lock.
+	protected initSchema(): void {
+		if (!needsMigration(this.db)) return;
+		if (this.options.upgrade === false) assertCurrentFormat(this.db);
+
+		this.db
+			.transaction(() => {
+				migrate(this.db);
+				this.db.exec(SQL_STATEMENTS.CREATE_INDEX);
+				this.db.exec(SQL_STATEMENTS.CREATE_HASH_TABLE);
+				this.db.exec(SQL_STATEMENTS.CREATE_LIST_TABLE);
+				this.db.exec(SQL_STATEMENTS.CREATE_SET_TABLE);
+				this.db.exec(SQL_STATEMENTS.CREATE_ZSET_TABLE);
+				this.db.exec(SQL_STATEMENTS.CREATE_ZSET_INDEX);
+				this.db.exec(SQL_STATEMENTS.CREATE_CHANGES_TABLE);
+				this.db.exec(SQL_STATEMENTS.CREATE_VERSION_SEQUENCE);
+			})
+			.immediate();
+	}
+
+	// Writes a row, the statement gives it the next version of the sequence
+	private _setRow(prefixedKey: string, value: Uint8Array, expiresAt: number | null): RunResult {
+		return this.statements.set.run(prefixedKey, value, expiresAt, Date.now());
+	}
+
+	// Records that the data of a hash, list, set or sorted set was written, for `syncFrom` to tell the newest key
+	private _touch(prefixedKey: string): void {
+		this.statements.touch.run(Date.now(), prefixedKey);
+	}
+
+	// Returns the version of the last written row
+	private _lastVersion(): number {
+		return (this.statements.versionSequence.get() as { version: number }).version;
 	}
 
-	private _getInitialNumericValueAndExpiry(prefixedKey: string): {
+	// Writes a value and publishes the set event
+	private _setValue(
+		prefixedKey: string,
+		key: string,
+		encodedValue: Uint8Array,
+		expiresAt: number | null,
+	): void {
+		this._logged(() => {
+			const previousExpiresAt = this.events.has("set") ? this._getExpiresAt(prefixedKey) : null;
+			this._setRow(prefixedKey, encodedValue, expiresAt);
+
+			this._publish("set", prefixedKey, {
+				key,
+				namespace: this.nameSpacePrefix,
+				expiresAt,
+				previousExpiresAt,
+			});
+		});
+	}
+
+	// Encodes a value with the serializer of the instance, comparisons use this encoding
+	private _encode(value: MiftahValue): Uint8Array {
+		return encodeValue(value, this.serializer);
+	}
+
+	// Encodes a value to be stored under a key, compressing and encrypting it if enabled
+	private _encodeStored(value: MiftahValue, prefixedKey: string): Uint8Array {
+		return this._seal(this._compress(this._encode(value)), prefixedKey);
+	}
+
+	// Encodes a set member, members are encrypted deterministically and not bound to their key,
+	// so that SQLite can still compare them, also across keys
+	private _encodeMember(value: MiftahValue): Uint8Array {
+		const encoded = this._encode(value);
+		return this.keyring.current ? encryptBytes(encoded, this.keyring.current, null, true) : encoded;
+	}
+
+	private _compress(encoded: Uint8Array): Uint8Array {
+		return this.compression ? compressEncodedValue(encoded, this.compression) : encoded;
+	}
+
+	private _seal(bytes: Uint8Array, prefixedKey: string): Uint8Array {
+		return this.keyring.current ? encryptBytes(bytes, this.keyring.current, prefixedKey) : bytes;
+	}
+
+	// Decodes stored bytes read under a key, `null` for set members, whether they are encrypted, compressed or not
+	private _decode<T>(stored: Uint8Array, prefixedKey: string | null): T | null {
+		return decodeValue(decryptBytes(stored, this.keyring, prefixedKey));
+	}
+
+	// Checks if stored bytes hold the given encoded value, whether they are encrypted, compressed or not
+	private _storedEquals(stored: Uint8Array, encoded: Uint8Array, prefixedKey: string): boolean {
+		const opened = decryptBytes(stored, this.keyring, prefixedKey);
+		return Buffer.from(unwrapEncodedValue(opened)).equals(encoded);
+	}
+
+	// Encrypts the bytes of a value read under one key again for another key, with the key that encrypted them
+	private _rebind(stored: Uint8Array, fromPrefixedKey: string, toPrefixedKey: string): Uint8Array {
+		const keyId = encryptedKeyId(stored);
+		if (keyId === null) return stored;
+
+		const opened = decryptBytes(stored, this.keyring, fromPrefixedKey);
+		return encryptBytes(
+			opened,
+			{ id: keyId, key: this.keyring.keys.get(keyId) as Uint8Array },
+			toPrefixedKey,
+		);
+	}
+
+	// Checks if stored bytes were encrypted with a key this instance does not know, such as a key of another namespace
+	private _hasForeignKey(stored: Uint8Array): boolean {
+		const keyId = encryptedKeyId(stored);
+		return keyId !== null && !this.keyring.keys.has(keyId);
+	}
+
+	// Rewrites the stored bytes of every row in batches of keys, `rewriteValue` and `rewriteMember`
+	// return the new bytes of a value or set member, or null to keep them. Returns the number of rewritten rows.
+	private _rewriteRows(
+		batchSize: number,
+		rewriteValue: (stored: Uint8Array, prefixedKey: string) => Uint8Array | null,
+		rewriteMember: ((stored: Uint8Array) => Uint8Array | null) | null,
+	): number {
+		const prefixedPattern = this._keyPattern();
+		let lastKey = "";
+		let rewrittenRows = 0;
+
+		// Each batch is its own transaction, so that other connections can write in between
+		while (true) {
+			const rows = this.statements.rowsAfter.all(...prefixedPattern, lastKey, batchSize) as {
+				key: string;
+				value: Uint8Array;
+			}[];
+			if (rows.length === 0) break;
+
+			rewrittenRows += this._transaction(() => {
+				let count = 0;
+				for (const row of rows) {
+					count += this._rewriteKey(row.key, row.value, rewriteValue, rewriteMember);
+				}
+				return count;
+			});
+			lastKey = rows[rows.length - 1].key;
+		}
+
+		return rewrittenRows;
+	}
+
+	private _rewriteKey(
+		prefixedKey: string,
+		value: Uint8Array,
+		rewriteValue: (stored: Uint8Array, prefixedKey: string) => Uint8Array | null,
+		rewriteMember: ((stored: Uint8Array) => Uint8Array | null) | null,
+	): number {
+		const type = decodeKeyType(value);
+		const rewriteBound = (stored: Uint8Array) => rewriteValue(stored, prefixedKey);
+		let count = 0;
+
+		const rewrite = (
+			stored: Uint8Array,
+			fn: (stored: Uint8Array) => Uint8Array | null,
+			update: (bytes: Uint8Array) => void,
+		) => {
+			const bytes = fn(stored);
+			if (!bytes) return;
+
+			update(bytes);
+			count++;
+		};
+
+		if (type === "value") {
+			rewrite(value, rewriteBound, (bytes) => this.statements.updateValue.run(bytes, prefixedKey));
+		} else if (type === "hash") {
+			const fields = this.statements.hgetall.all(prefixedKey) as {
+				field: string;
+				value: Uint8Array;
+			}[];
+			for (const f of fields) {
+				rewrite(f.value, rewriteBound, (bytes) =>
+					this.statements.updateHashValue.run(bytes, prefixedKey, f.field),
+				);
+			}
+		} else if (type === "list") {
+			const elements = this.statements.listElements.all(prefixedKey) as {
+				position: number;
+				value: Uint8Array;
+			}[];
+			for (const e of elements) {
+				rewrite(e.value, rewriteBound, (bytes) =>
+					this.statements.updateListValue.run(bytes, prefixedKey, e.position),
+				);
+			}
+		} else if (rewriteMember) {
+			const statement =
+				type === "set" ? this.statements.updateSetMember : this.statements.updateZSetMember;
+			const members = (
+				type === "set"
+					? this.statements.smembers.all(prefixedKey)
+					: this.statements.zrange.all(prefixedKey, -1, 0)
+			) as { member: Uint8Array }[];
+			for (const m of members) {
+				rewrite(m.member, rewriteMember, (bytes) => statement.run(bytes, prefixedKey, m.member));
+			}
+		}
+
+		return count;
+	}
+
+	// Returns the row of a key, or null if it does not exist, expired rows are deleted
+	private _getLiveItem(prefixedKey: string): MiftahDBItem | null {
+		const result = this.statements.get.get(prefixedKey) as MiftahDBItem | null;
+		if (!result) return null;
+
+		if (result.expires_at && result.expires_at <= Date.now()) {
+			this.statements.delete.run(prefixedKey);
+			return null;
+		}
+
+		return result;
+	}
+
+	// Returns the row of a plain value key, throwing if it does not exist or is expired
+	private _getValueItem(prefixedKey: string, operation: string): MiftahDBItem {
+		const result = this.statements.get.get(prefixedKey) as MiftahDBItem | null;
+
+		if (!result) throw Error(`Key not found, cannot ${operation}.`);
+		if (result.expires_at && result.expires_at <= Date.now()) {
+			this.statements.delete.run(prefixedKey);
+			throw new Error(`Key expired, cannot ${operation}.`);
+		}
+		this._assertKeyType(prefixedKey, result, "value", operation);
+
+		return result;
+	}
+
+	private _getExpiresAt(prefixedKey: string): number | null {
+		const result = this.statements.getExpire.get(prefixedKey) as {
+			expires_at: number | null;
+		} | null;
+
+		return result?.expires_at ?? null;
+	}
+
+	private _getInitialNumericValueAndExpiry(
+		prefixedKey: string,
+		operation: "increment" | "decrement",
+	): {
 		currentValue: number;
 		expiresAt: number | null;
 	} {
@@ -98,7 +866,8 @@ export abstract class BaseMiftahDB implements IMiftahDB {
 				currentValue = 0;
 				// When setting new value, it won't have an expiration unless explicitly set later
 			} else {
-				const decoded = decodeValue(getResult.value);
+				this._assertKeyType(prefixedKey, getResult, "value", operation);
+				const decoded = this._decode(getResult.value, prefixedKey);
 				if (typeof decoded !== "number" || Number.isNaN(decoded)) {
 					throw new Error(
 						`Value for key "${this.removeNamespacePrefix(prefixedKey)}" is not a number.`,
@@ -111,286 +880,1446 @@ export abstract class BaseMiftahDB implements IMiftahDB {
 			currentValue = 0;
 		}
 
-		return { currentValue, expiresAt };
-	}
-
-	private _modifyNumericValue(
-		key: string,
-		amount: number,
-		operation: "increment" | "decrement",
-	): Result<number> {
+		return { currentValue, expiresAt };
+	}
+
+	private _modifyNumericValue(
+		key: string,
+		amount: number,
+		operation: "increment" | "decrement",
+	): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		let newValue: number;
+
+		try {
+			this._transaction(() => {
+				const { currentValue, expiresAt } = this._getInitialNumericValueAndExpiry(
+					prefixedKey,
+					operation,
+				);
+
+				if (operation === "increment") {
+					newValue = currentValue + amount;
+				} else {
+					// decrement
+					newValue = currentValue - amount;
+				}
+
+				const setOpResult = this._setRow(
+					prefixedKey,
+					this._encodeStored(newValue, prefixedKey),
+					expiresAt,
+				);
+
+				if (setOpResult.changes === 0) {
+					throw new Error("Failed to update the key during numeric operation.");
+				}
+
+				this._publish("increment", prefixedKey, {
+					key,
+					namespace: this.nameSpacePrefix,
+					amount: operation === "increment" ? amount : -amount,
+					value: newValue,
+				});
+			});
+
+			// @ts-ignore newValue will be assigned if transaction is successful
+			return OK(newValue);
+		} catch (error) {
+			throw error instanceof Error ? error : new Error(String(error));
+		}
+	}
+
+	private _assertKeyType(
+		prefixedKey: string,
+		item: MiftahDBItem,
+		type: KeyType,
+		operation: string,
+	): void {
+		const actualType = decodeKeyType(item.value);
+		if (actualType !== type) {
+			throw new Error(
+				`Key "${this.removeNamespacePrefix(prefixedKey)}" holds a ${actualType}, cannot ${operation}.`,
+			);
+		}
+	}
+
+	// Returns the header row of a data type key, expired headers are deleted along with their data
+	private _getTypedKey(prefixedKey: string, type: KeyType, operation: string): MiftahDBItem | null {
+		const result = this.statements.get.get(prefixedKey) as MiftahDBItem | null;
+		if (!result) return null;
+
+		if (result.expires_at && result.expires_at <= Date.now()) {
+			this.statements.delete.run(prefixedKey);
+			return null;
+		}
+
+		this._assertKeyType(prefixedKey, result, type, operation);
+		return result;
+	}
+
+	// Creates the header row of a data type key if it does not exist yet
+	private _ensureTypedKey(
+		prefixedKey: string,
+		type: Exclude<KeyType, "value">,
+		operation: string,
+	): void {
+		if (this._getTypedKey(prefixedKey, type, operation)) {
+			this._touch(prefixedKey);
+		} else {
+			this._setRow(prefixedKey, encodeKeyType(type), null);
+		}
+	}
+
+	// Publishes a write to a hash, list, set or sorted set, as a `delete` when it removed the last element of the key
+	private _publishDataChange(prefixedKey: string, operation: DataTypeOperation): void {
+		const key = this.removeNamespacePrefix(prefixedKey);
+		const row = this.statements.getExpire.get(prefixedKey) as { expires_at: number | null } | null;
+		if (!row) {
+			this._publish("delete", prefixedKey, {
+				key,
+				namespace: this.nameSpacePrefix,
+				expired: false,
+				operation,
+			});
+			return;
+		}
+
+		this._publish("set", prefixedKey, {
+			key,
+			namespace: this.nameSpacePrefix,
+			expiresAt: row.expires_at,
+			previousExpiresAt: row.expires_at,
+			operation,
+		});
+	}
+
+	// Positions are kept contiguous, so the length of a list follows from its head and tail
+	private _getListBounds(prefixedKey: string): { head: number; tail: number; count: number } {
+		const { head, tail } = this.statements.listBounds.get(prefixedKey, prefixedKey) as {
+			head: number | null;
+			tail: number | null;
+		};
+		if (head === null || tail === null) return { head: 0, tail: -1, count: 0 };
+
+		return { head, tail, count: tail - head + 1 };
+	}
+
+	private _getListElement(prefixedKey: string, position: number): Uint8Array {
+		const result = this.statements.listAt.get(prefixedKey, position) as { value: Uint8Array };
+		return result.value;
+	}
+
+	private _pushValues(
+		prefixedKey: string,
+		encodedValues: Uint8Array[],
+		side: "head" | "tail",
+		operation: string,
+	): number {
+		this._ensureTypedKey(prefixedKey, "list", operation);
+
+		const bounds = this._getListBounds(prefixedKey);
+		let { head, tail } = bounds;
+
+		for (const encodedValue of encodedValues) {
+			const position = side === "head" ? --head : ++tail;
+			this.statements.listInsert.run(prefixedKey, position, encodedValue);
+		}
+
+		return bounds.count + encodedValues.length;
+	}
+
+	private _popValue(prefixedKey: string, side: "head" | "tail", operation: string): Uint8Array {
+		if (!this._getTypedKey(prefixedKey, "list", operation)) {
+			throw Error(`Key not found, cannot ${operation}.`);
+		}
+
+		const bounds = this._getListBounds(prefixedKey);
+		const position = side === "head" ? bounds.head : bounds.tail;
+		const value = this._getListElement(prefixedKey, position);
+
+		this.statements.listDeleteAt.run(prefixedKey, position);
+		if (bounds.count === 1) this.statements.delete.run(prefixedKey);
+		else this._touch(prefixedKey);
+
+		return value;
+	}
+
+	// Closes the gaps left by removed elements, the remaining ones are moved towards the head in order
+	private _compactList(prefixedKey: string, length: number): void {
+		if (length === 0) {
+			this.statements.delete.run(prefixedKey);
+			return;
+		}
+
+		const elements = this.statements.listElements.all(prefixedKey) as { position: number }[];
+		const head = elements[0].position;
+		for (const [index, { position }] of elements.entries()) {
+			if (position !== head + index)
+				this.statements.listMove.run(head + index, prefixedKey, position);
+		}
+	}
+
+	// Returns the prefixed keys of the given sets, dropping expired ones and checking their type
+	private _getSetKeys(keys: string[], operation: string): string[] {
+		const prefixedKeys = [...new Set(keys.map((k) => this.addNamespacePrefix(k)))];
+		for (const prefixedKey of prefixedKeys) this._getTypedKey(prefixedKey, "set", operation);
+
+		return prefixedKeys;
+	}
+
+	private _decodeZSetEntries<T>(rows: { member: Uint8Array; score: number }[]): ZSetEntry<T>[] {
+		return rows.map((r) => ({ member: this._decode(r.member, null) as T, score: r.score }));
+	}
+
+	// Converts Redis style inclusive indexes, which may be negative, into a LIMIT/OFFSET pair
+	private _normalizeListRange(
+		start: number,
+		stop: number,
+		length: number,
+	): { offset: number; limit: number } {
+		const from = Math.max(start < 0 ? length + start : start, 0);
+		const to = Math.min(stop < 0 ? length + stop : stop, length - 1);
+
+		return { offset: from, limit: Math.max(to - from + 1, 0) };
+	}
+
+	namespace<N extends MiftahValue | object = MiftahValue>(
+		name: string,
+		options: NamespaceOptions<N> = {},
+	): IMiftahDB<N> {
+		if (options.serializer) registerSerializer(options.serializer);
+
+		const namespacedDB = Object.create(this);
+		namespacedDB.namespaceName = name;
+		namespacedDB.parent = this;
+		namespacedDB.nameSpacePrefix = this.addNamespacePrefix(name);
+		if (options.serializer) namespacedDB.serializer = options.serializer;
+		if (options.encryption) namespacedDB.keyring = createKeyring(options.encryption);
+		if (options.validate) namespacedDB.validator = options.validate;
+
+		return namespacedDB;
+	}
+
+	@SafeExecution
+	listNamespaces(depth = 1): Result<string[]> {
+		if (!(depth >= 1)) throw new Error("Depth must be at least 1, cannot listNamespaces.");
+
+		const paths = this._childNamespaces(this.nameSpacePrefix, depth);
+		return OK(paths.map((path) => this.removeNamespacePrefix(path)).sort());
+	}
+
+	@SafeExecution
+	namespaceStats(name: string): Result<NamespaceStats> {
+		const pattern = this._keyPattern(undefined, this.addNamespacePrefix(name));
+		const { count: keys } = this.statements.countKeys.get(...pattern) as { count: number };
+		const { count: expiredKeys } = this.statements.countExpired.get(Date.now(), ...pattern) as {
+			count: number;
+		};
+		const { bytes } = this.statements.namespaceBytes.get(
+			...pattern,
+			...pattern,
+			...pattern,
+			...pattern,
+			...pattern,
+		) as { bytes: number };
+
+		return OK({ keys, expiredKeys, bytes });
+	}
+
+	@SafeExecution
+	dropNamespace(name: string): Result<number> {
+		return OK(this._flushNamespace(this.addNamespacePrefix(name)));
+	}
+
+	@SafeExecution
+	formatVersion(): Result<number> {
+		return OK(readFormatVersion(this.db) as number);
+	}
+
+	@SafeExecution
+	changesSince(seq: number, options: ChangesSinceOptions = {}): Result<ChangeLogEntry[]> {
+		const { limit = 100, pattern } = options;
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new Error("Limit must be a positive integer, cannot changesSince.");
+		}
+
+		const rows = this.statements.changesSince.all(seq, ...this._keyPattern(pattern), limit) as {
+			seq: number;
+			op: ChangeOp;
+			key: string | null;
+			expires_at: number | null;
+			timestamp: number;
+		}[];
+
+		return OK(
+			rows.map((row) => ({
+				seq: row.seq,
+				op: row.op,
+				// Flushes hold the full path of the flushed namespace
+				key: row.op === "flush" || row.key === null ? row.key : this.removeNamespacePrefix(row.key),
+				expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+				timestamp: new Date(row.timestamp),
+			})),
+		);
+	}
+
+	@SafeExecution
+	currentSequence(): Result<number> {
+		const result = this.statements.currentSequence.get() as { seq: number };
+		return OK(result.seq);
+	}
+
+	@SafeExecution
+	truncateChangeLog(beforeSeq: number): Result<number> {
+		return OK(this.statements.truncateChanges.run(beforeSeq).changes);
+	}
+
+	@SafeExecution
+	sweepStats(): Result<SweepStats> {
+		return OK(this.sweeper.getStats());
+	}
+
+	@SafeExecution
+	stats(): Result<DBStats> {
+		const pattern = this._keyPattern();
+		const { count: keys } = this.statements.countKeys.get(...pattern) as { count: number };
+		const { count: expiredKeys } = this.statements.countExpired.get(Date.now(), ...pattern) as {
+			count: number;
+		};
+		const { page_count } = this.statements.pageCount.get() as { page_count: number };
+		const { page_size } = this.statements.pageSize.get() as { page_size: number };
+		const fileSize = (path: string) => (existsSync(path) ? statSync(path).size : 0);
+
+		return OK({
+			keys,
+			expiredKeys,
+			pageCount: page_count,
+			pageSize: page_size,
+			fileSize: this.path === ":memory:" ? 0 : fileSize(this.path),
+			walSize: this.path === ":memory:" ? 0 : fileSize(`${this.path}-wal`),
+			getHits: this.metrics.getHits,
+			getMisses: this.metrics.getMisses,
+			operations: this.metrics.getOperations(),
+		});
+	}
+
+	@SafeExecution
+	metricsText(): Result<string> {
+		const stats = this.stats();
+		if (!stats.success) throw stats.error;
+
+		return OK(formatPrometheus(stats.data));
+	}
+
+	@SafeExecution
+	on<E extends MiftahDBEventType>(
+		event: E,
+		pattern: string,
+		handler: MiftahDBEventHandler<E>,
+	): Result<boolean> {
+		const matcher = patternToRegExp(this._keyPattern(pattern)[1], this.patternMode);
+		this.events.add(event, this.nameSpacePrefix, matcher, handler);
+
+		return OK();
+	}
+
+	@SafeExecution
+	off<E extends MiftahDBEventType>(event: E, handler: MiftahDBEventHandler<E>): Result<boolean> {
+		if (this.events.remove(event, handler) === 0) throw Error("Handler not found, cannot off.");
+
+		return OK();
+	}
+
+	@SafeExecution
+	transaction<R>(fn: (tx: IMiftahDB) => R, options: TransactionOptions = {}): Result<R> {
+		const result = this._transaction(() => {
+			const data = this.metrics.runCallback(() => fn(this));
+
+			// Without this check, a promise would let the transaction commit before its operations run
+			if (data instanceof Promise)
+				throw new Error("Callback returned a promise, cannot transaction.");
+			if (isFailedResult(data)) throw data.error;
+
+			return data;
+		}, options.mode);
+
+		return OK(result);
+	}
+
+	@SafeExecution
+	increment(key: string, amount = 1): Result<number> {
+		if (typeof amount !== "number" || Number.isNaN(amount)) {
+			throw new Error("Increment amount must be a valid number.");
+		}
+
+		return this._modifyNumericValue(key, amount, "increment");
+	}
+
+	@SafeExecution
+	decrement(key: string, amount = 1): Result<number> {
+		if (typeof amount !== "number" || Number.isNaN(amount)) {
+			throw new Error("Decrement amount must be a valid number.");
+		}
+
+		return this._modifyNumericValue(key, amount, "decrement");
+	}
+
+	@SafeExecution
+	get<T>(key: string): Result<T> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		const result = this.statements.get.get(prefixedKey) as MiftahDBItem | null;
+
+		if (!result) {
+			this.metrics.getMisses++;
+			throw Error("Key not found, cannot get.");
+		}
+		if (result.expires_at && result.expires_at <= Date.now()) {
+			this.metrics.getMisses++;
+			this._deleteExpired(prefixedKey);
+			throw new Error("Key expired, cannot get.");
+		}
+		this._assertKeyType(prefixedKey, result, "value", "get");
+
+		const value = this._decode(result.value, prefixedKey) as T;
+		this.metrics.getHits++;
+		return OK(value);
+	}
+
+	set<T extends MiftahValue>(key: string, value: T, expiresAt?: Date | number): Result<boolean>;
+	set<T extends MiftahValue>(
+		key: string,
+		value: T,
+		options: SetOptions & { returnPrevious: true },
+	): Result<T | null>;
+	set<T extends MiftahValue>(key: string, value: T, options: SetOptions): Result<boolean>;
+	@SafeExecution
+	set<T extends MiftahValue>(
+		key: string,
+		value: T,
+		expiresAtOrOptions?: Date | number | SetOptions,
+	): Result<boolean | T | null> {
+		this._validate(key, value, "set");
+		const prefixedKey = this.addNamespacePrefix(key);
+
+		if (typeof expiresAtOrOptions !== "object" || expiresAtOrOptions instanceof Date) {
+			this._setValue(
+				prefixedKey,
+				key,
+				this._encodeStored(value, prefixedKey),
+				expiresAtMs(expiresAtOrOptions) ?? null,
+			);
+			return OK();
+		}
+
+		const options = expiresAtOrOptions;
+		if (options.onlyIfNotExists && options.onlyIfExists) {
+			throw new Error("onlyIfNotExists and onlyIfExists cannot be combined, cannot set.");
+		}
+		const expirations = [
+			options.ttl !== undefined,
+			options.expiresAt !== undefined,
+			options.keepTtl,
+		];
+		if (expirations.filter(Boolean).length > 1) {
+			throw new Error("Only one of ttl, expiresAt and keepTtl can be given, cannot set.");
+		}
+		const newExpiresAt = optionsExpiresAtMs(options) ?? null;
+
+		const encodedValue = this._encodeStored(value, prefixedKey);
+		const previous = this._transaction(() => {
+			const current = this._getLiveItem(prefixedKey);
+
+			if (options.onlyIfNotExists && current) throw new Error("Key already exists, cannot set.");
+			if (options.onlyIfExists && !current) throw new Error("Key not found, cannot set.");
+			if (options.returnPrevious && current) {
+				this._assertKeyType(prefixedKey, current, "value", "set");
+			}
+
+			const expiresAt = options.keepTtl ? (current?.expires_at ?? null) : newExpiresAt;
+			this._setValue(prefixedKey, key, encodedValue, expiresAt);
+			return current?.value ?? null;
+		});
+
+		if (!options.returnPrevious) return OK();
+		return OK(previous ? (this._decode(previous, prefixedKey) as T) : null);
+	}
+
+	@SafeExecution
+	getDel<T>(key: string): Result<T> {
+		const prefixedKey = this.addNamespacePrefix(key);
+
+		const value = this._transaction(() => {
+			const current = this._getValueItem(prefixedKey, "getDel");
+			this.statements.delete.run(prefixedKey);
+			this._publish("delete", prefixedKey, {
+				key,
+				namespace: this.nameSpacePrefix,
+				expired: false,
+			});
+
+			return current.value;
+		});
+
+		return OK(this._decode(value, prefixedKey) as T);
+	}
+
+	@SafeExecution
+	getEx<T>(key: string, options: GetExOptions): Result<T> {
+		const prefixedKey = this.addNamespacePrefix(key);
+
+		const expiresAt = optionsExpiresAtMs(options) ?? null;
+		if (expiresAt === null && !options.persist) {
+			throw new Error("One of ttl, expiresAt or persist is required, cannot getEx.");
+		}
+
+		const value = this._transaction(() => {
+			const current = this._getValueItem(prefixedKey, "getEx");
+			this.statements.setExpire.run(expiresAt, Date.now(), prefixedKey);
+			this._publish("expire", prefixedKey, {
+				key,
+				namespace: this.nameSpacePrefix,
+				expiresAt,
+				previousExpiresAt: current.expires_at,
+			});
+
+			return current.value;
+		});
+
+		return OK(this._decode(value, prefixedKey) as T);
+	}
+
+	@SafeExecution
+	getSet<T extends MiftahValue>(key: string, value: T): Result<T | null> {
+		return this.set(key, value, { returnPrevious: true });
+	}
+
+	@SafeExecution
+	exists(key: string): Result<boolean> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		const result = this.statements.exists.get(prefixedKey) as {
+			[key: string]: number;
+		};
+		const doExists = Boolean(Object.values(result)[0]);
+		if (!doExists) throw Error("Key not found, cannot check exists.");
+
+		return OK(doExists);
+	}
+
+	@SafeExecution
+	delete(key: string): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		const changes = this._logged(() => {
+			const result = this.statements.delete.run(prefixedKey);
+			if (result.changes > 0) {
+				this._publish("delete", prefixedKey, {
+					key,
+					namespace: this.nameSpacePrefix,
+					expired: false,
+				});
+			}
+
+			return result.changes;
+		});
+
+		return OK(changes);
+	}
+
+	@SafeExecution
+	rename(oldKey: string, newKey: string): Result<boolean> {
+		const prefixedOldKey = this.addNamespacePrefix(oldKey);
+		const prefixedNewKey = this.addNamespacePrefix(newKey);
+		// A transaction, so that the key is not renamed when its encrypted data cannot be moved with it
+		this._transaction(() => {
+			const result = this.statements.rename.run(prefixedNewKey, prefixedOldKey);
+			if (result.changes > 0) {
+				// Encrypted values are bound to their key, rows moved to the new key are encrypted for it
+				const row = this.statements.get.get(prefixedNewKey) as MiftahDBItem;
+				this._rewriteKey(
+					prefixedNewKey,
+					row.value,
+					(stored) =>
+						encryptedKeyId(stored) === null
+							? null
+							: this._rebind(stored, prefixedOldKey, prefixedNewKey),
+					null,
+				);
+
+				this._publish("rename", prefixedOldKey, {
+					key: oldKey,
+					newKey,
+					namespace: this.nameSpacePrefix,
+				});
+			}
+		});
+
+		return OK();
+	}
+
+	@SafeExecution
+	setExpire(key: string, expiresAt: Date | number): Result<boolean> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		const newExpiresAt = expiresAtMs(expiresAt) ?? null;
+		this._logged(() => {
+			const previousExpiresAt = this.events.has("expire") ? this._getExpiresAt(prefixedKey) : null;
+			const result = this.statements.setExpire.run(newExpiresAt, Date.now(), prefixedKey);
+			if (result.changes > 0) {
+				this._publish("expire", prefixedKey, {
+					key,
+					namespace: this.nameSpacePrefix,
+					expiresAt: newExpiresAt,
+					previousExpiresAt,
+				});
+			}
+		});
+
+		return OK();
+	}
+
+	@SafeExecution
+	getExpire(key: string): Result<Date> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		const result = this.statements.getExpire.get(prefixedKey) as {
+			expires_at: number | null;
+		} | null;
+
+		if (!result) throw Error("Key not found, cannot getExpire.");
+		if (!result.expires_at) throw Error("Key has no expiration, cannot getExpire.");
+
+		const expiresAt = new Date(result.expires_at);
+
+		return OK(expiresAt);
+	}
+
+	@SafeExecution
+	ttl(key: string): Result<number | null> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		const result = this.statements.getExpire.get(prefixedKey) as {
+			expires_at: number | null;
+		} | null;
+
+		if (!result) {
+			throw new Error("Key not found, cannot ttl.");
+		}
+
+		if (result.expires_at === null) {
+			return OK(null);
+		}
+
+		const now = Date.now();
+		if (result.expires_at <= now) {
+			this._deleteExpired(prefixedKey);
+			throw new Error("Key expired, cannot ttl.");
+		}
+
+		return OK(result.expires_at - now);
+	}
+
+	@SafeExecution
+	persist(key: string): Result<boolean> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		const existsCheck = this.statements.exists.get(prefixedKey) as {
+			[key: string]: number;
+		};
+
+		if (!Object.values(existsCheck)[0]) {
+			throw new Error("Key not found, cannot persist.");
+		}
+
+		this._logged(() => {
+			const previousExpiresAt = this.events.has("expire") ? this._getExpiresAt(prefixedKey) : null;
+			this.statements.persist.run(Date.now(), prefixedKey);
+
+			this._publish("expire", prefixedKey, {
+				key,
+				namespace: this.nameSpacePrefix,
+				expiresAt: null,
+				previousExpiresAt,
+			});
+		});
+
+		return OK(true);
+	}
+
+	@SafeExecution
+	keys(pattern?: string): Result<string[]> {
+		const prefixedKey = this._keyPattern(pattern);
+		const result = this.statements.keys.all(...prefixedKey) as {
+			key: string;
+		}[];
+
+		if (result.length === 0) throw Error("No keys found, cannot get keys.");
+		const resultArray = result.map((r) => this.removeNamespacePrefix(r.key));
+
+		return OK(resultArray);
+	}
+
+	@SafeExecution
+	pagination(limit: number, page: number, pattern?: string): Result<string[]> {
+		const prefixedKey = this._keyPattern(pattern);
+		const offset = (page - 1) * limit;
+		const result = this.statements.pagination.all(...prefixedKey, limit, offset) as {
+			key: string;
+		}[];
+
+		if (result.length === 0) throw Error("No keys found, cannot get pagination.");
+		const resultArray = result.map((r) => this.removeNamespacePrefix(r.key));
+
+		return OK(resultArray);
+	}
+
+	@SafeExecution
+	scan<K>(options: ScanOptions = {}): Result<ScanResult<K>> {
+		const { pattern, cursor = null, count = 100, includeValues = false } = options;
+		if (!Number.isInteger(count) || count < 1) {
+			throw new Error("Count must be a positive integer, cannot scan.");
+		}
+
+		const statement = includeValues ? this.statements.scanRows : this.statements.scanKeys;
+		const rows = statement.all(
+			...this._keyPattern(pattern),
+			this.addNamespacePrefix(cursor ?? ""),
+			Date.now(),
+			count,
+		) as (MiftahDBItem & { key: string })[];
+
+		const entries = rows.map((row) => {
+			const type = decodeKeyType(row.value);
+			const entry: ScanEntry<K> = {
+				key: this.removeNamespacePrefix(row.key),
+				type,
+				expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+			};
+			if (includeValues)
+				entry.value = type === "value" ? this._decode<K>(row.value, row.key) : null;
+
+			return entry;
+		});
+		const nextCursor = rows.length < count ? null : entries[entries.length - 1].key;
+
+		return OK({ entries, cursor: nextCursor });
+	}
+
+	*iterate<K>(pattern?: string, batchSize = 100): Generator<ScanEntry<K>> {
+		let cursor: string | null = null;
+
+		do {
+			const result: Result<ScanResult<K>> = this.scan<K>({
+				pattern,
+				cursor,
+				count: batchSize,
+				includeValues: true,
+			});
+			if (!result.success) throw result.error;
+
+			yield* result.data.entries;
+			cursor = result.data.cursor;
+		} while (cursor !== null);
+	}
+
+	@SafeExecution
+	expiredRange(start: Date | number, end: Date | number, pattern?: string): Result<string[]> {
+		const prefixedKey = this._keyPattern(pattern);
+		const startDate = expiresAtMs(start);
+		const endDate = expiresAtMs(end);
+		const result = this.statements.expiredRange.all(...prefixedKey, startDate, endDate) as {
+			key: string;
+		}[];
+
+		if (result.length === 0) throw Error("No keys found, cannot get expiredRange.");
+		const resultArray = result.map((r) => this.removeNamespacePrefix(r.key));
+
+		return OK(resultArray);
+	}
+
+	@SafeExecution
+	count(pattern?: string): Result<number> {
+		const prefixedKey = this._keyPattern(pattern);
+		const result = this.statements.countKeys.get(...prefixedKey) as {
+			count: number;
+		};
+
+		return OK(result.count);
+	}
+
+	@SafeExecution
+	countExpired(pattern?: string): Result<number> {
+		const prefixedKey = this._keyPattern(pattern);
+		const result = this.statements.countExpired.get(Date.now(), ...prefixedKey) as {
+			count: number;
+		};
+
+		return OK(result.count);
+	}
+
+	@SafeExecution
+	multiGet<T>(keys: string[]): Result<T[]> {
+		if (keys.length === 0) throw Error("No keys provided, cannot multiGet.");
+
+		const result: Record<string, T> = {};
+		this._transaction(() => {
+			for (const k of keys) {
+				const value = this.get<T>(k);
+				if (value.success) result[this.removeNamespacePrefix(k)] = value.data;
+			}
+		});
+
+		const resultArray = Object.values(result);
+		if (resultArray.length === 0) throw Error("No keys found, cannot multiGet.");
+
+		return OK(resultArray);
+	}
+
+	@SafeExecution
+	multiSet<T extends MiftahValue>(
+		entries: Array<{ key: string; value: T; expiresAt?: Date | number }>,
+	): Result<boolean> {
+		for (const entry of entries) this._validate(entry.key, entry.value, "multiSet");
+
+		this._transaction(() => {
+			for (const entry of entries) {
+				this.set(entry.key, entry.value, entry.expiresAt);
+			}
+		});
+
+		return OK();
+	}
+
+	@SafeExecution
+	multiDelete(keys: string[]): Result<number> {
+		if (keys.length === 0) throw Error("No keys provided, cannot multiDelete.");
+
+		let totalDeletedRows = 0;
+		this._transaction(() => {
+			for (const k of keys) {
+				const deleteResult = this.delete(k);
+				if (deleteResult.success) {
+					totalDeletedRows += deleteResult.data;
+				}
+			}
+		});
+
+		return OK(totalDeletedRows);
+	}
+
+	@SafeExecution
+	getWithVersion<T>(key: string): Result<VersionedValue<T>> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		const result = this._getValueItem(prefixedKey, "getWithVersion");
+
+		return OK({
+			value: this._decode(result.value, prefixedKey) as T,
+			version: result.version,
+			expiresAt: result.expires_at ? new Date(result.expires_at) : null,
+		});
+	}
+
+	@SafeExecution
+	setIfVersion<T extends MiftahValue>(
+		key: string,
+		value: T,
+		expectedVersion: number,
+		expiresAt?: Date | number,
+	): Result<number> {
+		this._validate(key, value, "setIfVersion");
+		const prefixedKey = this.addNamespacePrefix(key);
+		const encodedValue = this._encodeStored(value, prefixedKey);
+
+		const version = this._transaction(() => {
+			const current = this._getLiveItem(prefixedKey);
+			// Missing and expired keys are at version 0
+			const currentVersion = current ? current.version : 0;
+
+			if (currentVersion !== expectedVersion) {
+				throw new ConflictError(
+					`Key is at version ${currentVersion}, expected ${expectedVersion}, cannot setIfVersion.`,
+				);
+			}
+			if (current) this._assertKeyType(prefixedKey, current, "value", "setIfVersion");
+
+			this._setValue(prefixedKey, key, encodedValue, expiresAtMs(expiresAt) ?? null);
+			return this._lastVersion();
+		});
+
+		return OK(version);
+	}
+
+	@SafeExecution
+	compareAndSwap<T extends MiftahValue>(
+		key: string,
+		expectedValue: T,
+		newValue: T,
+		expiresAt?: Date | number,
+	): Result<number> {
+		this._validate(key, newValue, "compareAndSwap");
+		const prefixedKey = this.addNamespacePrefix(key);
+		const encodedExpected = this._encode(expectedValue);
+		const encodedNew = this._encodeStored(newValue, prefixedKey);
+
+		const version = this._transaction(() => {
+			const current = this._getValueItem(prefixedKey, "compareAndSwap");
+			if (!this._storedEquals(current.value, encodedExpected, prefixedKey)) {
+				throw new ConflictError("Key holds a different value, cannot compareAndSwap.");
+			}
+
+			this._setValue(prefixedKey, key, encodedNew, expiresAtMs(expiresAt) ?? null);
+			return this._lastVersion();
+		});
+
+		return OK(version);
+	}
+
+	@SafeExecution
+	hset<T extends MiftahValue>(key: string, field: string, value: T): Result<boolean> {
+		const prefixedKey = this.addNamespacePrefix(key);
+
+		this._transaction(() => {
+			this._ensureTypedKey(prefixedKey, "hash", "hset");
+			this.statements.hset.run(prefixedKey, field, this._encodeStored(value, prefixedKey));
+			this._publishDataChange(prefixedKey, "hset");
+		});
+
+		return OK();
+	}
+
+	@SafeExecution
+	hget<T>(key: string, field: string): Result<T> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "hash", "hget")) throw Error("Key not found, cannot hget.");
+
+		const result = this.statements.hget.get(prefixedKey, field) as { value: Uint8Array } | null;
+		if (!result) throw Error("Field not found, cannot hget.");
+
+		return OK(this._decode(result.value, prefixedKey) as T);
+	}
+
+	@SafeExecution
+	hmget<T>(key: string, fields: string[]): Result<(T | null)[]> {
+		if (fields.length === 0) throw Error("No fields provided, cannot hmget.");
+
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "hash", "hmget"))
+			throw Error("Key not found, cannot hmget.");
+
+		const resultArray = fields.map((field) => {
+			const result = this.statements.hget.get(prefixedKey, field) as { value: Uint8Array } | null;
+			return result ? (this._decode(result.value, prefixedKey) as T) : null;
+		});
+
+		return OK(resultArray);
+	}
+
+	@SafeExecution
+	hgetall<T>(key: string): Result<Record<string, T>> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "hash", "hgetall")) {
+			throw Error("Key not found, cannot hgetall.");
+		}
+
+		const result = this.statements.hgetall.all(prefixedKey) as {
+			field: string;
+			value: Uint8Array;
+		}[];
+
+		const resultRecord: Record<string, T> = {};
+		for (const r of result) resultRecord[r.field] = this._decode(r.value, prefixedKey) as T;
+
+		return OK(resultRecord);
+	}
+
+	@SafeExecution
+	hdel(key: string, fields: string | string[]): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		let totalDeletedFields = 0;
+
+		this._transaction(() => {
+			if (!this._getTypedKey(prefixedKey, "hash", "hdel")) return;
+
+			for (const field of Array.isArray(fields) ? fields : [fields]) {
+				totalDeletedFields += this.statements.hdel.run(prefixedKey, field).changes;
+			}
+
+			// An empty hash is removed, like in Redis
+			const { count } = this.statements.hlen.get(prefixedKey) as { count: number };
+			if (count === 0) this.statements.delete.run(prefixedKey);
+			else if (totalDeletedFields > 0) this._touch(prefixedKey);
+			if (totalDeletedFields > 0) this._publishDataChange(prefixedKey, "hdel");
+		});
+
+		return OK(totalDeletedFields);
+	}
+
+	@SafeExecution
+	hlen(key: string): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "hash", "hlen")) return OK(0);
+
+		const result = this.statements.hlen.get(prefixedKey) as { count: number };
+
+		return OK(result.count);
+	}
+
+	@SafeExecution
+	hincrby(key: string, field: string, amount = 1): Result<number> {
+		if (typeof amount !== "number" || Number.isNaN(amount)) {
+			throw new Error("Increment amount must be a valid number.");
+		}
+
 		const prefixedKey = this.addNamespacePrefix(key);
-		let newValue: number;
+		let newValue = amount;
 
-		try {
-			const transaction = this.db.transaction(() => {
-				const { currentValue, expiresAt } = this._getInitialNumericValueAndExpiry(prefixedKey);
+		this._transaction(() => {
+			this._ensureTypedKey(prefixedKey, "hash", "hincrby");
 
-				if (operation === "increment") {
-					newValue = currentValue + amount;
-				} else {
-					// decrement
-					newValue = currentValue - amount;
+			const result = this.statements.hget.get(prefixedKey, field) as { value: Uint8Array } | null;
+			if (result) {
+				const decoded = this._decode(result.value, prefixedKey);
+				if (typeof decoded !== "number" || Number.isNaN(decoded)) {
+					throw new Error(`Value for field "${field}" is not a number.`);
 				}
+				newValue = decoded + amount;
+			}
 
-				const setOpResult = this.statements.set.run(prefixedKey, encodeValue(newValue), expiresAt);
+			this.statements.hset.run(prefixedKey, field, this._encodeStored(newValue, prefixedKey));
+			this._publishDataChange(prefixedKey, "hincrby");
+		});
 
-				if (setOpResult.changes === 0) {
-					throw new Error("Failed to update the key during numeric operation.");
-				}
-			});
+		return OK(newValue);
+	}
 
-			transaction(); // Execute the transaction
+	@SafeExecution
+	lpush<T extends MiftahValue>(key: string, ...values: T[]): Result<number> {
+		if (values.length === 0) throw Error("No values provided, cannot lpush.");
 
-			// @ts-ignore newValue will be assigned if transaction is successful
-			return OK(newValue);
-		} catch (error) {
-			throw error instanceof Error ? error : new Error(String(error));
-		}
+		const prefixedKey = this.addNamespacePrefix(key);
+		let length = 0;
+		this._transaction(() => {
+			length = this._pushValues(
+				prefixedKey,
+				values.map((v) => this._encodeStored(v, prefixedKey)),
+				"head",
+				"lpush",
+			);
+			this._publishDataChange(prefixedKey, "lpush");
+		});
+
+		return OK(length);
 	}
 
-	namespace(name: string): IMiftahDB {
-		const namespacedDB = Object.create(this);
-		namespacedDB.nameSpacePrefix = this.nameSpacePrefix ? `${this.nameSpacePrefix}:${name}` : name;
+	@SafeExecution
+	rpush<T extends MiftahValue>(key: string, ...values: T[]): Result<number> {
+		if (values.length === 0) throw Error("No values provided, cannot rpush.");
 
-		return namespacedDB;
+		const prefixedKey = this.addNamespacePrefix(key);
+		let length = 0;
+		this._transaction(() => {
+			length = this._pushValues(
+				prefixedKey,
+				values.map((v) => this._encodeStored(v, prefixedKey)),
+				"tail",
+				"rpush",
+			);
+			this._publishDataChange(prefixedKey, "rpush");
+		});
+
+		return OK(length);
 	}
 
 	@SafeExecution
-	increment(key: string, amount = 1): Result<number> {
-		if (typeof amount !== "number" || Number.isNaN(amount)) {
-			throw new Error("Increment amount must be a valid number.");
-		}
+	lpop<T>(key: string): Result<T> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		let value: Uint8Array | undefined;
+		this._transaction(() => {
+			value = this._popValue(prefixedKey, "head", "lpop");
+			this._publishDataChange(prefixedKey, "lpop");
+		});
 
-		return this._modifyNumericValue(key, amount, "increment");
+		return OK(this._decode(value as Uint8Array, prefixedKey) as T);
 	}
 
 	@SafeExecution
-	decrement(key: string, amount = 1): Result<number> {
-		if (typeof amount !== "number" || Number.isNaN(amount)) {
-			throw new Error("Decrement amount must be a valid number.");
-		}
+	rpop<T>(key: string): Result<T> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		let value: Uint8Array | undefined;
+		this._transaction(() => {
+			value = this._popValue(prefixedKey, "tail", "rpop");
+			this._publishDataChange(prefixedKey, "rpop");
+		});
 
-		return this._modifyNumericValue(key, amount, "decrement");
+		return OK(this._decode(value as Uint8Array, prefixedKey) as T);
 	}
 
 	@SafeExecution
-	get<T>(key: string): Result<T> {
+	lrange<T>(key: string, start = 0, stop = -1): Result<T[]> {
 		const prefixedKey = this.addNamespacePrefix(key);
-		const result = this.statements.get.get(prefixedKey) as MiftahDBItem | null;
+		if (!this._getTypedKey(prefixedKey, "list", "lrange")) return OK([]);
+
+		const { head, count } = this._getListBounds(prefixedKey);
+		const { offset, limit } = this._normalizeListRange(start, stop, count);
+		const result = this.statements.lrange.all(
+			prefixedKey,
+			head + offset,
+			head + offset + limit - 1,
+		) as {
+			value: Uint8Array;
+		}[];
 
-		if (!result) throw Error("Key not found, cannot get.");
-		if (result.expires_at && result.expires_at <= Date.now()) {
-			this.delete(prefixedKey);
-			throw new Error("Key expired, cannot get.");
-		}
+		return OK(result.map((r) => this._decode(r.value, prefixedKey) as T));
+	}
 
-		const value = decodeValue(result.value) as T;
-		return OK(value);
+	@SafeExecution
+	llen(key: string): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "list", "llen")) return OK(0);
+
+		return OK(this._getListBounds(prefixedKey).count);
 	}
 
 	@SafeExecution
-	set<T extends MiftahValue>(key: string, value: T, expiresAt?: Date | number): Result<boolean> {
+	lindex<T>(key: string, index: number): Result<T> {
 		const prefixedKey = this.addNamespacePrefix(key);
-		this.statements.set.run(prefixedKey, encodeValue(value), expiresAtMs(expiresAt));
+		if (!this._getTypedKey(prefixedKey, "list", "lindex"))
+			throw Error("Key not found, cannot lindex.");
 
-		return OK();
+		const { head, count } = this._getListBounds(prefixedKey);
+		const offset = index < 0 ? count + index : index;
+		if (offset < 0 || offset >= count) throw Error("Index out of range, cannot lindex.");
+
+		return OK(this._decode(this._getListElement(prefixedKey, head + offset), prefixedKey) as T);
 	}
 
 	@SafeExecution
-	exists(key: string): Result<boolean> {
+	ltrim(key: string, start: number, stop: number): Result<number> {
 		const prefixedKey = this.addNamespacePrefix(key);
-		const result = this.statements.exists.get(prefixedKey) as {
-			[key: string]: number;
-		};
-		const doExists = Boolean(Object.values(result)[0]);
-		if (!doExists) throw Error("Key not found, cannot check exists.");
+		let totalDeletedElements = 0;
 
-		return OK(doExists);
+		this._transaction(() => {
+			if (!this._getTypedKey(prefixedKey, "list", "ltrim")) return;
+
+			const { head, count } = this._getListBounds(prefixedKey);
+			const { offset, limit } = this._normalizeListRange(start, stop, count);
+			if (limit === 0) {
+				this.statements.delete.run(prefixedKey);
+				totalDeletedElements = count;
+			} else {
+				totalDeletedElements = this.statements.ltrim.run(
+					prefixedKey,
+					head + offset,
+					head + offset + limit - 1,
+				).changes;
+				if (totalDeletedElements > 0) this._touch(prefixedKey);
+			}
+			if (totalDeletedElements > 0) this._publishDataChange(prefixedKey, "ltrim");
+		});
+
+		return OK(totalDeletedElements);
 	}
 
 	@SafeExecution
-	delete(key: string): Result<number> {
-		const result = this.statements.delete.run(this.addNamespacePrefix(key));
+	lrem<T extends MiftahValue>(key: string, count: number, value: T): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		let totalDeletedElements = 0;
+
+		this._transaction(() => {
+			if (!this._getTypedKey(prefixedKey, "list", "lrem")) return;
+
+			// Elements are compared on their encoded bytes
+			const encodedValue = this._encode(value);
+			const statement =
+				count < 0 ? this.statements.listElementsReverse : this.statements.listElements;
+			const elements = statement.all(prefixedKey) as { position: number; value: Uint8Array }[];
+			const matches = elements.filter((e) =>
+				this._storedEquals(e.value, encodedValue, prefixedKey),
+			);
+			const toDelete = count === 0 ? matches : matches.slice(0, Math.abs(count));
+
+			for (const match of toDelete) {
+				totalDeletedElements += this.statements.listDeleteAt.run(
+					prefixedKey,
+					match.position,
+				).changes;
+			}
+
+			this._compactList(prefixedKey, elements.length - totalDeletedElements);
+			if (totalDeletedElements > 0) {
+				this._touch(prefixedKey);
+				this._publishDataChange(prefixedKey, "lrem");
+			}
+		});
 
-		return OK(result.changes);
+		return OK(totalDeletedElements);
 	}
 
 	@SafeExecution
-	rename(oldKey: string, newKey: string): Result<boolean> {
-		this.statements.rename.run(this.addNamespacePrefix(newKey), this.addNamespacePrefix(oldKey));
+	rpoplpush<T>(source: string, destination: string): Result<T> {
+		const prefixedSource = this.addNamespacePrefix(source);
+		const prefixedDestination = this.addNamespacePrefix(destination);
+		let value: Uint8Array | undefined;
+
+		this._transaction(() => {
+			value = this._popValue(prefixedSource, "tail", "rpoplpush");
+			const moved = this._rebind(value, prefixedSource, prefixedDestination);
+			this._pushValues(prefixedDestination, [moved], "head", "rpoplpush");
+			this._publishDataChange(prefixedSource, "rpoplpush");
+			if (prefixedDestination !== prefixedSource) {
+				this._publishDataChange(prefixedDestination, "rpoplpush");
+			}
+		});
 
-		return OK();
+		return OK(this._decode(value as Uint8Array, prefixedSource) as T);
 	}
 
 	@SafeExecution
-	setExpire(key: string, expiresAt: Date | number): Result<boolean> {
-		this.statements.setExpire.run(expiresAtMs(expiresAt), this.addNamespacePrefix(key));
+	sadd<T extends MiftahValue>(key: string, ...members: T[]): Result<number> {
+		if (members.length === 0) throw Error("No members provided, cannot sadd.");
 
-		return OK();
+		const prefixedKey = this.addNamespacePrefix(key);
+		let totalAddedMembers = 0;
+
+		this._transaction(() => {
+			this._ensureTypedKey(prefixedKey, "set", "sadd");
+			for (const member of members) {
+				totalAddedMembers += this.statements.sadd.run(
+					prefixedKey,
+					this._encodeMember(member),
+				).changes;
+			}
+			if (totalAddedMembers > 0) this._publishDataChange(prefixedKey, "sadd");
+		});
+
+		return OK(totalAddedMembers);
 	}
 
 	@SafeExecution
-	getExpire(key: string): Result<Date> {
+	srem<T extends MiftahValue>(key: string, ...members: T[]): Result<number> {
 		const prefixedKey = this.addNamespacePrefix(key);
-		const result = this.statements.getExpire.get(prefixedKey) as {
-			expires_at: number | null;
-		} | null;
+		let totalRemovedMembers = 0;
 
-		if (!result) throw Error("Key not found, cannot getExpire.");
-		if (!result.expires_at) throw Error("Key has no expiration, cannot getExpire.");
+		this._transaction(() => {
+			if (!this._getTypedKey(prefixedKey, "set", "srem")) return;
 
-		const expiresAt = new Date(result.expires_at);
+			for (const member of members) {
+				totalRemovedMembers += this.statements.srem.run(
+					prefixedKey,
+					this._encodeMember(member),
+				).changes;
+			}
 
-		return OK(expiresAt);
+			const { count } = this.statements.scard.get(prefixedKey) as { count: number };
+			if (count === 0) this.statements.delete.run(prefixedKey);
+			else if (totalRemovedMembers > 0) this._touch(prefixedKey);
+			if (totalRemovedMembers > 0) this._publishDataChange(prefixedKey, "srem");
+		});
+
+		return OK(totalRemovedMembers);
 	}
 
 	@SafeExecution
-	ttl(key: string): Result<number | null> {
+	sismember<T extends MiftahValue>(key: string, member: T): Result<boolean> {
 		const prefixedKey = this.addNamespacePrefix(key);
-		const result = this.statements.getExpire.get(prefixedKey) as {
-			expires_at: number | null;
-		} | null;
+		if (!this._getTypedKey(prefixedKey, "set", "sismember")) return OK(false);
 
-		if (!result) {
-			throw new Error("Key not found, cannot ttl.");
-		}
+		const result = this.statements.sismember.get(prefixedKey, this._encodeMember(member)) as {
+			found: number;
+		};
 
-		if (result.expires_at === null) {
-			return OK(null);
-		}
+		return OK(Boolean(result.found));
+	}
 
-		const now = Date.now();
-		if (result.expires_at <= now) {
-			this.delete(prefixedKey);
-			throw new Error("Key expired, cannot ttl.");
-		}
+	@SafeExecution
+	smembers<T>(key: string): Result<T[]> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "set", "smembers")) return OK([]);
 
-		return OK(result.expires_at - now);
+		const result = this.statements.smembers.all(prefixedKey) as { member: Uint8Array }[];
+
+		return OK(result.map((r) => this._decode(r.member, null) as T));
 	}
 
 	@SafeExecution
-	persist(key: string): Result<boolean> {
+	scard(key: string): Result<number> {
 		const prefixedKey = this.addNamespacePrefix(key);
-		const existsCheck = this.statements.exists.get(prefixedKey) as {
-			[key: string]: number;
-		};
-
-		if (!Object.values(existsCheck)[0]) {
-			throw new Error("Key not found, cannot persist.");
-		}
+		if (!this._getTypedKey(prefixedKey, "set", "scard")) return OK(0);
 
-		this.statements.persist.run(prefixedKey);
+		const result = this.statements.scard.get(prefixedKey) as { count: number };
 
-		return OK(true);
+		return OK(result.count);
 	}
 
 	@SafeExecution
-	keys(pattern = "%"): Result<string[]> {
-		const prefixedKey = this.addNamespacePrefix(pattern);
-		const result = this.statements.keys.all(prefixedKey) as {
-			key: string;
-		}[];
+	sinter<T>(keys: string[]): Result<T[]> {
+		if (keys.length === 0) throw Error("No keys provided, cannot sinter.");
 
-		if (result.length === 0) throw Error("No keys found, cannot get keys.");
-		const resultArray = result.map((r) => this.removeNamespacePrefix(r.key));
+		const prefixedKeys = this._getSetKeys(keys, "sinter");
+		const result = this.statements.sinter.all(
+			JSON.stringify(prefixedKeys),
+			prefixedKeys.length,
+		) as { member: Uint8Array }[];
 
-		return OK(resultArray);
+		return OK(result.map((r) => this._decode(r.member, null) as T));
 	}
 
 	@SafeExecution
-	pagination(limit: number, page: number, pattern = "%"): Result<string[]> {
-		const prefixedKey = this.addNamespacePrefix(pattern);
-		const offset = (page - 1) * limit;
-		const result = this.statements.pagination.all(prefixedKey, limit, offset) as { key: string }[];
+	sunion<T>(keys: string[]): Result<T[]> {
+		if (keys.length === 0) throw Error("No keys provided, cannot sunion.");
 
-		if (result.length === 0) throw Error("No keys found, cannot get pagination.");
-		const resultArray = result.map((r) => this.removeNamespacePrefix(r.key));
+		const prefixedKeys = this._getSetKeys(keys, "sunion");
+		const result = this.statements.sunion.all(JSON.stringify(prefixedKeys)) as {
+			member: Uint8Array;
+		}[];
 
-		return OK(resultArray);
+		return OK(result.map((r) => this._decode(r.member, null) as T));
 	}
 
 	@SafeExecution
-	expiredRange(start: Date | number, end: Date | number, pattern = "%"): Result<string[]> {
-		const prefixedKey = this.addNamespacePrefix(pattern);
-		const startDate = expiresAtMs(start);
-		const endDate = expiresAtMs(end);
-		const result = this.statements.expiredRange.all(prefixedKey, startDate, endDate) as {
-			key: string;
+	sdiff<T>(keys: string[]): Result<T[]> {
+		if (keys.length === 0) throw Error("No keys provided, cannot sdiff.");
+
+		const [first, ...others] = this._getSetKeys(keys, "sdiff");
+		const result = this.statements.sdiff.all(first, JSON.stringify(others)) as {
+			member: Uint8Array;
 		}[];
 
-		if (result.length === 0) throw Error("No keys found, cannot get expiredRange.");
-		const resultArray = result.map((r) => this.removeNamespacePrefix(r.key));
+		return OK(result.map((r) => this._decode(r.member, null) as T));
+	}
 
-		return OK(resultArray);
+	@SafeExecution
+	zadd<T extends MiftahValue>(key: string, score: number, member: T): Result<number> {
+		if (typeof score !== "number" || Number.isNaN(score)) {
+			throw new Error("Score must be a valid number.");
+		}
+
+		const prefixedKey = this.addNamespacePrefix(key);
+		const encodedMember = this._encodeMember(member);
+		let added = 0;
+
+		this._transaction(() => {
+			this._ensureTypedKey(prefixedKey, "zset", "zadd");
+			if (!this.statements.zscore.get(prefixedKey, encodedMember)) added = 1;
+			this.statements.zadd.run(prefixedKey, encodedMember, score);
+			this._publishDataChange(prefixedKey, "zadd");
+		});
+
+		return OK(added);
 	}
 
 	@SafeExecution
-	count(pattern = "%"): Result<number> {
-		const prefixedKey = this.addNamespacePrefix(pattern);
-		const result = this.statements.countKeys.get(prefixedKey) as {
-			count: number;
-		};
+	zincrby<T extends MiftahValue>(key: string, amount: number, member: T): Result<number> {
+		if (typeof amount !== "number" || Number.isNaN(amount)) {
+			throw new Error("Increment amount must be a valid number.");
+		}
 
-		return OK(result.count);
+		const prefixedKey = this.addNamespacePrefix(key);
+		const encodedMember = this._encodeMember(member);
+		let newScore = amount;
+
+		this._transaction(() => {
+			this._ensureTypedKey(prefixedKey, "zset", "zincrby");
+			const result = this.statements.zscore.get(prefixedKey, encodedMember) as {
+				score: number;
+			} | null;
+			if (result) newScore = result.score + amount;
+			this.statements.zadd.run(prefixedKey, encodedMember, newScore);
+			this._publishDataChange(prefixedKey, "zincrby");
+		});
+
+		return OK(newScore);
 	}
 
 	@SafeExecution
-	countExpired(pattern = "%"): Result<number> {
-		const prefixedKey = this.addNamespacePrefix(pattern);
-		const result = this.statements.countExpired.get(Date.now(), prefixedKey) as {
-			count: number;
-		};
+	zscore<T extends MiftahValue>(key: string, member: T): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "zset", "zscore"))
+			throw Error("Key not found, cannot zscore.");
 
-		return OK(result.count);
+		const result = this.statements.zscore.get(prefixedKey, this._encodeMember(member)) as {
+			score: number;
+		} | null;
+		if (!result) throw Error("Member not found, cannot zscore.");
+
+		return OK(result.score);
 	}
 
 	@SafeExecution
-	multiGet<T>(keys: string[]): Result<T[]> {
-		if (keys.length === 0) throw Error("No keys provided, cannot multiGet.");
+	zrank<T extends MiftahValue>(key: string, member: T): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "zset", "zrank"))
+			throw Error("Key not found, cannot zrank.");
 
-		const result: Record<string, T> = {};
-		this.db.transaction(() => {
-			for (const k of keys) {
-				const value = this.get<T>(k);
-				if (value.success) result[this.removeNamespacePrefix(k)] = value.data;
-			}
-		})();
+		const encodedMember = this._encodeMember(member);
+		const scoreResult = this.statements.zscore.get(prefixedKey, encodedMember) as {
+			score: number;
+		} | null;
+		if (!scoreResult) throw Error("Member not found, cannot zrank.");
 
-		const resultArray = Object.values(result);
-		if (resultArray.length === 0) throw Error("No keys found, cannot multiGet.");
+		const result = this.statements.zrank.get(
+			prefixedKey,
+			scoreResult.score,
+			scoreResult.score,
+			encodedMember,
+		) as { rank: number };
 
-		return OK(resultArray);
+		return OK(result.rank);
 	}
 
 	@SafeExecution
-	multiSet<T extends MiftahValue>(
-		entries: Array<{ key: string; value: T; expiresAt?: Date | number }>,
-	): Result<boolean> {
-		this.db.transaction(() => {
-			for (const entry of entries) {
-				this.set(entry.key, entry.value, entry.expiresAt);
-			}
-		})();
+	zrange<T>(key: string, start = 0, stop = -1): Result<ZSetEntry<T>[]> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "zset", "zrange")) return OK([]);
 
-		return OK();
+		const { count } = this.statements.zcard.get(prefixedKey) as { count: number };
+		const { offset, limit } = this._normalizeListRange(start, stop, count);
+		const result = this.statements.zrange.all(prefixedKey, limit, offset) as {
+			member: Uint8Array;
+			score: number;
+		}[];
+
+		return OK(this._decodeZSetEntries<T>(result));
 	}
 
 	@SafeExecution
-	multiDelete(keys: string[]): Result<number> {
-		if (keys.length === 0) throw Error("No keys provided, cannot multiDelete.");
+	zrangebyscore<T>(
+		key: string,
+		min: number,
+		max: number,
+		options: { offset?: number; limit?: number } = {},
+	): Result<ZSetEntry<T>[]> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		if (!this._getTypedKey(prefixedKey, "zset", "zrangebyscore")) return OK([]);
 
-		let totalDeletedRows = 0;
-		this.db.transaction(() => {
-			for (const k of keys) {
-				const deleteResult = this.delete(k);
-				if (deleteResult.success) {
-					totalDeletedRows += deleteResult.data;
-				}
+		const result = this.statements.zrangeByScore.all(
+			prefixedKey,
+			min,
+			max,
+			options.limit ?? -1,
+			options.offset ?? 0,
+		) as { member: Uint8Array; score: number }[];
+
+		return OK(this._decodeZSetEntries<T>(result));
+	}
+
+	@SafeExecution
+	zrem<T extends MiftahValue>(key: string, ...members: T[]): Result<number> {
+		const prefixedKey = this.addNamespacePrefix(key);
+		let totalRemovedMembers = 0;
+
+		this._transaction(() => {
+			if (!this._getTypedKey(prefixedKey, "zset", "zrem")) return;
+
+			for (const member of members) {
+				totalRemovedMembers += this.statements.zrem.run(
+					prefixedKey,
+					this._encodeMember(member),
+				).changes;
 			}
-		})();
 
-		return OK(totalDeletedRows);
+			const { count } = this.statements.zcard.get(prefixedKey) as { count: number };
+			if (count === 0) this.statements.delete.run(prefixedKey);
+			else if (totalRemovedMembers > 0) this._touch(prefixedKey);
+			if (totalRemovedMembers > 0) this._publishDataChange(prefixedKey, "zrem");
+		});
+
+		return OK(totalRemovedMembers);
 	}
 
 	@SafeExecution
@@ -411,38 +2340,249 @@ export abstract class BaseMiftahDB implements IMiftahDB {
 
 	@SafeExecution
 	cleanup(): Result<number> {
-		const result = this.statements.cleanup.run(Date.now(), this.addNamespacePrefix("%"));
+		const now = Date.now();
+		const prefixedPattern = this._keyPattern();
+
+		if (!this.events.has("delete") && !this.changeLog) {
+			return OK(this.statements.cleanup.run(now, ...prefixedPattern).changes);
+		}
 
-		return OK(result.changes);
+		// The removed keys are only read when someone listens to their deletion or they are logged
+		const changes = this._transaction(() => {
+			const expiredKeys = this.statements.expiredKeys.all(now, ...prefixedPattern) as {
+				key: string;
+			}[];
+			for (const { key } of expiredKeys) this._publishExpired(key);
+
+			return this.statements.cleanup.run(now, ...prefixedPattern).changes;
+		});
+
+		return OK(changes);
 	}
 
 	@SafeExecution
-	flush(): Result<number> {
-		const result = this.statements.flush.run(this.addNamespacePrefix("%"));
+	recompress(batchSize = 500): Result<number> {
+		const rewrittenRows = this._rewriteRows(
+			batchSize,
+			(stored, prefixedKey) => {
+				if (this._hasForeignKey(stored)) return null;
+
+				const opened = decryptBytes(stored, this.keyring, prefixedKey);
+				const recompressed = this._compress(unwrapEncodedValue(opened));
+				return Buffer.from(recompressed).equals(opened)
+					? null
+					: this._seal(recompressed, prefixedKey);
+			},
+			null,
+		);
+
+		return OK(rewrittenRows);
+	}
 
-		return OK(result.changes);
+	@SafeExecution
+	rotateKey(newKey: EncryptionKey, batchSize = 500): Result<number> {
+		const knownKey = this.keyring.keys.get(newKey.id);
+		if (knownKey && !Buffer.from(knownKey).equals(newKey.key)) {
+			throw new Error(`Encryption key id "${newKey.id}" is used by another key, cannot rotateKey.`);
+		}
+
+		// Values that are not encrypted are only read when migrating a database that did not use encryption
+		const migrating = this.keyring.current === null || this.keyring.allowUnencrypted;
+		addKey(this.keyring, newKey);
+		this.keyring.current = newKey;
+
+		// Set members, read with a `null` key, stay deterministic and unbound
+		const reencrypt = (stored: Uint8Array, prefixedKey: string | null) => {
+			const keyId = encryptedKeyId(stored);
+			if (keyId === newKey.id || this._hasForeignKey(stored)) return null;
+
+			const opened =
+				keyId === null && migrating ? stored : decryptBytes(stored, this.keyring, prefixedKey);
+			return encryptBytes(opened, newKey, prefixedKey, prefixedKey === null);
+		};
+
+		return OK(this._rewriteRows(batchSize, reencrypt, (stored) => reencrypt(stored, null)));
 	}
 
 	@SafeExecution
-	async backup(path: string): PromiseResult<boolean> {
-		const serialized = this.db.serialize();
-		const uint8Array = new Uint8Array(serialized);
+	flush(): Result<number> {
+		return OK(this._flushNamespace(this.nameSpacePrefix));
+	}
 
-		await writeFile(path, uint8Array);
+	@SafeExecution
+	async backup(path: string, options: BackupOptions = {}): PromiseResult<boolean> {
+		await this._copyDatabase(this.db, path, options, this._pagesPerStep(options, "backup"));
 
 		return OK();
 	}
 
 	@SafeExecution
-	async restore(path: string): PromiseResult<boolean> {
-		const file = await readFile(path);
+	async restore(path: string, options: BackupOptions = {}): PromiseResult<boolean> {
+		if (this.path === ":memory:") {
+			this.replaceMemoryDatabase(new DB(await readFile(path)));
+			this.reportSingleStepCopy(this.db, options);
+			return OK();
+		}
 
-		this.db = new DB(file);
-		this.statements = this.prepareStatements();
+		const pagesPerStep = this._pagesPerStep(options, "restore");
+
+		// The backup is checked before the database is closed, so that a file it cannot open is left untouched
+		const source = new DB(path, { readonly: true, fileMustExist: true });
+		try {
+			assertSupportedFormat(source);
+			await this.replaceDatabaseFile(() =>
+				this._copyDatabase(source, this.path, options, pagesPerStep),
+			);
+		} finally {
+			source.close();
+		}
 
 		return OK();
 	}
 
+	@SafeExecution
+	async exportTo(path: string, options: ExportOptions = {}): PromiseResult<number> {
+		const { pattern, format = "ndjson", batchSize = 500 } = options;
+		if (!Number.isInteger(batchSize) || batchSize < 1) {
+			throw new Error("Batch size must be a positive integer, cannot exportTo.");
+		}
+
+		const file = await open(path, "w");
+		let exported = 0;
+		try {
+			if (format === "json") await file.write("[");
+
+			let cursor: string | null = null;
+			do {
+				// Each batch is read in its own transaction, so that no data type is read half written
+				const page: { records: ExportRecord[]; cursor: string | null } = this._transaction(() => {
+					const result: Result<ScanResult<MiftahValue>> = this.scan({
+						pattern,
+						cursor,
+						count: batchSize,
+						includeValues: true,
+					});
+					if (!result.success) throw result.error;
+
+					return {
+						records: result.data.entries.map((entry) => this._exportRecord(entry)),
+						cursor: result.data.cursor,
+					};
+				});
+
+				if (page.records.length > 0) {
+					await file.write(formatRecords(page.records, format, exported === 0));
+				}
+				exported += page.records.length;
+				cursor = page.cursor;
+			} while (cursor !== null);
+
+			if (format === "json") await file.write(exported === 0 ? "]\n" : "\n]\n");
+		} finally {
+			await file.close();
+		}
+
+		return OK(exported);
+	}
+
+	@SafeExecution
+	async importFrom(path: string, options: ImportOptions = {}): PromiseResult<number> {
+		const { mode = "merge", skipExpired = true, batchSize = 500 } = options;
+		if (!Number.isInteger(batchSize) || batchSize < 1) {
+			throw new Error("Batch size must be a positive integer, cannot importFrom.");
+		}
+
+		let flush = mode === "replace";
+		let imported = 0;
+		const batch: ExportRecord[] = [];
+		const writeBatch = () => {
+			this._transaction(() => {
+				// The namespace is flushed along with the first batch, so that a file that cannot be read leaves it untouched
+				if (flush) this._flushNamespace(this.nameSpacePrefix);
+				for (const record of batch) this._importRecord(record);
+			}, "immediate");
+
+			flush = false;
+			imported += batch.length;
+			batch.length = 0;
+		};
+
+		for await (const record of readRecords(path)) {
+			const expired = record.expiresAt !== null && Date.parse(record.expiresAt) <= Date.now();
+			if (skipExpired && expired) continue;
+
+			batch.push(record);
+			if (batch.length >= batchSize) writeBatch();
+		}
+		if (batch.length > 0 || flush) writeBatch();
+
+		return OK(imported);
+	}
+
+	@SafeExecution
+	diff(other: IMiftahDB | string, options: DiffOptions = {}): Result<DiffResult> {
+		const { added, removed, changed } = this._withAttached(other, "diff", () =>
+			this._diffAttached(options.pattern),
+		);
+		const unprefixed = (keys: string[]) => keys.map((key) => this.removeNamespacePrefix(key));
+
+		return OK({
+			added: unprefixed(added),
+			removed: unprefixed(removed),
+			changed: unprefixed(changed),
+		});
+	}
+
+	@SafeExecution
+	syncFrom(other: IMiftahDB | string, options: SyncOptions = {}): Result<SyncResult> {
+		const { strategy = "theirs", pattern, batchSize = 500 } = options;
+		if (!["theirs", "ours", "newest"].includes(strategy)) {
+			throw new Error(`Unknown strategy "${strategy}", cannot syncFrom.`);
+		}
+		if (!Number.isInteger(batchSize) || batchSize < 1) {
+			throw new Error("Batch size must be a positive integer, cannot syncFrom.");
+		}
+
+		return OK(
+			this._withAttached(other, "syncFrom", () => {
+				const { added, removed, changed } = this._diffAttached(pattern);
+				const isNewer = this.db.prepare(SQL_STATEMENTS.SYNC_IS_NEWER);
+				const updated =
+					strategy === "ours"
+						? []
+						: changed.filter(
+								(key) =>
+									strategy === "theirs" || (isNewer.get(key, key) as { newer: number }).newer === 1,
+							);
+
+				const copyStatements = [
+					SQL_STATEMENTS.SYNC_COPY_KEY,
+					SQL_STATEMENTS.SYNC_COPY_HASH,
+					SQL_STATEMENTS.SYNC_COPY_LIST,
+					SQL_STATEMENTS.SYNC_COPY_SET,
+					SQL_STATEMENTS.SYNC_COPY_ZSET,
+				].map((sql) => this.db.prepare(sql));
+				const keys = [...added, ...updated];
+				for (let i = 0; i < keys.length; i += batchSize) {
+					this._transaction(() => {
+						for (const key of keys.slice(i, i + batchSize))
+							this._copyAttachedKey(key, copyStatements);
+					}, "immediate");
+				}
+
+				// The other database is the reference, so keys it does not have are deleted
+				const deleted = strategy === "theirs" ? removed : [];
+				for (let i = 0; i < deleted.length; i += batchSize) {
+					this._transaction(() => {
+						for (const key of deleted.slice(i, i + batchSize)) this._deleteAttachedRemoved(key);
+					}, "immediate");
+				}
+
+				return { added: added.length, updated: updated.length, removed: deleted.length };
+			}),
+		);
+	}
+
 	@SafeExecution
 	execute(sql: string, params: unknown[] = []): Result<unknown[] | RunResult> {
 		const stmt = this.db.prepare(sql);
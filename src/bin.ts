@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { runCli } from "./cli";
+import { MiftahDB } from "./index";
+
+// `runCli` closes the database itself, the exit handler would also replace the exit code with 0
+runCli(
+	process.argv.slice(2),
+	(path, options) => new MiftahDB(path, { ...options, autoCloseOnExit: false }),
+).then((code) => {
+	process.exitCode = code;
+});
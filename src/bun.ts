@@ -1,13 +1,17 @@
 import DB from "bun:sqlite";
-import { readFile } from "node:fs/promises";
+import { copyFile, readFile, rm } from "node:fs/promises";
 // Intentionally using a type assertion here to align `bun:sqlite`'s `Database` type with `better-sqlite3`.
 // Although `bun:sqlite` and `better-sqlite3` have different implementations, their API is similar enough for our purposes.
 // This trick helps avoid TypeScript errors while maintaining compatibility across both environments.
 // Also run `bun run test` for double-checking.
 // import type { Database } from "bun:sqlite";
 import type { Database } from "better-sqlite3";
+import { fileURLToPath } from "node:url";
+import { BaseMiftahDBAsync, serveMiftahDBWorker } from "./async";
 import { BaseMiftahDB } from "./base";
-import type { PromiseResult, Result } from "./types.ts";
+import { assertSupportedFormat } from "./migrations";
+import { SQL_STATEMENTS } from "./statements";
+import type { BackupOptions, PromiseResult, Result } from "./types.ts";
 import { OK, SafeExecution } from "./utils";
 
 /**
@@ -37,14 +41,38 @@ export class MiftahDB extends BaseMiftahDB {
 		return OK(result);
 	}
 
+	// Overridden due to difference implementation in `bun:sqlite` and `better-sqlite3`,
+	// `bun:sqlite` has no online backup API so the database is vacuumed into the file instead
+	@SafeExecution
+	override async backup(path: string, options: BackupOptions = {}): PromiseResult<boolean> {
+		// `VACUUM INTO` refuses to overwrite a file
+		await rm(path, { force: true });
+		this.db.prepare(SQL_STATEMENTS.VACUUM_INTO).run(path);
+		this.reportSingleStepCopy(this.db, options);
+
+		return OK();
+	}
+
 	// Overridden due to difference implementation in `bun:sqlite` and `better-sqlite3`
 	@SafeExecution
-	override async restore(path: string): PromiseResult<boolean> {
-		const file = await readFile(path);
+	override async restore(path: string, options: BackupOptions = {}): PromiseResult<boolean> {
+		if (this.path === ":memory:") {
+			// @ts-expect-error `deserialize` exists in `bun:sqlite` but not in `better-sqlite3`.
+			this.replaceMemoryDatabase(DB.deserialize(await readFile(path)));
+			this.reportSingleStepCopy(this.db, options);
+			return OK();
+		}
 
-		// @ts-expect-error `deserialize` exists in `bun:sqlite` but not in `better-sqlite3`.
-		this.db = DB.deserialize(file);
-		this.statements = this.prepareStatements();
+		// The backup is checked before the database is closed, so that a file it cannot open is left untouched
+		const source = new DB(path, { readonly: true }) as unknown as Database;
+		try {
+			assertSupportedFormat(source);
+		} finally {
+			source.close();
+		}
+
+		await this.replaceDatabaseFile(() => copyFile(path, this.path));
+		this.reportSingleStepCopy(this.db, options);
 
 		return OK();
 	}
@@ -64,4 +92,77 @@ export class MiftahDB extends BaseMiftahDB {
 	}
 }
 
-export type { MiftahValue, PromiseResult, Result } from "./types";
+/**
+ * MiftahDBAsync runs `MiftahDB` in a worker thread, so queries never block the event loop.
+ * It has the same API as `MiftahDB`, with every method returning a `PromiseResult`.
+ * @param {string} path - Path to the database file. Defaults to ":memory:" if not provided.
+ * @param {DBOptions} options - Optional configuration options for the database.
+ * @example
+ * const db = new MiftahDBAsync("test.db");
+ * await db.set("user:1234", { name: "Ahmad" });
+ * const result = await db.get("user:1234");
+ * await db.close();
+ */
+export class MiftahDBAsync extends BaseMiftahDBAsync {
+	protected workerEntry(): string {
+		return fileURLToPath(import.meta.url);
+	}
+}
+
+// Serves the `MiftahDBAsync` requests when this file is loaded by its worker
+serveMiftahDBWorker((path, options) => new MiftahDB(path, options));
+
+export type {
+	BackupOptions,
+	BackupProgress,
+	ChangeLogEntry,
+	ChangeOp,
+	DataTypeOperation,
+	ChangesSinceOptions,
+	CompressionAlgorithm,
+	CompressionOptions,
+	DBStats,
+	DiffOptions,
+	DiffResult,
+	EncryptionKey,
+	EncryptionOptions,
+	ExportFormat,
+	ExportOptions,
+	ExportRecord,
+	GetExOptions,
+	HttpServerOptions,
+	ImportOptions,
+	LatencyHistogram,
+	MiftahDBEventHandler,
+	MiftahDBEvents,
+	MiftahDBEventType,
+	MiftahValue,
+	NamespaceOptions,
+	NamespaceStats,
+	OperationStats,
+	PatternMode,
+	PromiseResult,
+	RespServerOptions,
+	Result,
+	ScanEntry,
+	ScanOptions,
+	ScanResult,
+	Serializer,
+	SetOptions,
+	StandardSchema,
+	StandardSchemaResult,
+	SweepStats,
+	SyncOptions,
+	SyncResult,
+	SyncStrategy,
+	TransactionMode,
+	TransactionOptions,
+	ValidationIssue,
+	Validator,
+	VersionedValue,
+	ZSetEntry,
+} from "./types";
+export { jsonSerializer, msgpackSerializer, registerSerializer } from "./encoding";
+export { ConflictError, ValidationError } from "./errors";
+export { createHttpServer } from "./http";
+export { createRespServer } from "./resp";
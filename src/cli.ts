@@ -0,0 +1,384 @@
+import { closeSync, existsSync, openSync, readSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { inspect, parseArgs } from "node:util";
+import type {
+	DBOptions,
+	ExportFormat,
+	IMiftahDB,
+	MiftahValue,
+	PromiseResult,
+	Result,
+} from "./types";
+
+// Where the output of the commands is written, the console by default
+export interface CliOutput {
+	out: (text: string) => void;
+	err: (text: string) => void;
+}
+
+// The flags of a command, every command accepts all of them
+type Flags = {
+	namespace?: string;
+	separator?: string;
+	ttl?: string;
+	pattern?: string;
+	format?: string;
+	mode?: string;
+	upgrade?: boolean;
+	help?: boolean;
+};
+
+interface Command {
+	usage: string;
+	description: string;
+	// The minimum number of positional arguments
+	args: number;
+	run: (db: IMiftahDB, args: string[], flags: Flags) => unknown | Promise<unknown>;
+}
+
+const FLAGS = {
+	namespace: { type: "string", short: "n" },
+	separator: { type: "string" },
+	ttl: { type: "string" },
+	pattern: { type: "string" },
+	format: { type: "string" },
+	mode: { type: "string" },
+	upgrade: { type: "boolean" },
+	help: { type: "boolean", short: "h" },
+} as const;
+
+const consoleOutput: CliOutput = {
+	out: (text) => console.log(text),
+	err: (text) => console.error(text),
+};
+
+// Returns the data of a result, or throws its error so that it is printed
+function unwrap<T>(result: Result<T>): T {
+	if (!result.success) throw result.error;
+	return result.data;
+}
+
+async function unwrapAsync<T>(result: PromiseResult<T>): Promise<T> {
+	return unwrap(await result);
+}
+
+// Reads a value given on the command line as JSON, falling back to the text itself
+function parseValue(text: string): MiftahValue {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text;
+	}
+}
+
+function parseNumber(text: string, name: string): number {
+	const value = Number(text);
+	if (text.trim() === "" || !Number.isFinite(value)) throw new Error(`${name} must be a number.`);
+	return value;
+}
+
+// Prints a value decoded by the database, objects and binary values are pretty-printed
+function formatValue(value: unknown): string {
+	return inspect(value, {
+		depth: null,
+		colors: Boolean(process.stdout.isTTY),
+		maxArrayLength: null,
+		maxStringLength: null,
+	});
+}
+
+// Reads the journal mode of a file from its SQLite header, so that opening it keeps the mode.
+// Only WAL is recorded in the file, the other modes apply to a connection.
+function fileJournalMode(path: string): "WAL" | "DELETE" {
+	const header = Buffer.alloc(20);
+	const fd = openSync(path, "r");
+	try {
+		readSync(fd, header, 0, header.length, 0);
+	} finally {
+		closeSync(fd);
+	}
+
+	return header[18] === 2 ? "WAL" : "DELETE";
+}
+
+// Reads every key matching a pattern, an empty list is not an error unlike `keys`
+function allKeys(db: IMiftahDB, pattern?: string): string[] {
+	const keys: string[] = [];
+	let cursor: string | null = null;
+	do {
+		const page: { entries: { key: string }[]; cursor: string | null } = unwrap(
+			db.scan({ pattern, cursor, count: 1000 }),
+		);
+		for (const entry of page.entries) keys.push(entry.key);
+		cursor = page.cursor;
+	} while (cursor !== null);
+
+	return keys;
+}
+
+const COMMANDS: Record<string, Command> = {
+	get: {
+		usage: "get <key>",
+		description: "Prints the decoded value of a key",
+		args: 1,
+		run: (db, [key]) => formatValue(unwrap(db.get(key))),
+	},
+	set: {
+		usage: "set <key> <value> [--ttl ms]",
+		description:
+			"Sets a key, the value is read as JSON when it is valid JSON and as a string otherwise",
+		args: 2,
+		run: (db, [key, value], { ttl }) => {
+			const options = ttl === undefined ? {} : { ttl: parseNumber(ttl, "ttl") };
+			unwrap(db.set(key, parseValue(value), options));
+			return "OK";
+		},
+	},
+	del: {
+		usage: "del <key...>",
+		description: "Deletes keys and prints how many were deleted",
+		args: 1,
+		run: (db, keys) => String(unwrap(db.multiDelete(keys))),
+	},
+	keys: {
+		usage: "keys [pattern]",
+		description: "Prints the keys matching a pattern, one per line",
+		args: 0,
+		run: (db, [pattern]) => allKeys(db, pattern).join("\n") || undefined,
+	},
+	ttl: {
+		usage: "ttl <key>",
+		description: "Prints the time to live of a key in milliseconds, or null if it does not expire",
+		args: 1,
+		run: (db, [key]) => String(unwrap(db.ttl(key))),
+	},
+	expire: {
+		usage: "expire <key> <ms>",
+		description: "Expires a key after the given number of milliseconds",
+		args: 2,
+		run: (db, [key, ms]) => {
+			unwrap(db.setExpire(key, new Date(Date.now() + parseNumber(ms, "ms"))));
+			return "OK";
+		},
+	},
+	count: {
+		usage: "count [pattern]",
+		description: "Prints the number of keys matching a pattern",
+		args: 0,
+		run: (db, [pattern]) => String(unwrap(db.count(pattern))),
+	},
+	cleanup: {
+		usage: "cleanup",
+		description: "Deletes the expired keys and prints how many were deleted",
+		args: 0,
+		run: (db) => String(unwrap(db.cleanup())),
+	},
+	vacuum: {
+		usage: "vacuum",
+		description: "Rebuilds the database file to reclaim unused space",
+		args: 0,
+		run: (db) => {
+			unwrap(db.vacuum());
+			return "OK";
+		},
+	},
+	export: {
+		usage: "export <path> [--format ndjson|json] [--pattern pattern]",
+		description: "Exports the keys to a file and prints how many were exported",
+		args: 1,
+		run: async (db, [path], { format, pattern }) =>
+			String(await unwrapAsync(db.exportTo(path, { format: format as ExportFormat, pattern }))),
+	},
+	import: {
+		usage: "import <path> [--mode merge|replace]",
+		description: "Imports the keys of an exported file and prints how many were imported",
+		args: 1,
+		run: async (db, [path], { mode }) =>
+			String(await unwrapAsync(db.importFrom(path, { mode: mode as "merge" | "replace" }))),
+	},
+	backup: {
+		usage: "backup <path>",
+		description: "Copies the database to a file",
+		args: 1,
+		run: async (db, [path]) => {
+			await unwrapAsync(db.backup(path));
+			return "OK";
+		},
+	},
+	stats: {
+		usage: "stats",
+		description: "Prints the key counts, the database and file sizes, and the namespaces",
+		args: 0,
+		run: (db) => {
+			// The calls made by this process are not worth printing
+			const stats = unwrap(db.stats());
+			return formatValue({
+				keys: stats.keys,
+				expiredKeys: stats.expiredKeys,
+				pageCount: stats.pageCount,
+				pageSize: stats.pageSize,
+				fileSize: stats.fileSize,
+				walSize: stats.walSize,
+				namespaces: unwrap(db.listNamespaces()),
+				formatVersion: unwrap(db.formatVersion()),
+			});
+		},
+	},
+};
+
+function helpText(): string {
+	const width = Math.max(...Object.values(COMMANDS).map((command) => command.usage.length));
+	const commands = Object.values(COMMANDS).map(
+		(command) => `  ${command.usage.padEnd(width)}  ${command.description}`,
+	);
+
+	return [
+		"Usage: miftahdb <file> [command] [args] [--namespace name] [--separator text] [--upgrade]",
+		"",
+		"Opens an interactive shell when no command is given.",
+		"",
+		"Commands:",
+		...commands,
+		"",
+		"Options:",
+		"  -n, --namespace <name>  Runs the command on a namespace, nested namespaces are separated by the separator",
+		"      --separator <text>  Joins nested namespaces and keys, defaults to `:`",
+		"      --upgrade           Upgrades a file written by an older release, which older releases cannot open afterwards",
+		"  -h, --help              Prints this help",
+	].join("\n");
+}
+
+// Runs the namespace of `--namespace`, such as `users:posts`, on the database
+function resolveNamespace(db: IMiftahDB, separator: string, namespace?: string): IMiftahDB {
+	if (!namespace) return db;
+	return namespace.split(separator).reduce((current, name) => current.namespace(name), db);
+}
+
+// Runs a command line, returns false if it failed
+async function runLine(
+	db: IMiftahDB,
+	separator: string,
+	argv: string[],
+	output: CliOutput,
+): Promise<boolean> {
+	try {
+		const { values, positionals } = parseArgs({
+			args: argv,
+			options: FLAGS,
+			allowPositionals: true,
+		});
+		const [name, ...args] = positionals;
+		if (!Object.hasOwn(COMMANDS, name)) {
+			throw new Error(`Unknown command ${name}, run miftahdb --help for the list of commands.`);
+		}
+		const command = COMMANDS[name];
+		if (args.length < command.args) throw new Error(`Usage: ${command.usage}`);
+
+		const result = await command.run(
+			resolveNamespace(db, separator, values.namespace),
+			args,
+			values,
+		);
+		if (result !== undefined) output.out(String(result));
+		return true;
+	} catch (error) {
+		output.err(`Error: ${(error as Error)?.message ?? String(error)}`);
+		return false;
+	}
+}
+
+// Splits a line of the shell into arguments, quotes group words and double quotes read escapes as JSON does
+function splitLine(line: string): string[] {
+	const args: string[] = [];
+	for (const [, double, single, word] of line.matchAll(/"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g)) {
+		args.push(double !== undefined ? JSON.parse(`"${double}"`) : (single ?? word));
+	}
+	return args;
+}
+
+// Runs an interactive shell until `exit` or the end of the input
+function startShell(db: IMiftahDB, separator: string, output: CliOutput): Promise<void> {
+	const shell = createInterface({
+		input: process.stdin,
+		output: process.stdout,
+		prompt: "miftahdb> ",
+	});
+	let queue = Promise.resolve();
+
+	shell.on("line", (line) => {
+		queue = queue.then(async () => {
+			const args = splitLine(line.trim());
+			if (args[0] === "exit" || args[0] === "quit") return void shell.close();
+			if (args[0] === "help") output.out(helpText());
+			else if (args.length) await runLine(db, separator, args, output);
+			shell.prompt();
+		});
+	});
+	shell.prompt();
+
+	return new Promise((resolve) => shell.on("close", () => queue.then(resolve)));
+}
+
+/**
+ * Runs the `miftahdb` command-line tool, which reads and changes the keys of a database file with their values decoded.
+ * The file must exist, and it is closed without being vacuumed. It is opened in its own journal mode, and a file written
+ * by an older release is only upgraded with `--upgrade`, so that the tool leaves the format of the file as it was.
+ *
+ * @param {string[]} argv - The arguments, without the executable and script paths.
+ * @param {(path: string, options: DBOptions) => IMiftahDB} open - Opens the database file with the given options.
+ * @param {CliOutput} [output] - Optional. Where the output is written, defaults to the console.
+ * @returns {Promise<number>} The exit code, `1` if the command failed.
+ * @example
+ * // miftahdb app.db get user:1 --namespace users
+ * process.exitCode = await runCli(process.argv.slice(2), (path, options) => new MiftahDB(path, options));
+ */
+export async function runCli(
+	argv: string[],
+	open: (path: string, options: DBOptions) => IMiftahDB,
+	output: CliOutput = consoleOutput,
+): Promise<number> {
+	let parsed: { values: Flags; positionals: string[] };
+	try {
+		parsed = parseArgs({ args: argv, options: FLAGS, allowPositionals: true });
+	} catch (error) {
+		output.err(`Error: ${(error as Error).message}`);
+		return 1;
+	}
+
+	const [path, command] = parsed.positionals;
+	if (!path || parsed.values.help) {
+		output.out(helpText());
+		return path || parsed.values.help ? 0 : 1;
+	}
+
+	if (!existsSync(path)) {
+		output.err(`Error: Database file ${path} does not exist.`);
+		return 1;
+	}
+
+	const separator = parsed.values.separator ?? ":";
+	let db: IMiftahDB;
+	try {
+		db = open(path, {
+			namespaceSeparator: separator,
+			vacuumOnClose: false,
+			journalMode: fileJournalMode(path),
+			upgrade: parsed.values.upgrade ?? false,
+		});
+	} catch (error) {
+		output.err(`Error: ${(error as Error)?.message ?? String(error)}`);
+		return 1;
+	}
+
+	try {
+		if (command === undefined) {
+			await startShell(resolveNamespace(db, separator, parsed.values.namespace), separator, output);
+			return 0;
+		}
+
+		const rest = argv.filter((_, index) => index !== argv.indexOf(path));
+		return (await runLine(db, separator, rest, output)) ? 0 : 1;
+	} finally {
+		db.close();
+	}
+}
@@ -1,6 +1,13 @@
+import zlib from "node:zlib";
 import msgpack from "msgpack-lite";
 
-import type { MiftahValue } from "./types";
+import type {
+	CompressionAlgorithm,
+	CompressionOptions,
+	KeyType,
+	MiftahValue,
+	Serializer,
+} from "./types";
 
 // Concatenates multiple Uint8Arrays into a single Uint8Array
 function concatUint8Arrays(arrays: Uint8Array[]): Uint8Array {
@@ -16,8 +23,57 @@ function concatUint8Arrays(arrays: Uint8Array[]): Uint8Array {
 	return result;
 }
 
-// Encodes a value into a Uint8Array
-export function encodeValue(value: MiftahValue): Uint8Array {
+// Markers below this one are reserved for the built-in encodings
+const FIRST_CUSTOM_MARKER = 0x20;
+
+// Serializes values with msgpack, the default serializer
+export const msgpackSerializer: Serializer = {
+	marker: 0x02,
+	name: "msgpack",
+	encode: (value) => msgpack.encode(value),
+	decode: (bytes) => msgpack.decode(bytes),
+};
+
+// Serializes values as UTF-8 JSON, which other tools can read after skipping the marker byte
+export const jsonSerializer: Serializer = {
+	marker: 0x04,
+	name: "json",
+	encode: (value) => new TextEncoder().encode(JSON.stringify(value)),
+	decode: (bytes) => JSON.parse(new TextDecoder().decode(bytes)),
+};
+
+// Serializers by marker byte, rows are decoded with the serializer matching their marker
+const serializers = new Map<number, Serializer>([
+	[msgpackSerializer.marker, msgpackSerializer],
+	[jsonSerializer.marker, jsonSerializer],
+]);
+
+// Registers a custom serializer so that the rows it wrote can be decoded. A serializer with the same marker and name,
+// such as the same literal given to several instances, replaces the registered one.
+export function registerSerializer(serializer: Serializer): void {
+	const { marker, name } = serializer;
+	const registered = serializers.get(marker);
+	if (registered === serializer) return;
+
+	if (!Number.isInteger(marker) || marker < FIRST_CUSTOM_MARKER || marker > 0xff) {
+		throw new Error(
+			`Marker of serializer "${name}" must be between 0x20 and 0xff, cannot registerSerializer.`,
+		);
+	}
+	if (registered && registered.name !== name) {
+		throw new Error(
+			`Marker 0x${marker.toString(16)} is used by serializer "${registered.name}", cannot registerSerializer.`,
+		);
+	}
+
+	serializers.set(marker, serializer);
+}
+
+// Encodes a value into a Uint8Array, binary values are stored as is whatever the serializer
+export function encodeValue(
+	value: MiftahValue,
+	serializer: Serializer = msgpackSerializer,
+): Uint8Array {
 	if (value instanceof Uint8Array) {
 		const marker = new Uint8Array([0x01]); // Uint8Array
 		return concatUint8Arrays([marker, value]);
@@ -29,24 +85,90 @@ export function encodeValue(value: MiftahValue): Uint8Array {
 		return concatUint8Arrays([marker, value]); // value is already Uint8Array-like
 	}
 
-	const marker = new Uint8Array([0x02]); // Msgpack
-	const msgPackedValue = msgpack.encode(value);
-	return concatUint8Arrays([marker, msgPackedValue]);
+	const marker = new Uint8Array([serializer.marker]);
+	return concatUint8Arrays([marker, serializer.encode(value)]);
+}
+
+// Marker of compressed values, followed by the algorithm byte and the compressed encoded value
+const COMPRESSED_MARKER = 0x05;
+
+const COMPRESSION_ALGORITHMS: Record<CompressionAlgorithm, number> = {
+	gzip: 0x01,
+	deflate: 0x02,
+	brotli: 0x03,
+};
+
+// Compresses an encoded value, values under the threshold or that do not shrink are returned as is
+export function compressEncodedValue(encoded: Uint8Array, options: CompressionOptions): Uint8Array {
+	if (encoded.length < (options.minBytes ?? 1024)) return encoded;
+
+	let compressed: Uint8Array;
+	if (options.algorithm === "brotli") {
+		const params =
+			options.level === undefined ? {} : { [zlib.constants.BROTLI_PARAM_QUALITY]: options.level };
+		compressed = zlib.brotliCompressSync(encoded, { params });
+	} else if (options.algorithm === "gzip") {
+		compressed = zlib.gzipSync(encoded, { level: options.level });
+	} else {
+		compressed = zlib.deflateSync(encoded, { level: options.level });
+	}
+
+	if (compressed.length + 2 >= encoded.length) return encoded;
+
+	const header = new Uint8Array([COMPRESSED_MARKER, COMPRESSION_ALGORITHMS[options.algorithm]]);
+	return concatUint8Arrays([header, compressed]);
+}
+
+// Returns the encoded value inside a compressed value, other values are returned as is
+export function unwrapEncodedValue(buffer: Uint8Array): Uint8Array {
+	if (buffer[0] !== COMPRESSED_MARKER) return buffer;
+
+	const compressed = buffer.subarray(2);
+	if (buffer[1] === COMPRESSION_ALGORITHMS.gzip) return zlib.gunzipSync(compressed);
+	if (buffer[1] === COMPRESSION_ALGORITHMS.deflate) return zlib.inflateSync(compressed);
+	if (buffer[1] === COMPRESSION_ALGORITHMS.brotli) return zlib.brotliDecompressSync(compressed);
+
+	throw new Error(`Unknown compression algorithm 0x${buffer[1].toString(16)}.`);
 }
 
 // Decodes a value from a Uint8Array
 export function decodeValue<T>(buffer: Uint8Array): T | null {
 	try {
-		const marker = buffer[0];
-		const actualValue = buffer.subarray(1);
+		const unwrapped = unwrapEncodedValue(buffer);
+		const marker = unwrapped[0];
+		const actualValue = unwrapped.subarray(1);
 
 		if (marker === 0x01) return actualValue as T; // Uint8Array
 		if (marker === 0x03) return Buffer.from(actualValue) as T; // Node.js Buffer
-		if (marker === 0x02) return msgpack.decode(actualValue) as T; // Msgpack
 
-		throw new Error("Unknown data marker.");
+		const serializer = serializers.get(marker);
+		if (serializer) return serializer.decode(actualValue) as T;
+
+		throw new Error(`No serializer registered for marker 0x${marker.toString(16)}.`);
 	} catch (err) {
 		console.error("Failed to decode value:", err);
 		return null;
 	}
 }
+
+// Marker bytes of the header rows that data types (hash, list, ...) keep in the main table
+const KEY_TYPE_MARKERS: Record<Exclude<KeyType, "value">, number> = {
+	hash: 0x10,
+	list: 0x11,
+	set: 0x12,
+	zset: 0x13,
+};
+
+// Encodes the header value of a data type key
+export function encodeKeyType(type: Exclude<KeyType, "value">): Uint8Array {
+	return new Uint8Array([KEY_TYPE_MARKERS[type]]);
+}
+
+// Returns the data type stored in a value, plain values are reported as "value"
+export function decodeKeyType(buffer: Uint8Array): KeyType {
+	for (const [type, marker] of Object.entries(KEY_TYPE_MARKERS)) {
+		if (buffer[0] === marker) return type as KeyType;
+	}
+
+	return "value";
+}
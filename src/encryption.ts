@@ -0,0 +1,118 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "node:crypto";
+import type { EncryptionKey, EncryptionOptions } from "./types";
+
+// Marker of encrypted values, followed by the key id length, the key id, the IV, the auth tag and the ciphertext
+const ENCRYPTED_MARKER = 0x06;
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// The keys of an instance, shared with the namespaces that do not have their own keys
+export interface Keyring {
+	// Key used to encrypt, `null` when encryption is disabled
+	current: EncryptionKey | null;
+	// Every known key by id, used to decrypt
+	keys: Map<string, Uint8Array>;
+	// Whether values that are not encrypted are read while encryption is enabled
+	allowUnencrypted: boolean;
+}
+
+function validateKey({ id, key }: EncryptionKey): void {
+	if (Buffer.byteLength(id) === 0 || Buffer.byteLength(id) > 0xff) {
+		throw new Error("Encryption key id must be between 1 and 255 bytes.");
+	}
+	if (key.length !== KEY_LENGTH) {
+		throw new Error(`Encryption key "${id}" must be ${KEY_LENGTH} bytes.`);
+	}
+}
+
+export function createKeyring(options: EncryptionOptions | undefined): Keyring {
+	const keyring: Keyring = { current: null, keys: new Map(), allowUnencrypted: false };
+	if (!options) return keyring;
+
+	for (const key of [...(options.previousKeys ?? []), options.key]) addKey(keyring, key);
+	keyring.current = options.key;
+	keyring.allowUnencrypted = options.allowUnencrypted ?? false;
+
+	return keyring;
+}
+
+export function addKey(keyring: Keyring, key: EncryptionKey): void {
+	validateKey(key);
+	keyring.keys.set(key.id, key.key);
+}
+
+// Returns the id of the key that encrypted a value, `null` if the value is not encrypted
+export function encryptedKeyId(buffer: Uint8Array): string | null {
+	if (buffer[0] !== ENCRYPTED_MARKER) return null;
+
+	return Buffer.from(buffer.subarray(2, 2 + buffer[1])).toString("utf8");
+}
+
+// The authenticated data of an envelope: its header, followed by the key of the row when the
+// value is bound to it, so that a ciphertext copied to another key fails authentication
+function additionalData(header: Uint8Array, rowKey: string | null): Buffer {
+	if (rowKey === null) return Buffer.from(header);
+
+	return Buffer.concat([header, Buffer.from([0]), Buffer.from(rowKey, "utf8")]);
+}
+
+// Encrypts bytes with AES-256-GCM, the envelope header and `rowKey` are authenticated along with the ciphertext.
+// Deterministic encryption derives the IV from the bytes, so that equal bytes give equal envelopes,
+// which set members need to be compared by SQLite, even across keys. It only reveals which encrypted values are equal.
+export function encryptBytes(
+	bytes: Uint8Array,
+	{ id, key }: EncryptionKey,
+	rowKey: string | null,
+	deterministic = false,
+): Uint8Array {
+	const idBytes = Buffer.from(id, "utf8");
+	const header = Buffer.concat([Buffer.from([ENCRYPTED_MARKER, idBytes.length]), idBytes]);
+	const iv = deterministic
+		? createHmac("sha256", key).update(bytes).digest().subarray(0, IV_LENGTH)
+		: randomBytes(IV_LENGTH);
+
+	const cipher = createCipheriv("aes-256-gcm", key, iv);
+	cipher.setAAD(additionalData(header, rowKey));
+	const ciphertext = Buffer.concat([cipher.update(bytes), cipher.final()]);
+
+	return Buffer.concat([header, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+// Decrypts a value encrypted for `rowKey`. Values that are not encrypted are returned as is while
+// encryption is disabled or `allowUnencrypted` is set, and rejected otherwise.
+export function decryptBytes(
+	buffer: Uint8Array,
+	keyring: Keyring,
+	rowKey: string | null,
+): Uint8Array {
+	const id = encryptedKeyId(buffer);
+	if (id === null) {
+		if (keyring.current && !keyring.allowUnencrypted) {
+			throw new Error(
+				"Value is not encrypted, it was tampered with or written before encryption was enabled.",
+			);
+		}
+		return buffer;
+	}
+
+	const key = keyring.keys.get(id);
+	if (!key) throw new Error(`Encryption key "${id}" not found, cannot decrypt value.`);
+
+	const headerLength = 2 + buffer[1];
+	const iv = buffer.subarray(headerLength, headerLength + IV_LENGTH);
+	const tag = buffer.subarray(headerLength + IV_LENGTH, headerLength + IV_LENGTH + TAG_LENGTH);
+	const ciphertext = buffer.subarray(headerLength + IV_LENGTH + TAG_LENGTH);
+
+	try {
+		const decipher = createDecipheriv("aes-256-gcm", key, iv);
+		decipher.setAAD(additionalData(buffer.subarray(0, headerLength), rowKey));
+		decipher.setAuthTag(tag);
+
+		return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+	} catch {
+		throw new Error(
+			`Value encrypted with key "${id}" failed authentication, it was tampered with or the key is wrong.`,
+		);
+	}
+}
@@ -0,0 +1,20 @@
+import type { ValidationIssue } from "./types";
+
+// Returned when a conditional write finds the key in a different state than expected
+export class ConflictError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ConflictError";
+	}
+}
+
+// Returned when a value written in a validated namespace fails its validator
+export class ValidationError extends Error {
+	constructor(
+		message: string,
+		readonly issues: ValidationIssue[] = [],
+	) {
+		super(message);
+		this.name = "ValidationError";
+	}
+}
@@ -0,0 +1,110 @@
+import type { MiftahDBEventHandler, MiftahDBEvents, MiftahDBEventType } from "./types";
+
+interface Listener {
+	event: MiftahDBEventType;
+	// Namespace prefix of the instance the listener was registered on
+	namespace: string | null;
+	// Compiled from the prefixed key pattern
+	matcher: RegExp;
+	handler: MiftahDBEventHandler<MiftahDBEventType>;
+}
+
+interface PendingEvent {
+	event: MiftahDBEventType;
+	prefixedKey: string | null;
+	payload: MiftahDBEvents[MiftahDBEventType];
+}
+
+// Checks if two namespace prefixes overlap, a `null` namespace covers the whole database
+function namespacesOverlap(a: string | null, b: string | null, separator: string): boolean {
+	if (a === null || b === null) return true;
+	return a === b || a.startsWith(`${b}${separator}`) || b.startsWith(`${a}${separator}`);
+}
+
+// Dispatches key change events, holding them back until the surrounding transaction commits
+export class MiftahDBEventEmitter {
+	private readonly listeners: Listener[] = [];
+	private readonly pending: PendingEvent[] = [];
+
+	// Joins the names of nested namespaces, to tell which namespaces a flush reaches
+	constructor(private readonly separator: string) {}
+
+	add<E extends MiftahDBEventType>(
+		event: E,
+		namespace: string | null,
+		matcher: RegExp,
+		handler: MiftahDBEventHandler<E>,
+	): void {
+		this.listeners.push({
+			event,
+			namespace,
+			matcher,
+			handler: handler as MiftahDBEventHandler<MiftahDBEventType>,
+		});
+	}
+
+	remove<E extends MiftahDBEventType>(event: E, handler: MiftahDBEventHandler<E>): number {
+		let removed = 0;
+		for (let i = this.listeners.length - 1; i >= 0; i--) {
+			if (this.listeners[i].event === event && this.listeners[i].handler === handler) {
+				this.listeners.splice(i, 1);
+				removed++;
+			}
+		}
+
+		return removed;
+	}
+
+	has(event: MiftahDBEventType): boolean {
+		return this.listeners.some((l) => l.event === event);
+	}
+
+	// Marks the start of a transaction, pass the mark to `rollback` to drop the events queued since
+	mark(): number {
+		return this.pending.length;
+	}
+
+	// Queues an event, `prefixedKey` is `null` for events that are not about a single key
+	publish<E extends MiftahDBEventType>(
+		event: E,
+		prefixedKey: string | null,
+		payload: MiftahDBEvents[E],
+		inTransaction: boolean,
+	): void {
+		if (!this.has(event)) return;
+
+		this.pending.push({ event, prefixedKey, payload });
+		if (!inTransaction) this.commit();
+	}
+
+	commit(): void {
+		for (const pendingEvent of this.pending.splice(0)) this.dispatch(pendingEvent);
+	}
+
+	rollback(mark: number): void {
+		this.pending.length = mark;
+	}
+
+	// Checks the namespace prefix of a key case-sensitively, the matchers of LIKE patterns ignore case
+	private inNamespace(prefixedKey: string, namespace: string | null): boolean {
+		return namespace === null || prefixedKey.startsWith(`${namespace}${this.separator}`);
+	}
+
+	private dispatch({ event, prefixedKey, payload }: PendingEvent): void {
+		for (const listener of [...this.listeners]) {
+			if (listener.event !== event) continue;
+
+			const matches =
+				prefixedKey === null
+					? namespacesOverlap(listener.namespace, payload.namespace, this.separator)
+					: this.inNamespace(prefixedKey, listener.namespace) && listener.matcher.test(prefixedKey);
+			if (!matches) continue;
+
+			try {
+				listener.handler(payload);
+			} catch (err) {
+				console.error("Failed to handle event:", err);
+			}
+		}
+	}
+}
@@ -0,0 +1,111 @@
+import { createReadStream } from "node:fs";
+import { open, readFile } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import type { ExportFormat, ExportRecord, KeyType } from "./types";
+
+const KEY_TYPES: KeyType[] = ["value", "hash", "list", "set", "zset"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return (
+		typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype
+	);
+}
+
+// Converts a value into JSON, binary values and dates are tagged so that they are read back as is
+export function toExportValue(value: unknown): unknown {
+	if (value instanceof Uint8Array) return { $binary: Buffer.from(value).toString("base64") };
+	if (value instanceof Date) return { $date: value.toISOString() };
+	if (Array.isArray(value)) return value.map(toExportValue);
+	if (isPlainObject(value)) {
+		return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toExportValue(v)]));
+	}
+
+	return value;
+}
+
+// Reverses `toExportValue`, objects holding a single `$binary` or `$date` field are read as tags
+export function fromExportValue(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(fromExportValue);
+	if (!isPlainObject(value)) return value;
+
+	const keys = Object.keys(value);
+	if (keys.length === 1 && typeof value.$binary === "string") {
+		return new Uint8Array(Buffer.from(value.$binary, "base64"));
+	}
+	if (keys.length === 1 && typeof value.$date === "string") return new Date(value.$date);
+
+	return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fromExportValue(v)]));
+}
+
+// Formats a batch of records, `first` tells whether the batch opens a JSON array
+export function formatRecords(
+	records: ExportRecord[],
+	format: ExportFormat,
+	first: boolean,
+): string {
+	const lines = records.map((record) => JSON.stringify(record));
+	if (format === "ndjson") return `${lines.join("\n")}\n`;
+
+	return (first ? "\n" : ",\n") + lines.join(",\n");
+}
+
+// Checks the value of a data type record, sorted sets hold `{ member, score }` entries
+function isValidValue(type: KeyType, value: unknown): boolean {
+	if (type === "value") return value !== undefined;
+	if (type === "hash") return isPlainObject(value);
+	if (!Array.isArray(value)) return false;
+
+	return (
+		type !== "zset" ||
+		value.every(
+			(entry) => isPlainObject(entry) && "member" in entry && typeof entry.score === "number",
+		)
+	);
+}
+
+// Throws if a parsed record does not have the shape written by `exportTo`
+function assertRecord(record: unknown, index: number): asserts record is ExportRecord {
+	const valid =
+		isPlainObject(record) &&
+		typeof record.key === "string" &&
+		KEY_TYPES.includes(record.type as KeyType) &&
+		isValidValue(record.type as KeyType, record.value) &&
+		(record.expiresAt === null ||
+			(typeof record.expiresAt === "string" && !Number.isNaN(Date.parse(record.expiresAt))));
+	if (!valid) throw new Error(`Record ${index + 1} is invalid, cannot importFrom.`);
+}
+
+// Reads the records of a file written by `exportTo`, the format is detected from the first character.
+// NDJSON files are read line by line, JSON files are parsed at once.
+export async function* readRecords(path: string): AsyncGenerator<ExportRecord> {
+	const file = await open(path, "r");
+	let head: string;
+	try {
+		const { buffer, bytesRead } = await file.read(Buffer.alloc(64), 0, 64, 0);
+		head = buffer.toString("utf8", 0, bytesRead).trimStart();
+	} finally {
+		await file.close();
+	}
+
+	let index = 0;
+	if (head.startsWith("[")) {
+		const records: unknown[] = JSON.parse(await readFile(path, "utf8"));
+		for (const record of records) {
+			assertRecord(record, index++);
+			yield record;
+		}
+		return;
+	}
+
+	const lines = createInterface({
+		input: createReadStream(path, { encoding: "utf8" }),
+		crlfDelay: Number.POSITIVE_INFINITY,
+	});
+	for await (const line of lines) {
+		if (line.trim() === "") continue;
+
+		const record: unknown = JSON.parse(line);
+		assertRecord(record, index++);
+		yield record;
+	}
+}
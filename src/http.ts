@@ -0,0 +1,264 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { URL } from "node:url";
+import { fromExportValue, toExportValue } from "./exchange";
+import type { HttpServerOptions, IMiftahDB, MiftahValue, Result } from "./types";
+
+// An error response, sent as `{ error }` with its status
+class HttpError extends Error {
+	constructor(
+		readonly status: number,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+// A response, binary data is sent as is and anything else as JSON
+interface Reply {
+	status?: number;
+	data: unknown;
+}
+
+// The parsed request a route runs with, `db` is the namespace addressed by the path
+interface RouteRequest {
+	db: IMiftahDB;
+	key: string;
+	url: URL;
+	request: IncomingMessage;
+}
+
+type Handler = (request: RouteRequest) => Reply | Promise<Reply>;
+
+// Returns the data of a result, or throws its error as a `400` response
+function unwrap<T>(result: Result<T>): T {
+	if (!result.success) throw new HttpError(400, result.error.message);
+	return result.data;
+}
+
+// `ttl` fails on keys that are missing or expired, while `exists` still finds expired keys
+function isLive(db: IMiftahDB, key: string): boolean {
+	return db.ttl(key).success;
+}
+
+// Like `unwrap`, but failures on keys that do not exist or are expired are sent as `404`
+function unwrapKey<T>(db: IMiftahDB, key: string, result: Result<T>): T {
+	if (!result.success && !isLive(db, key)) throw new HttpError(404, "Key not found.");
+	return unwrap(result);
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		request.on("data", (chunk: Buffer) => chunks.push(chunk));
+		request.on("end", () => resolve(Buffer.concat(chunks)));
+		request.on("error", reject);
+	});
+}
+
+// Reads a JSON body, values tagged by `exportTo` are read back as binary values and dates
+async function readJson(request: IncomingMessage): Promise<unknown> {
+	const body = (await readBody(request)).toString("utf8");
+	if (body.trim() === "") return undefined;
+
+	try {
+		return fromExportValue(JSON.parse(body));
+	} catch {
+		throw new HttpError(400, "Request body is not valid JSON.");
+	}
+}
+
+// Reads the body of a `PUT`, `application/octet-stream` bodies are stored as binary values
+async function readValue(request: IncomingMessage): Promise<MiftahValue> {
+	if (request.headers["content-type"]?.startsWith("application/octet-stream")) {
+		return new Uint8Array(await readBody(request));
+	}
+
+	const value = await readJson(request);
+	if (value === undefined) throw new HttpError(400, "Request body is empty.");
+	return value as MiftahValue;
+}
+
+// Reads an optional numeric query parameter
+function numberParam(url: URL, name: string): number | undefined {
+	const param = url.searchParams.get(name);
+	if (param === null) return undefined;
+
+	const value = Number(param);
+	if (param.trim() === "" || !Number.isFinite(value)) {
+		throw new HttpError(400, `Query parameter ${name} must be a number.`);
+	}
+	return value;
+}
+
+// Routes by their path without the namespace segments, then by method
+const ROUTES: Record<string, Record<string, Handler>> = {
+	keys: {
+		GET: ({ db, url }) => {
+			const page = unwrap(
+				db.scan({
+					pattern: url.searchParams.get("pattern") ?? undefined,
+					cursor: url.searchParams.get("cursor"),
+					count: numberParam(url, "count"),
+				}),
+			);
+			return { data: { keys: page.entries.map((entry) => entry.key), cursor: page.cursor } };
+		},
+	},
+	"kv/:key": {
+		GET: ({ db, key }) => ({ data: unwrapKey(db, key, db.get(key)) }),
+		PUT: async ({ db, key, url, request }) => {
+			const value = await readValue(request);
+			const ttl = numberParam(url, "ttl");
+			return { data: unwrap(db.set(key, value, ttl === undefined ? {} : { ttl })) };
+		},
+		DELETE: ({ db, key }) => ({ data: unwrap(db.delete(key)) }),
+	},
+	"kv/:key/expire": {
+		POST: async ({ db, key, request }) => {
+			const body = (await readJson(request)) as {
+				ttl?: number;
+				expiresAt?: string | number | Date;
+				persist?: boolean;
+			} | null;
+			if (body?.persist) return { data: unwrapKey(db, key, db.persist(key)) };
+
+			const expiresAt =
+				body?.ttl !== undefined ? new Date(Date.now() + body.ttl) : new Date(body?.expiresAt ?? "");
+			if (Number.isNaN(expiresAt.getTime())) {
+				throw new HttpError(400, "Request body must contain ttl, expiresAt or persist.");
+			}
+			if (!isLive(db, key)) throw new HttpError(404, "Key not found.");
+			return { data: unwrap(db.setExpire(key, expiresAt)) };
+		},
+	},
+	"incr/:key": {
+		POST: async ({ db, key, request }) => {
+			const body = (await readJson(request)) as { amount?: number } | null;
+			return { data: unwrap(db.increment(key, body?.amount)) };
+		},
+	},
+	stats: {
+		GET: ({ db }) => {
+			const sweeper = unwrap(db.sweepStats());
+			return {
+				data: {
+					...unwrap(db.stats()),
+					sweeper: { ...sweeper, lastError: sweeper.lastError?.message ?? null },
+				},
+			};
+		},
+	},
+	cleanup: {
+		POST: ({ db }) => ({ data: unwrap(db.cleanup()) }),
+	},
+};
+
+// Checks the `Authorization` header against the token, the digests are compared so that their lengths match
+function isAuthorized(request: IncomingMessage, auth: HttpServerOptions["auth"]): boolean {
+	if (auth === undefined) return true;
+	if (typeof auth === "function") return auth(request);
+
+	const digest = (value: string) => createHash("sha256").update(value).digest();
+	return timingSafeEqual(digest(request.headers.authorization ?? ""), digest(`Bearer ${auth}`));
+}
+
+// Splits a path into its namespaces and route, `/ns/users/ns/posts/kv/1` runs `kv/:key` on `users:posts`
+function resolvePath(root: IMiftahDB, path: string) {
+	let segments: string[];
+	try {
+		segments = path.split("/").filter(Boolean).map(decodeURIComponent);
+	} catch {
+		throw new HttpError(400, "Path is not valid.");
+	}
+
+	let db = root;
+	while (segments[0] === "ns" && segments.length > 1) {
+		db = db.namespace(segments[1]);
+		segments = segments.slice(2);
+	}
+
+	const [name = "", key, action] = segments;
+	if (segments.length > 3) throw new HttpError(404, "Route not found.");
+	const route = [name, key === undefined ? null : ":key", action].filter(Boolean).join("/");
+
+	return { db, route, key: key ?? "" };
+}
+
+async function handle(
+	root: IMiftahDB,
+	options: HttpServerOptions,
+	request: IncomingMessage,
+): Promise<Reply> {
+	const url = new URL(request.url ?? "/", "http://localhost");
+	const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+	if (url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+		throw new HttpError(404, "Route not found.");
+	}
+	if (!isAuthorized(request, options.auth)) throw new HttpError(401, "Unauthorized.");
+
+	const { db, route, key } = resolvePath(root, url.pathname.slice(basePath.length));
+	const methods = ROUTES[route];
+	if (!methods) throw new HttpError(404, "Route not found.");
+
+	const handler = methods[request.method ?? "GET"];
+	if (!handler) throw new HttpError(405, "Method not allowed.");
+
+	return handler({ db, key, url, request });
+}
+
+function send(response: ServerResponse, { status = 200, data }: Reply): void {
+	if (data instanceof Uint8Array) {
+		response.writeHead(status, {
+			"Content-Type": "application/octet-stream",
+			"Content-Length": data.byteLength,
+		});
+		response.end(data);
+		return;
+	}
+
+	const body = JSON.stringify(toExportValue(data ?? null));
+	response.writeHead(status, {
+		"Content-Type": "application/json; charset=utf-8",
+		"Content-Length": Buffer.byteLength(body),
+	});
+	response.end(body);
+}
+
+/**
+ * Creates an HTTP server exposing a MiftahDB instance as a JSON API, to inspect and change its keys with `curl` or admin UIs.
+ * The server is listening when it is returned.
+ *
+ * Routes, relative to `basePath`, are `GET /keys?pattern=&cursor=&count=`, `GET`, `PUT` and `DELETE /kv/:key`
+ * (`PUT` takes a `ttl` query parameter in milliseconds), `POST /kv/:key/expire` with `{ ttl }`, `{ expiresAt }`
+ * or `{ persist: true }`, `POST /incr/:key` with an optional `{ amount }`, `GET /stats` and `POST /cleanup`.
+ * Prefix a route with `/ns/:name` to run it on a namespace, for example `/ns/users/kv/1`, repeat it for nested namespaces.
+ *
+ * Responses are the `data` of the result as JSON, binary values and dates being tagged as in `exportTo`, and failed results
+ * are sent as `{ error }`. Binary values read with `GET /kv/:key` are sent as `application/octet-stream`, and
+ * `application/octet-stream` bodies are stored as binary values.
+ *
+ * @param {IMiftahDB} db - The instance the routes run on.
+ * @param {HttpServerOptions} [options] - Optional. The port, host, base path and authentication of the server.
+ * @returns {Server} The `node:http` server, close it with `server.close()`.
+ * @example
+ * const db = new MiftahDB("app.db");
+ * const server = createHttpServer(db, { port: 8080, basePath: "/admin/db", auth: process.env.DB_TOKEN });
+ * // curl -H "Authorization: Bearer $DB_TOKEN" http://127.0.0.1:8080/admin/db/ns/users/kv/1
+ */
+export function createHttpServer(db: IMiftahDB, options: HttpServerOptions = {}): Server {
+	const { port = 8080, host = "127.0.0.1" } = options;
+
+	const server = createServer((request, response) => {
+		handle(db, options, request)
+			.then((reply) => send(response, reply))
+			.catch((error) => {
+				const status = error instanceof HttpError ? error.status : 500;
+				if (status === 401) response.setHeader("WWW-Authenticate", "Bearer");
+				send(response, { status, data: { error: (error as Error)?.message ?? String(error) } });
+			});
+	});
+
+	server.listen(port, host);
+	return server;
+}
@@ -1,5 +1,7 @@
 import DB, { type Database } from "better-sqlite3";
 
+import { fileURLToPath } from "node:url";
+import { BaseMiftahDBAsync, serveMiftahDBWorker } from "./async";
 import { BaseMiftahDB } from "./base";
 
 /**
@@ -21,5 +23,78 @@ export class MiftahDB extends BaseMiftahDB {
 	}
 }
 
+/**
+ * MiftahDBAsync runs `MiftahDB` in a worker thread, so queries never block the event loop.
+ * It has the same API as `MiftahDB`, with every method returning a `PromiseResult`.
+ * @param {string} path - Path to the database file. Defaults to ":memory:" if not provided.
+ * @param {DBOptions} options - Optional configuration options for the database.
+ * @example
+ * const db = new MiftahDBAsync("test.db");
+ * await db.set("user:1234", { name: "Ahmad" });
+ * const result = await db.get("user:1234");
+ * await db.close();
+ */
+export class MiftahDBAsync extends BaseMiftahDBAsync {
+	protected workerEntry(): string {
+		return fileURLToPath(import.meta.url);
+	}
+}
+
+// Serves the `MiftahDBAsync` requests when this file is loaded by its worker
+serveMiftahDBWorker((path, options) => new MiftahDB(path, options));
+
 export type { RunResult } from "better-sqlite3";
-export type { MiftahValue, PromiseResult, Result } from "./types";
+export type {
+	BackupOptions,
+	BackupProgress,
+	ChangeLogEntry,
+	ChangeOp,
+	DataTypeOperation,
+	ChangesSinceOptions,
+	CompressionAlgorithm,
+	CompressionOptions,
+	DBStats,
+	DiffOptions,
+	DiffResult,
+	EncryptionKey,
+	EncryptionOptions,
+	ExportFormat,
+	ExportOptions,
+	ExportRecord,
+	GetExOptions,
+	HttpServerOptions,
+	ImportOptions,
+	LatencyHistogram,
+	MiftahDBEventHandler,
+	MiftahDBEvents,
+	MiftahDBEventType,
+	MiftahValue,
+	NamespaceOptions,
+	NamespaceStats,
+	OperationStats,
+	PatternMode,
+	PromiseResult,
+	RespServerOptions,
+	Result,
+	ScanEntry,
+	ScanOptions,
+	ScanResult,
+	Serializer,
+	SetOptions,
+	StandardSchema,
+	StandardSchemaResult,
+	SweepStats,
+	SyncOptions,
+	SyncResult,
+	SyncStrategy,
+	TransactionMode,
+	TransactionOptions,
+	ValidationIssue,
+	Validator,
+	VersionedValue,
+	ZSetEntry,
+} from "./types";
+export { jsonSerializer, msgpackSerializer, registerSerializer } from "./encoding";
+export { ConflictError, ValidationError } from "./errors";
+export { createHttpServer } from "./http";
+export { createRespServer } from "./resp";
@@ -0,0 +1,164 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { DBStats, OperationStats } from "./types";
+import { isFailedResult } from "./utils";
+
+// Upper bounds of the latency buckets in milliseconds, from a cached read to a large export
+export const LATENCY_BUCKETS_MS = [0.01, 0.05, 0.1, 0.5, 1, 5, 10, 50, 100, 500, 1000, 5000];
+
+// Collects the calls, errors and latencies of the public methods, along with the hits and misses of `get`
+export class OperationMetrics {
+	getHits = 0;
+	getMisses = 0;
+	// Set while a method runs, calls made by another method are part of it and are not recorded.
+	// It follows the awaits of async methods, so that it is set until their promise settles.
+	private readonly nested = new AsyncLocalStorage<boolean>();
+	private readonly operations = new Map<string, OperationStats>();
+
+	// Runs a method that returns a result, recording it once the result or its promise settles
+	measure<R>(operation: string, execute: () => R): R {
+		if (this.nested.getStore()) return execute();
+
+		const startedAt = performance.now();
+		const result = this.nested.run(true, execute);
+
+		if (result instanceof Promise) {
+			return result.then((settled) => {
+				this.record(operation, performance.now() - startedAt, isFailedResult(settled));
+				return settled;
+			}) as R;
+		}
+
+		this.record(operation, performance.now() - startedAt, isFailedResult(result));
+		return result;
+	}
+
+	// Runs a callback of the user from inside a method, such as the one of `transaction`, its calls are recorded
+	runCallback<R>(execute: () => R): R {
+		return this.nested.run(false, execute);
+	}
+
+	private record(operation: string, durationMs: number, failed: boolean): void {
+		let stats = this.operations.get(operation);
+		if (!stats) {
+			stats = {
+				calls: 0,
+				errors: 0,
+				latency: {
+					bounds: LATENCY_BUCKETS_MS,
+					counts: Array(LATENCY_BUCKETS_MS.length + 1).fill(0),
+					sumMs: 0,
+				},
+			};
+			this.operations.set(operation, stats);
+		}
+
+		stats.calls++;
+		if (failed) stats.errors++;
+
+		const bucket = LATENCY_BUCKETS_MS.findIndex((bound) => durationMs <= bound);
+		stats.latency.counts[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+		stats.latency.sumMs += durationMs;
+	}
+
+	getOperations(): Record<string, OperationStats> {
+		const operations: Record<string, OperationStats> = {};
+		for (const [operation, stats] of [...this.operations].sort(([a], [b]) => a.localeCompare(b))) {
+			operations[operation] = {
+				calls: stats.calls,
+				errors: stats.errors,
+				latency: {
+					...stats.latency,
+					bounds: [...stats.latency.bounds],
+					counts: [...stats.latency.counts],
+				},
+			};
+		}
+
+		return operations;
+	}
+}
+
+// Writes a metric with its help and type lines
+function metric(
+	name: string,
+	type: "gauge" | "counter" | "histogram",
+	help: string,
+	samples: string[],
+): string {
+	return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples].join("\n");
+}
+
+// Renders the statistics in the Prometheus text exposition format, latencies are converted to seconds
+export function formatPrometheus(stats: DBStats): string {
+	const operations = Object.entries(stats.operations);
+	const label = (operation: string) => `operation="${operation}"`;
+
+	const histogram = operations.flatMap(([operation, { latency }]) => {
+		let cumulative = 0;
+		const buckets = latency.bounds.map((bound, index) => {
+			cumulative += latency.counts[index];
+			return `miftahdb_operation_duration_seconds_bucket{${label(operation)},le="${bound / 1000}"} ${cumulative}`;
+		});
+		const count = cumulative + latency.counts[latency.bounds.length];
+
+		return [
+			...buckets,
+			`miftahdb_operation_duration_seconds_bucket{${label(operation)},le="+Inf"} ${count}`,
+			`miftahdb_operation_duration_seconds_sum{${label(operation)}} ${latency.sumMs / 1000}`,
+			`miftahdb_operation_duration_seconds_count{${label(operation)}} ${count}`,
+		];
+	});
+
+	return `${[
+		metric("miftahdb_keys", "gauge", "Number of keys, expired keys included.", [
+			`miftahdb_keys ${stats.keys}`,
+		]),
+		metric("miftahdb_expired_keys", "gauge", "Number of expired keys not deleted yet.", [
+			`miftahdb_expired_keys ${stats.expiredKeys}`,
+		]),
+		metric("miftahdb_page_count", "gauge", "Number of pages of the database.", [
+			`miftahdb_page_count ${stats.pageCount}`,
+		]),
+		metric("miftahdb_page_size_bytes", "gauge", "Size of a page of the database.", [
+			`miftahdb_page_size_bytes ${stats.pageSize}`,
+		]),
+		metric("miftahdb_file_size_bytes", "gauge", "Size of the database file.", [
+			`miftahdb_file_size_bytes ${stats.fileSize}`,
+		]),
+		metric("miftahdb_wal_size_bytes", "gauge", "Size of the write-ahead log file.", [
+			`miftahdb_wal_size_bytes ${stats.walSize}`,
+		]),
+		metric("miftahdb_get_hits_total", "counter", "Number of get calls that found their key.", [
+			`miftahdb_get_hits_total ${stats.getHits}`,
+		]),
+		metric(
+			"miftahdb_get_misses_total",
+			"counter",
+			"Number of get calls on missing or expired keys.",
+			[`miftahdb_get_misses_total ${stats.getMisses}`],
+		),
+		metric(
+			"miftahdb_operations_total",
+			"counter",
+			"Number of calls per operation.",
+			operations.map(
+				([operation, { calls }]) => `miftahdb_operations_total{${label(operation)}} ${calls}`,
+			),
+		),
+		metric(
+			"miftahdb_operation_errors_total",
+			"counter",
+			"Number of failed calls per operation.",
+			operations.map(
+				([operation, { errors }]) =>
+					`miftahdb_operation_errors_total{${label(operation)}} ${errors}`,
+			),
+		),
+		metric(
+			"miftahdb_operation_duration_seconds",
+			"histogram",
+			"Latency of the calls per operation.",
+			histogram,
+		),
+	].join("\n")}\n`;
+}
@@ -0,0 +1,118 @@
+import type { Database } from "better-sqlite3";
+import { SQL_STATEMENTS } from "./statements";
+
+// A step upgrading the files of the previous format version to `version`
+export interface Migration {
+	version: number;
+	description: string;
+	up: (db: Database) => void;
+}
+
+// Every migration in version order, files created before the meta table existed are at version 1
+export const MIGRATIONS: Migration[] = [
+	{
+		version: 2,
+		description: "Add the per-key version column",
+		up: (db) => {
+			if (!hasColumn(db, "main", "version")) db.exec(SQL_STATEMENTS.ADD_VERSION_COLUMN);
+		},
+	},
+	{
+		version: 3,
+		description: "Renumber list elements so that positions are contiguous",
+		up: (db) => {
+			if (hasTable(db, "miftahDB_list")) db.exec(SQL_STATEMENTS.COMPACT_LISTS);
+		},
+	},
+	{
+		version: 4,
+		description: "Add the last write time column",
+		up: (db) => {
+			if (!hasColumn(db, "main", "modified_at")) db.exec(SQL_STATEMENTS.ADD_MODIFIED_AT_COLUMN);
+		},
+	},
+	{
+		version: 5,
+		description: "Add the version sequence, so that versions of deleted keys are not reused",
+		up: (db) => db.exec(SQL_STATEMENTS.CREATE_VERSION_SEQUENCE),
+	},
+];
+
+// The format version written by this release, files with a higher version are refused
+export const FORMAT_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function getMeta(db: Database, key: string): string | null {
+	const row = db.prepare(SQL_STATEMENTS.GET_META).get(key) as { value: string } | undefined;
+	return row ? row.value : null;
+}
+
+function hasTable(db: Database, name: string): boolean {
+	const result = db.prepare(SQL_STATEMENTS.HAS_TABLE).get(name) as { count: number };
+	return result.count > 0;
+}
+
+// Checks if the table of a schema, `main` or an attached database, has a column
+export function hasColumn(db: Database, schema: string, name: string): boolean {
+	const result = db.prepare(SQL_STATEMENTS.HAS_COLUMN).get(schema, name) as { count: number };
+	return result.count > 0;
+}
+
+// Returns the format version of the file, null for a new file
+export function readFormatVersion(db: Database): number | null {
+	const version = hasTable(db, "miftahDB_meta") ? getMeta(db, "format_version") : null;
+	if (version !== null) return Number(version);
+
+	return hasTable(db, "miftahDB") ? 1 : null;
+}
+
+// Throws if the file was written by a newer release, it is only read so that read-only files can be checked
+export function assertSupportedFormat(db: Database): void {
+	const version = readFormatVersion(db);
+	if (version !== null && version > FORMAT_VERSION) {
+		throw new Error(
+			`Database format version ${version} is newer than the supported version ${FORMAT_VERSION}, upgrade MiftahDB to open it.`,
+		);
+	}
+}
+
+// Throws if the file is new or written by another release, for instances that must not create or upgrade it
+export function assertCurrentFormat(db: Database): void {
+	assertSupportedFormat(db);
+	const version = readFormatVersion(db);
+	if (version === null) {
+		throw new Error("Database file has no MiftahDB tables, cannot open it without upgrading.");
+	}
+	if (version < FORMAT_VERSION) {
+		throw new Error(
+			`Database format version ${version} is older than the current version ${FORMAT_VERSION}, cannot open it without upgrading.`,
+		);
+	}
+}
+
+// Checks if the file is new or written by another release, files at the current version are opened without writing
+export function needsMigration(db: Database): boolean {
+	return readFormatVersion(db) !== FORMAT_VERSION;
+}
+
+// Records the format version and creation info of a new file, or upgrades an older file.
+// Must run inside a transaction, so that a failed migration leaves the file untouched.
+export function migrate(db: Database): void {
+	assertSupportedFormat(db);
+	// Another connection may have migrated the file while this one waited for the write lock
+	const version = readFormatVersion(db);
+	if (version === FORMAT_VERSION) return;
+
+	db.exec(SQL_STATEMENTS.CREATE_META_TABLE);
+
+	if (version === null) {
+		db.exec(SQL_STATEMENTS.CREATE_TABLE);
+		db.prepare(SQL_STATEMENTS.SET_META).run("created_at", new Date().toISOString());
+		db.prepare(SQL_STATEMENTS.SET_META).run("created_format_version", String(FORMAT_VERSION));
+	} else {
+		for (const migration of MIGRATIONS) {
+			if (migration.version > version) migration.up(db);
+		}
+	}
+
+	db.prepare(SQL_STATEMENTS.SET_META).run("format_version", String(FORMAT_VERSION));
+}
@@ -0,0 +1,132 @@
+import type { PatternMode } from "./types";
+
+// Escapes the wildcards of a SQL LIKE pattern, the statements use `\` as the escape character
+export function escapeLike(text: string): string {
+	return text.replace(/[\\%_]/g, "\\$&");
+}
+
+// Escapes the wildcards of a SQLite GLOB pattern, which has no escape character but matches classes literally
+export function escapeGlob(text: string): string {
+	return text.replace(/[*?[]/g, "[$&]");
+}
+
+// Returns the index of the `]` closing the class opened at `start`, or -1 if it is not closed
+function classEnd(pattern: string, start: number): number {
+	for (let i = start + 1; i < pattern.length; i++) {
+		if (pattern[i] === "\\") i++;
+		else if (pattern[i] === "]") return i;
+	}
+
+	return -1;
+}
+
+// Converts the body of a glob class, SQLite only reads `]` literally first, `^` anywhere but first and `-` last
+function compileClass(body: string): string {
+	const negate = body.startsWith("^");
+	let members = "";
+	let bracket = "";
+	let caret = "";
+	let dash = "";
+
+	for (let i = negate ? 1 : 0; i < body.length; i++) {
+		if (body[i] !== "\\" || i + 1 === body.length) {
+			members += body[i];
+			continue;
+		}
+
+		const char = body[++i];
+		if (char === "]") bracket = char;
+		else if (char === "^") caret = char;
+		else if (char === "-") dash = char;
+		else members += char;
+	}
+
+	return `[${negate ? "^" : ""}${bracket}${members}${caret}${dash}]`;
+}
+
+// Converts a Redis-style glob (`*`, `?`, `[abc]`, `[^a-z]` and `\` escapes) into a SQLite GLOB pattern
+export function globToSqlite(pattern: string): string {
+	let result = "";
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+
+		if (char === "\\" && i + 1 < pattern.length) {
+			result += escapeGlob(pattern[++i]);
+		} else if (char === "[") {
+			const end = classEnd(pattern, i);
+			if (end <= i + 1) {
+				result += escapeGlob(char);
+			} else {
+				result += compileClass(pattern.slice(i + 1, end));
+				i = end;
+			}
+		} else {
+			result += char;
+		}
+	}
+
+	return result;
+}
+
+// Compiles a user pattern into the pattern bound to the statements, the prefix always matches literally.
+// Without a pattern, every key starting with the prefix matches.
+export function compilePattern(
+	prefix: string,
+	pattern: string | undefined,
+	mode: PatternMode,
+): string {
+	if (mode === "glob") return escapeGlob(prefix) + globToSqlite(pattern ?? "*");
+
+	return escapeLike(prefix) + (pattern ?? "%");
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Converts a compiled SQL LIKE pattern into a RegExp, case-insensitive like SQLite's LIKE
+function likeToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "\\") source += escapeRegExp(pattern[++i] ?? "");
+		else if (char === "%") source += ".*";
+		else if (char === "_") source += ".";
+		else source += escapeRegExp(char);
+	}
+
+	return new RegExp(`^${source}$`, "is");
+}
+
+// Converts the body of a SQLite GLOB class into a RegExp class
+function globClassToRegExp(body: string): string {
+	const negate = body.startsWith("^");
+	const members = (negate ? body.slice(1) : body).replace(/[\\[\]]/g, "\\$&");
+
+	return `[${negate ? "^" : ""}${members}]`;
+}
+
+// Converts a compiled SQLite GLOB pattern into a RegExp, case-sensitive like SQLite's GLOB
+function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		// A `]` right after `[` or `[^` is a member of the class, not its end
+		const end = char === "[" ? pattern.indexOf("]", i + (pattern[i + 1] === "^" ? 3 : 2)) : -1;
+
+		if (char === "*") source += ".*";
+		else if (char === "?") source += ".";
+		else if (end !== -1) {
+			source += globClassToRegExp(pattern.slice(i + 1, end));
+			i = end;
+		} else source += escapeRegExp(char);
+	}
+
+	return new RegExp(`^${source}$`, "s");
+}
+
+// Converts a compiled pattern into a RegExp matching the same keys, used to filter events
+export function patternToRegExp(pattern: string, mode: PatternMode): RegExp {
+	return mode === "glob" ? globToRegExp(pattern) : likeToRegExp(pattern);
+}
@@ -0,0 +1,532 @@
+import { createServer, type Server } from "node:net";
+import { compilePattern, patternToRegExp } from "./patterns";
+import type {
+	IMiftahDB,
+	MiftahValue,
+	RespServerOptions,
+	Result,
+	ScanResult,
+	SetOptions,
+} from "./types";
+
+// An error reply, the message is sent after the `ERR` prefix unless it starts with its own code
+class RespError extends Error {}
+
+// A reply to encode, strings and buffers are sent as bulk strings and `simple` as a simple string.
+// Maps are sent as RESP3 maps, or as flat arrays in RESP2.
+type Reply =
+	| { simple: string }
+	| RespError
+	| number
+	| string
+	| Buffer
+	| null
+	| Reply[]
+	| Map<string, Reply>;
+
+// The state of a connection, `SELECT` and `HELLO` change it
+interface Session {
+	id: number;
+	db: IMiftahDB;
+	protocol: 2 | 3;
+	quit: boolean;
+}
+
+const OK_REPLY = { simple: "OK" };
+const CRLF = "\r\n";
+
+// Reads the integer of a `*` or `$` header line, or returns null if the line is not complete
+function readHeader(buffer: Buffer, start: number): { value: number; next: number } | null {
+	const end = buffer.indexOf(CRLF, start);
+	if (end === -1) return null;
+
+	return { value: Number(buffer.toString("latin1", start + 1, end)), next: end + 2 };
+}
+
+// Reads a bulk string, or returns null if it is not complete
+function readBulk(buffer: Buffer, start: number): { arg: Buffer; next: number } | null {
+	if (buffer[start] !== 0x24) {
+		throw new RespError(
+			`Protocol error: expected '$', got '${String.fromCharCode(buffer[start])}'`,
+		);
+	}
+
+	const header = readHeader(buffer, start);
+	if (!header) return null;
+	if (!Number.isInteger(header.value) || header.value < 0) {
+		throw new RespError("Protocol error: invalid bulk length");
+	}
+
+	const next = header.next + header.value + 2;
+	if (next > buffer.length) return null;
+
+	return { arg: buffer.subarray(header.next, header.next + header.value), next };
+}
+
+// Reads an array of bulk strings, or returns null if it is not complete
+function readArray(buffer: Buffer, start: number): { args: Buffer[]; next: number } | null {
+	const header = readHeader(buffer, start);
+	if (!header) return null;
+	if (!Number.isInteger(header.value)) {
+		throw new RespError("Protocol error: invalid multibulk length");
+	}
+
+	const args: Buffer[] = [];
+	let next = header.next;
+	while (args.length < header.value) {
+		if (next >= buffer.length) return null;
+
+		const bulk = readBulk(buffer, next);
+		if (!bulk) return null;
+		args.push(bulk.arg);
+		next = bulk.next;
+	}
+
+	return { args, next };
+}
+
+// Reads an inline command separated by spaces, as sent by telnet, or returns null if the line is not complete
+function readInline(buffer: Buffer, start: number): { args: Buffer[]; next: number } | null {
+	const end = buffer.indexOf("\n", start);
+	if (end === -1) return null;
+
+	const line = buffer.toString("utf8", start, end).trim();
+	const args = line ? line.split(/\s+/).map((arg) => Buffer.from(arg)) : [];
+	return { args, next: end + 1 };
+}
+
+// Parses the complete commands at the start of a buffer, along with the number of bytes they take
+function parseCommands(buffer: Buffer): { commands: Buffer[][]; offset: number } {
+	const commands: Buffer[][] = [];
+	let offset = 0;
+
+	while (offset < buffer.length) {
+		const command =
+			buffer[offset] === 0x2a ? readArray(buffer, offset) : readInline(buffer, offset);
+		if (!command) break;
+
+		if (command.args.length) commands.push(command.args);
+		offset = command.next;
+	}
+
+	return { commands, offset };
+}
+
+// Encodes a reply in the protocol of the connection
+function encodeReply(reply: Reply, protocol: 2 | 3): Buffer {
+	if (reply === null) return Buffer.from(protocol === 3 ? `_${CRLF}` : `$-1${CRLF}`);
+	if (reply instanceof RespError) {
+		const message = reply.message.replace(/[\r\n]+/g, " ");
+		return Buffer.from(`-${/^[A-Z]{2,} /.test(message) ? "" : "ERR "}${message}${CRLF}`);
+	}
+	if (typeof reply === "number") return Buffer.from(`:${reply}${CRLF}`);
+	if (typeof reply === "string" || Buffer.isBuffer(reply)) {
+		const data = Buffer.isBuffer(reply) ? reply : Buffer.from(reply);
+		return Buffer.concat([Buffer.from(`$${data.length}${CRLF}`), data, Buffer.from(CRLF)]);
+	}
+	if (Array.isArray(reply)) {
+		return Buffer.concat([
+			Buffer.from(`*${reply.length}${CRLF}`),
+			...reply.map((item) => encodeReply(item, protocol)),
+		]);
+	}
+	if (reply instanceof Map) {
+		const entries = [...reply].flatMap(([key, value]) => [
+			encodeReply(key, protocol),
+			encodeReply(value, protocol),
+		]);
+		const header = protocol === 3 ? `%${reply.size}` : `*${reply.size * 2}`;
+		return Buffer.concat([Buffer.from(`${header}${CRLF}`), ...entries]);
+	}
+
+	return Buffer.from(`+${reply.simple}${CRLF}`);
+}
+
+// Converts a stored value into a bulk string, values that are not strings are sent as their JSON
+function toBulk(value: unknown): Reply {
+	if (value === null || value === undefined) return null;
+	if (typeof value === "string") return value;
+	if (value instanceof Uint8Array) return Buffer.from(value);
+	if (value instanceof Date) return value.toISOString();
+	if (typeof value === "number" || typeof value === "boolean") return String(value);
+
+	return JSON.stringify(value);
+}
+
+// Converts an argument into the value to store. Canonical integers are stored as numbers so that `INCR` works on them,
+// and `GET` sends them back unchanged. Bytes that are not valid UTF-8 are stored as binary.
+function fromBulk(arg: Buffer): MiftahValue {
+	const text = arg.toString("utf8");
+	if (/^-?(0|[1-9]\d{0,15})$/.test(text) && Number.isSafeInteger(Number(text))) return Number(text);
+
+	return Buffer.from(text).equals(arg) ? text : new Uint8Array(arg);
+}
+
+// Parses an integer argument, as Redis does
+function toInteger(arg: Buffer): number {
+	const text = arg.toString("utf8");
+	if (!/^-?\d+$/.test(text) || !Number.isSafeInteger(Number(text))) {
+		throw new RespError("value is not an integer or out of range");
+	}
+
+	return Number(text);
+}
+
+// Returns the data of a result, or throws its error so that it is sent as an error reply
+function unwrap<T>(result: Result<T>): T {
+	if (!result.success) throw new RespError(result.error.message);
+	return result.data;
+}
+
+// Checks that a key exists and is not expired, `exists` also finds expired keys unlike `ttl`
+function exists(db: IMiftahDB, key: string): boolean {
+	return db.ttl(key).success;
+}
+
+// Reads a value, missing and expired keys are sent as null, other failures as errors
+function getValue(db: IMiftahDB, key: string): Reply {
+	const result = db.get(key);
+	if (result.success) return toBulk(result.data);
+
+	return exists(db, key) ? unwrap(result) : null;
+}
+
+// Scan cursors are the last returned key, sent as an integer since some clients parse them as one.
+// A `1` byte is prepended to the key so that its leading zero bytes are kept, `0` starts and ends a scan.
+function encodeCursor(key: string | null): string {
+	if (key === null) return "0";
+	return BigInt(`0x01${Buffer.from(key).toString("hex")}`).toString();
+}
+
+function decodeCursor(cursor: string): string | null {
+	if (!/^\d+$/.test(cursor)) throw new RespError("invalid cursor");
+	if (cursor === "0") return null;
+
+	const hex = BigInt(cursor).toString(16);
+	return Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex")
+		.subarray(1)
+		.toString("utf8");
+}
+
+// Parses the `EX`, `PX`, `NX`, `XX`, `KEEPTTL` and `GET` options of `SET`
+function setOptions(args: Buffer[]): SetOptions {
+	const options: SetOptions = {};
+	const flags: Record<string, keyof SetOptions> = {
+		NX: "onlyIfNotExists",
+		XX: "onlyIfExists",
+		KEEPTTL: "keepTtl",
+		GET: "returnPrevious",
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const option = args[i].toString().toUpperCase();
+		if (option in flags) {
+			Object.assign(options, { [flags[option]]: true });
+			continue;
+		}
+		if ((option !== "EX" && option !== "PX") || i + 1 >= args.length) {
+			throw new RespError("syntax error");
+		}
+
+		const amount = toInteger(args[++i]);
+		if (amount <= 0) throw new RespError("invalid expire time in 'set' command");
+		options.ttl = option === "EX" ? amount * 1000 : amount;
+	}
+	if (options.onlyIfNotExists && options.onlyIfExists) throw new RespError("syntax error");
+
+	return options;
+}
+
+// Compiles a pattern of `KEYS` or `SCAN` as a Redis glob, whatever the `patternMode` of the instance
+function globMatcher(pattern: string | undefined): RegExp | undefined {
+	if (pattern === undefined) return undefined;
+	return patternToRegExp(compilePattern("", pattern, "glob"), "glob");
+}
+
+// Scans a page of keys and keeps the ones matching the pattern, pages may be shorter than `count` as in Redis
+function scanKeys(
+	db: IMiftahDB,
+	pattern: RegExp | undefined,
+	cursor: string | null,
+	count: number,
+): { keys: string[]; cursor: string | null } {
+	const page: ScanResult<unknown> = unwrap(db.scan({ cursor, count }));
+	const keys = page.entries.map((entry) => entry.key);
+
+	return { keys: pattern ? keys.filter((key) => pattern.test(key)) : keys, cursor: page.cursor };
+}
+
+// Reads every key matching a pattern page by page, `scan` never fails on an empty page unlike `keys`
+function allKeys(db: IMiftahDB, pattern: string): string[] {
+	const matcher = globMatcher(pattern);
+	const keys: string[] = [];
+	let cursor: string | null = null;
+	do {
+		const page = scanKeys(db, matcher, cursor, 1000);
+		keys.push(...page.keys);
+		cursor = page.cursor;
+	} while (cursor !== null);
+
+	return keys;
+}
+
+// Sets the expiration of an existing key, replies 1 if it was set and 0 if the key does not exist
+function expireAt(db: IMiftahDB, key: string, expiresAt: number): Reply {
+	if (!exists(db, key)) return 0;
+	if (expiresAt <= Date.now()) return unwrap(db.delete(key)) > 0 ? 1 : 0;
+
+	unwrap(db.setExpire(key, new Date(expiresAt)));
+	return 1;
+}
+
+// Replies with the time to live of a key in `unit` milliseconds, -2 if it does not exist and -1 if it does not expire
+function timeToLive(db: IMiftahDB, key: string, unit: number): Reply {
+	const result = db.ttl(key);
+	if (!result.success) return -2;
+	if (result.data === null) return -1;
+
+	return Math.round(result.data / unit);
+}
+
+type Command = (session: Session, args: Buffer[], root: IMiftahDB) => Reply;
+
+// Commands by name, with their number of arguments. A negative arity is a minimum, as in Redis.
+const COMMANDS: Record<string, { arity: number; run: Command }> = {
+	PING: { arity: -1, run: (_, args) => (args.length ? args[0] : { simple: "PONG" }) },
+	ECHO: { arity: 2, run: (_, [message]) => message },
+	QUIT: {
+		arity: 1,
+		run: (session) => {
+			session.quit = true;
+			return OK_REPLY;
+		},
+	},
+	HELLO: {
+		arity: -1,
+		run: (session, args) => {
+			if (args.length) {
+				const protocol = toInteger(args[0]);
+				if (protocol !== 2 && protocol !== 3)
+					throw new RespError("NOPROTO unsupported protocol version");
+				session.protocol = protocol;
+			}
+
+			return new Map<string, Reply>([
+				["server", "miftahdb"],
+				["proto", session.protocol],
+				["id", session.id],
+				["mode", "standalone"],
+				["role", "master"],
+				["modules", []],
+			]);
+		},
+	},
+	// Clients send it when they connect to discover the commands, none are described
+	COMMAND: { arity: -1, run: () => [] },
+	SELECT: {
+		arity: 2,
+		run: (session, [name], root) => {
+			const namespace = name.toString();
+			session.db = namespace === "0" ? root : root.namespace(namespace);
+			return OK_REPLY;
+		},
+	},
+	GET: { arity: 2, run: ({ db }, [key]) => getValue(db, key.toString()) },
+	SET: {
+		arity: -3,
+		run: ({ db }, [keyArg, value, ...rest]) => {
+			const key = keyArg.toString();
+			const options = setOptions(rest);
+
+			const result: Result<unknown> = db.set(key, fromBulk(value), options);
+			if (!result.success) {
+				// Unmet `NX` and `XX` conditions are replied as null, as in Redis
+				const found = exists(db, key);
+				if ((options.onlyIfNotExists && found) || (options.onlyIfExists && !found)) return null;
+				throw new RespError(result.error.message);
+			}
+
+			return options.returnPrevious ? toBulk(result.data) : OK_REPLY;
+		},
+	},
+	MGET: { arity: -2, run: ({ db }, keys) => keys.map((key) => getValue(db, key.toString())) },
+	MSET: {
+		arity: -3,
+		run: ({ db }, args) => {
+			if (args.length % 2) throw new RespError("wrong number of arguments for 'mset' command");
+
+			const entries = [];
+			for (let i = 0; i < args.length; i += 2) {
+				entries.push({ key: args[i].toString(), value: fromBulk(args[i + 1]) });
+			}
+			unwrap(db.multiSet(entries));
+			return OK_REPLY;
+		},
+	},
+	DEL: {
+		arity: -2,
+		run: ({ db }, keys) =>
+			keys.reduce((count, key) => count + unwrap(db.delete(key.toString())), 0),
+	},
+	EXISTS: {
+		arity: -2,
+		run: ({ db }, keys) => keys.filter((key) => exists(db, key.toString())).length,
+	},
+	EXPIRE: {
+		arity: 3,
+		run: ({ db }, [key, seconds]) =>
+			expireAt(db, key.toString(), Date.now() + toInteger(seconds) * 1000),
+	},
+	PEXPIRE: {
+		arity: 3,
+		run: ({ db }, [key, milliseconds]) =>
+			expireAt(db, key.toString(), Date.now() + toInteger(milliseconds)),
+	},
+	EXPIREAT: {
+		arity: 3,
+		run: ({ db }, [key, timestamp]) => expireAt(db, key.toString(), toInteger(timestamp) * 1000),
+	},
+	PEXPIREAT: {
+		arity: 3,
+		run: ({ db }, [key, timestamp]) => expireAt(db, key.toString(), toInteger(timestamp)),
+	},
+	TTL: { arity: 2, run: ({ db }, [key]) => timeToLive(db, key.toString(), 1000) },
+	PTTL: { arity: 2, run: ({ db }, [key]) => timeToLive(db, key.toString(), 1) },
+	PERSIST: {
+		arity: 2,
+		run: ({ db }, [keyArg]) => {
+			const key = keyArg.toString();
+			const ttl = db.ttl(key);
+			if (!ttl.success || ttl.data === null) return 0;
+
+			unwrap(db.persist(key));
+			return 1;
+		},
+	},
+	INCR: { arity: 2, run: ({ db }, [key]) => unwrap(db.increment(key.toString())) },
+	DECR: { arity: 2, run: ({ db }, [key]) => unwrap(db.decrement(key.toString())) },
+	INCRBY: {
+		arity: 3,
+		run: ({ db }, [key, amount]) => unwrap(db.increment(key.toString(), toInteger(amount))),
+	},
+	DECRBY: {
+		arity: 3,
+		run: ({ db }, [key, amount]) => unwrap(db.decrement(key.toString(), toInteger(amount))),
+	},
+	KEYS: { arity: 2, run: ({ db }, [pattern]) => allKeys(db, pattern.toString()) },
+	SCAN: {
+		arity: -2,
+		run: ({ db }, [cursor, ...rest]) => {
+			let pattern: string | undefined;
+			let count = 10;
+			for (let i = 0; i < rest.length; i += 2) {
+				const option = rest[i].toString().toUpperCase();
+				if (i + 1 >= rest.length) throw new RespError("syntax error");
+				if (option === "MATCH") pattern = rest[i + 1].toString();
+				else if (option === "COUNT") count = toInteger(rest[i + 1]);
+				else throw new RespError("syntax error");
+			}
+			if (count < 1) throw new RespError("syntax error");
+
+			const page = scanKeys(db, globMatcher(pattern), decodeCursor(cursor.toString()), count);
+			return [encodeCursor(page.cursor), page.keys];
+		},
+	},
+	DBSIZE: { arity: 1, run: ({ db }) => unwrap(db.count()) - unwrap(db.countExpired()) },
+	FLUSHDB: {
+		arity: -1,
+		run: ({ db }) => {
+			unwrap(db.flush());
+			return OK_REPLY;
+		},
+	},
+	RENAME: {
+		arity: 3,
+		run: ({ db }, [key, newKey]) => {
+			if (!exists(db, key.toString())) throw new RespError("no such key");
+
+			unwrap(db.rename(key.toString(), newKey.toString()));
+			return OK_REPLY;
+		},
+	},
+};
+
+// Runs a command, failures are replied as errors
+function runCommand(session: Session, root: IMiftahDB, [nameArg, ...args]: Buffer[]): Reply {
+	const name = nameArg.toString().toUpperCase();
+	const command = COMMANDS[name];
+	if (!command) return new RespError(`unknown command '${nameArg.toString()}'`);
+
+	const arity = args.length + 1;
+	if (command.arity >= 0 ? arity !== command.arity : arity < -command.arity) {
+		return new RespError(`wrong number of arguments for '${name.toLowerCase()}' command`);
+	}
+
+	try {
+		return command.run(session, args, root);
+	} catch (error) {
+		return error instanceof RespError
+			? error
+			: new RespError(String((error as Error)?.message ?? error));
+	}
+}
+
+// Runs pipelined commands until `QUIT`. Replies are encoded one by one, since `HELLO` changes the protocol of the next ones.
+function runCommands(session: Session, root: IMiftahDB, commands: Buffer[][]): Buffer {
+	const replies: Buffer[] = [];
+	for (const command of commands) {
+		replies.push(encodeReply(runCommand(session, root, command), session.protocol));
+		if (session.quit) break;
+	}
+
+	return Buffer.concat(replies);
+}
+
+/**
+ * Creates a server speaking the Redis protocol (RESP2, or RESP3 after `HELLO 3`) on top of a MiftahDB instance,
+ * so that Redis clients can use it without adapters. The server is listening when it is returned.
+ *
+ * Supported commands are `GET`, `SET` (with `EX`, `PX`, `NX`, `XX`, `KEEPTTL` and `GET`), `MGET`, `MSET`, `DEL`, `EXISTS`,
+ * `EXPIRE`, `PEXPIRE`, `EXPIREAT`, `PEXPIREAT`, `TTL`, `PTTL`, `PERSIST`, `INCR`, `DECR`, `INCRBY`, `DECRBY`, `KEYS`,
+ * `SCAN` (with `MATCH` and `COUNT`), `DBSIZE`, `FLUSHDB`, `RENAME`, `SELECT`, `PING`, `ECHO`, `HELLO` and `QUIT`.
+ * `SELECT` switches the connection to the namespace of the given name, `0` being the instance itself.
+ * Patterns of `KEYS` and `SCAN` are read as Redis globs, whatever the `patternMode` of the instance.
+ *
+ * @param {IMiftahDB} db - The instance the commands run on.
+ * @param {RespServerOptions} [options] - Optional. The port and host to listen on, defaults to `6379` on `127.0.0.1`.
+ * @returns {Server} The `node:net` server, close it with `server.close()`.
+ * @example
+ * const db = new MiftahDB("cache.db");
+ * const server = createRespServer(db, { port: 6380 });
+ * // redis-cli -p 6380 SET greeting hello EX 60
+ */
+export function createRespServer(db: IMiftahDB, options: RespServerOptions = {}): Server {
+	const { port = 6379, host = "127.0.0.1" } = options;
+	let nextId = 1;
+
+	const server = createServer((socket) => {
+		const session: Session = { id: nextId++, db, protocol: 2, quit: false };
+		let pending: Buffer = Buffer.alloc(0);
+
+		socket.on("data", (chunk: Buffer) => {
+			pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+
+			try {
+				const { commands, offset } = parseCommands(pending);
+				pending = pending.subarray(offset);
+
+				const replies = runCommands(session, db, commands);
+				if (session.quit) socket.end(replies);
+				else if (replies.length) socket.write(replies);
+			} catch (error) {
+				// Protocol errors leave the stream unreadable, the connection is closed as Redis does
+				socket.end(encodeReply(error as RespError, session.protocol));
+			}
+		});
+		// Clients resetting the connection should not crash the server
+		socket.on("error", () => socket.destroy());
+	});
+
+	server.listen(port, host);
+	return server;
+}
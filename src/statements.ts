@@ -1,20 +1,152 @@
+// Key matching of the pattern statements, the namespace prefix is bound first and matched case-sensitively
+// with GLOB, unlike LIKE. Patterns use `\` to escape `%` and `_`.
+export const LIKE_MATCH = "key GLOB ? AND key LIKE ? ESCAPE '\\'";
+
+// Replaces `LIKE_MATCH` in the pattern statements of instances that use glob patterns
+export const GLOB_MATCH = "key GLOB ? AND key GLOB ?";
+
+// Name under which `diff` and `syncFrom` attach the other database
+export const OTHER = "miftahDB_other";
+
+// Checks if the rows of a data type key differ between the two databases, the key row being aliased `ours`
+const dataDiffers = (table: string, columns: string) => `
+  EXISTS (
+    SELECT ${columns} FROM main.${table} WHERE key = ours.key
+    EXCEPT SELECT ${columns} FROM ${OTHER}.${table} WHERE key = ours.key
+  ) OR EXISTS (
+    SELECT ${columns} FROM ${OTHER}.${table} WHERE key = ours.key
+    EXCEPT SELECT ${columns} FROM main.${table} WHERE key = ours.key
+  )`;
+
 export const SQL_STATEMENTS = {
 	// Creates the table
 	CREATE_TABLE: `
     CREATE TABLE IF NOT EXISTS miftahDB (
       key TEXT PRIMARY KEY,
       value BLOB,
-      expires_at INTEGER
+      expires_at INTEGER,
+      version INTEGER NOT NULL DEFAULT 1,
+      modified_at INTEGER
     ) WITHOUT ROWID;
   `,
 
+	// Creates the table holding the highest version ever given to a key, seeded from the existing keys.
+	// The trigger keeps it up to date, so that versions are never reused after a key is deleted.
+	CREATE_VERSION_SEQUENCE: `
+    CREATE TABLE IF NOT EXISTS miftahDB_sequence (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      version INTEGER NOT NULL
+    );
+    INSERT OR IGNORE INTO miftahDB_sequence (id, version)
+      SELECT 1, COALESCE(MAX(version), 0) FROM miftahDB;
+    CREATE TRIGGER IF NOT EXISTS miftahDB_version_sequence AFTER INSERT ON miftahDB
+    BEGIN
+      UPDATE miftahDB_sequence SET version = NEW.version WHERE NEW.version > version;
+    END;
+  `,
+
+	// Gets the highest version given to a key, which is the version of the last written row
+	VERSION_SEQUENCE: "SELECT version FROM miftahDB_sequence",
+
+	// Creates the table holding the format version and creation info of the file
+	CREATE_META_TABLE: `
+    CREATE TABLE IF NOT EXISTS miftahDB_meta (
+      key TEXT PRIMARY KEY,
+      value TEXT
+    ) WITHOUT ROWID;
+  `,
+
+	// Gets an entry of the meta table
+	GET_META: "SELECT value FROM miftahDB_meta WHERE key = ?",
+
+	// Sets an entry of the meta table
+	SET_META: "INSERT OR REPLACE INTO miftahDB_meta (key, value) VALUES (?, ?)",
+
+	// Checks if a table exists, to tell new files from files created before the meta table
+	HAS_TABLE: "SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name = ?",
+
+	// Checks if the table of a schema has a column, databases created by older releases lack the newer ones
+	HAS_COLUMN: "SELECT COUNT(*) AS count FROM pragma_table_info('miftahDB', ?) WHERE name = ?",
+
+	// Adds the version column to databases created by older releases
+	ADD_VERSION_COLUMN: "ALTER TABLE miftahDB ADD COLUMN version INTEGER NOT NULL DEFAULT 1",
+
+	// Adds the last write time column to databases created by older releases, existing keys have none
+	ADD_MODIFIED_AT_COLUMN: "ALTER TABLE miftahDB ADD COLUMN modified_at INTEGER",
+
+	// Renumbers the elements of every list from 0, closing the gaps left by removed elements
+	COMPACT_LISTS: `
+    CREATE TEMP TABLE miftahDB_list_compacted AS
+      SELECT key, row_number() OVER (PARTITION BY key ORDER BY position) - 1 AS position, value
+      FROM miftahDB_list;
+    DELETE FROM miftahDB_list;
+    INSERT INTO miftahDB_list (key, position, value)
+      SELECT key, position, value FROM miftahDB_list_compacted;
+    DROP TABLE miftahDB_list_compacted;
+  `,
+
 	// Creates an index on the expires_at column for efficient expiration checking
 	CREATE_INDEX:
 		"CREATE INDEX IF NOT EXISTS idx_expires_at ON miftahDB(expires_at) WHERE expires_at IS NOT NULL",
 
+	// Creates the hash fields table, each field row belongs to a key row in the main table
+	CREATE_HASH_TABLE: `
+    CREATE TABLE IF NOT EXISTS miftahDB_hash (
+      key TEXT NOT NULL REFERENCES miftahDB(key) ON DELETE CASCADE ON UPDATE CASCADE,
+      field TEXT NOT NULL,
+      value BLOB,
+      PRIMARY KEY (key, field)
+    ) WITHOUT ROWID;
+  `,
+
+	// Creates the list elements table, elements are ordered by position within each key
+	CREATE_LIST_TABLE: `
+    CREATE TABLE IF NOT EXISTS miftahDB_list (
+      key TEXT NOT NULL REFERENCES miftahDB(key) ON DELETE CASCADE ON UPDATE CASCADE,
+      position INTEGER NOT NULL,
+      value BLOB,
+      PRIMARY KEY (key, position)
+    ) WITHOUT ROWID;
+  `,
+
+	// Creates the set members table, members are stored encoded
+	CREATE_SET_TABLE: `
+    CREATE TABLE IF NOT EXISTS miftahDB_set (
+      key TEXT NOT NULL REFERENCES miftahDB(key) ON DELETE CASCADE ON UPDATE CASCADE,
+      member BLOB NOT NULL,
+      PRIMARY KEY (key, member)
+    ) WITHOUT ROWID;
+  `,
+
+	// Creates the sorted set members table
+	CREATE_ZSET_TABLE: `
+    CREATE TABLE IF NOT EXISTS miftahDB_zset (
+      key TEXT NOT NULL REFERENCES miftahDB(key) ON DELETE CASCADE ON UPDATE CASCADE,
+      member BLOB NOT NULL,
+      score REAL NOT NULL,
+      PRIMARY KEY (key, member)
+    ) WITHOUT ROWID;
+  `,
+
+	// Creates an index on the score column for efficient range queries on sorted sets
+	CREATE_ZSET_INDEX:
+		"CREATE INDEX IF NOT EXISTS idx_zset_score ON miftahDB_zset(key, score, member)",
+
+	// Creates the change log, AUTOINCREMENT keeps sequences from being reused once the log is truncated
+	CREATE_CHANGES_TABLE: `
+    CREATE TABLE IF NOT EXISTS miftahDB_changes (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      op TEXT NOT NULL,
+      key TEXT,
+      expires_at INTEGER,
+      timestamp INTEGER NOT NULL
+    )
+  `,
+
 	// PRAGMA statements
 	CREATE_PRAGMA: `
   PRAGMA wal_checkpoint;
+  PRAGMA foreign_keys = ON;
   PRAGMA journal_mode = %journal_mode;
   PRAGMA synchronous = %synchronous_mode;
   PRAGMA temp_store = %temp_store_mode;
@@ -26,25 +158,130 @@ export const SQL_STATEMENTS = {
   `,
 
 	// Gets a row from the table
-	GET: "SELECT value, expires_at FROM miftahDB WHERE key = ?",
+	GET: "SELECT value, expires_at, version FROM miftahDB WHERE key = ?",
 
-	// Sets a row in the table
-	SET: "INSERT OR REPLACE INTO miftahDB (key, value, expires_at) VALUES (?, ?, ?)",
+	// Sets a row in the table with the next version of the sequence
+	SET: `
+    INSERT OR REPLACE INTO miftahDB (key, value, expires_at, version, modified_at)
+    VALUES (?, ?, ?, (SELECT version FROM miftahDB_sequence) + 1, ?)
+  `,
+
+	// Records the time a key was last written, for the data of hashes, lists, sets and sorted sets
+	TOUCH: "UPDATE miftahDB SET modified_at = ? WHERE key = ?",
 
 	// Deletes a row from the table
 	DELETE: "DELETE FROM miftahDB WHERE key = ?",
 
 	// Deletes expired rows from the table
-	CLEANUP: "DELETE FROM miftahDB WHERE expires_at IS NOT NULL AND expires_at <= ? AND key LIKE ?",
+	CLEANUP: `DELETE FROM miftahDB WHERE expires_at IS NOT NULL AND expires_at <= ? AND ${LIKE_MATCH}`,
+
+	// Returns the expired keys that match the given pattern
+	GET_EXPIRED_KEYS: `SELECT key FROM miftahDB WHERE expires_at IS NOT NULL AND expires_at <= ? AND ${LIKE_MATCH}`,
+
+	// Deletes a batch of expired rows using the expires_at index and returns their keys
+	SWEEP:
+		"DELETE FROM miftahDB WHERE key IN (SELECT key FROM miftahDB WHERE expires_at IS NOT NULL AND expires_at <= ? LIMIT ?) RETURNING key",
 
 	// Renames a key in the table
 	RENAME: "UPDATE miftahDB SET key = ? WHERE key = ?",
 
+	// Appends a change to the change log
+	APPEND_CHANGE:
+		"INSERT INTO miftahDB_changes (op, key, expires_at, timestamp) VALUES (?, ?, ?, ?)",
+
+	// Gets the changes after a sequence, flushes are returned whatever the pattern
+	CHANGES_SINCE: `
+    SELECT seq, op, key, expires_at, timestamp FROM miftahDB_changes
+    WHERE seq > ? AND (${LIKE_MATCH} OR op = 'flush')
+    ORDER BY seq LIMIT ?
+  `,
+
+	// Gets the last sequence given to a change, which is kept when the change log is truncated
+	CURRENT_SEQUENCE:
+		"SELECT COALESCE(MAX(seq), 0) AS seq FROM sqlite_sequence WHERE name = 'miftahDB_changes'",
+
+	// Deletes the changes before a sequence
+	TRUNCATE_CHANGES: "DELETE FROM miftahDB_changes WHERE seq < ?",
+
+	// Attaches the database compared by `diff` and `syncFrom`
+	ATTACH_OTHER: `ATTACH DATABASE ? AS ${OTHER}`,
+
+	// Detaches the database compared by `diff` and `syncFrom`
+	DETACH_OTHER: `DETACH DATABASE ${OTHER}`,
+
+	// Gets the live keys of the other database that are missing or expired in this one
+	DIFF_ADDED: `
+    SELECT key FROM ${OTHER}.miftahDB AS theirs
+    WHERE ${LIKE_MATCH} AND (expires_at IS NULL OR expires_at > ?)
+    AND NOT EXISTS (
+      SELECT 1 FROM main.miftahDB AS ours
+      WHERE ours.key = theirs.key AND (ours.expires_at IS NULL OR ours.expires_at > ?)
+    )
+    ORDER BY key
+  `,
+
+	// Gets the live keys of this database that are missing or expired in the other one
+	DIFF_REMOVED: `
+    SELECT key FROM main.miftahDB AS ours
+    WHERE ${LIKE_MATCH} AND (expires_at IS NULL OR expires_at > ?)
+    AND NOT EXISTS (
+      SELECT 1 FROM ${OTHER}.miftahDB AS theirs
+      WHERE theirs.key = ours.key AND (theirs.expires_at IS NULL OR theirs.expires_at > ?)
+    )
+    ORDER BY key
+  `,
+
+	// Gets the keys live in both databases whose value, expiration or data differ, list elements are compared by rank
+	DIFF_CHANGED: `
+    SELECT key FROM main.miftahDB AS ours
+    WHERE ${LIKE_MATCH} AND (expires_at IS NULL OR expires_at > ?)
+    AND EXISTS (
+      SELECT 1 FROM ${OTHER}.miftahDB AS theirs
+      WHERE theirs.key = ours.key AND (theirs.expires_at IS NULL OR theirs.expires_at > ?)
+      AND (
+        theirs.value IS NOT ours.value OR theirs.expires_at IS NOT ours.expires_at
+        OR ${dataDiffers("miftahDB_hash", "field, value")}
+        OR ${dataDiffers("miftahDB_list", "row_number() OVER (ORDER BY position), value")}
+        OR ${dataDiffers("miftahDB_set", "member")}
+        OR ${dataDiffers("miftahDB_zset", "member, score")}
+      )
+    )
+    ORDER BY key
+  `,
+
+	// Checks if a key of the other database was written after the same key of this one, keys never written since
+	// the last write time was recorded are the oldest
+	SYNC_IS_NEWER: `
+    SELECT COALESCE((SELECT modified_at FROM ${OTHER}.miftahDB WHERE key = ?), 0)
+      > COALESCE((SELECT modified_at FROM main.miftahDB WHERE key = ?), 0) AS newer
+  `,
+
+	// Copy a key of the other database and its data, the key must have been deleted first.
+	// The copy takes the next version of this database, versions of the other one are not comparable.
+	SYNC_COPY_KEY: `
+    INSERT INTO main.miftahDB (key, value, expires_at, version, modified_at)
+    SELECT key, value, expires_at, (SELECT version FROM main.miftahDB_sequence) + 1, modified_at
+    FROM ${OTHER}.miftahDB WHERE key = ?
+  `,
+	SYNC_COPY_HASH: `INSERT INTO main.miftahDB_hash (key, field, value) SELECT key, field, value FROM ${OTHER}.miftahDB_hash WHERE key = ?`,
+	SYNC_COPY_LIST: `INSERT INTO main.miftahDB_list (key, position, value) SELECT key, position, value FROM ${OTHER}.miftahDB_list WHERE key = ?`,
+	SYNC_COPY_SET: `INSERT INTO main.miftahDB_set (key, member) SELECT key, member FROM ${OTHER}.miftahDB_set WHERE key = ?`,
+	SYNC_COPY_ZSET: `INSERT INTO main.miftahDB_zset (key, member, score) SELECT key, member, score FROM ${OTHER}.miftahDB_zset WHERE key = ?`,
+
 	// Optimizes the database file, reducing its size
 	VACUUM: "VACUUM",
 
+	// Writes a compacted copy of the database to a new file, used for backups where the online backup API is missing
+	VACUUM_INTO: "VACUUM INTO ?",
+
+	// Gets the number of pages of the database
+	PAGE_COUNT: "PRAGMA page_count",
+
+	// Gets the size of a page of the database
+	PAGE_SIZE: "PRAGMA page_size",
+
 	// Deletes all rows
-	FLUSH: "DELETE FROM miftahDB WHERE key LIKE ?",
+	FLUSH: `DELETE FROM miftahDB WHERE ${LIKE_MATCH}`,
 
 	// Returns if the key exists in the table
 	EXISTS: "SELECT EXISTS (SELECT 1 FROM miftahDB WHERE key = ? LIMIT 1)",
@@ -53,25 +290,168 @@ export const SQL_STATEMENTS = {
 	GET_EXPIRE: "SELECT expires_at FROM miftahDB WHERE key = ?",
 
 	// Updates the expiration date for the given key
-	SET_EXPIRE: "UPDATE miftahDB SET expires_at = ? WHERE key = ?",
+	SET_EXPIRE: "UPDATE miftahDB SET expires_at = ?, modified_at = ? WHERE key = ?",
 
 	// Removes the expiration date for the given key
-	PERSIST: "UPDATE miftahDB SET expires_at = NULL WHERE key = ?",
+	PERSIST: "UPDATE miftahDB SET expires_at = NULL, modified_at = ? WHERE key = ?",
 
 	// Returns all keys that match the given pattern
-	KEYS: "SELECT key FROM miftahDB WHERE key LIKE ?",
+	KEYS: `SELECT key FROM miftahDB WHERE ${LIKE_MATCH}`,
 
 	// Returns all keys that match the given pattern with pagination
-	PAGINATION: "SELECT key FROM miftahDB WHERE key LIKE ? LIMIT ? OFFSET ?",
+	PAGINATION: `SELECT key FROM miftahDB WHERE ${LIKE_MATCH} LIMIT ? OFFSET ?`,
+
+	// Returns the next live keys after the cursor that match the given pattern, in key order,
+	// along with the first byte of their value which tells the type of the key
+	SCAN_KEYS: `SELECT key, substr(value, 1, 1) AS value, expires_at FROM miftahDB WHERE ${LIKE_MATCH} AND key > ? AND (expires_at IS NULL OR expires_at > ?) ORDER BY key LIMIT ?`,
+
+	// Returns the next live rows after the cursor that match the given pattern, in key order
+	SCAN_ROWS: `SELECT key, value, expires_at FROM miftahDB WHERE ${LIKE_MATCH} AND key > ? AND (expires_at IS NULL OR expires_at > ?) ORDER BY key LIMIT ?`,
 
 	// Returns an array of keys that have expired between the given start and end dates
-	GET_EXPIRED_RANGE:
-		"SELECT key FROM miftahDB WHERE key LIKE ? AND expires_at >= ? AND expires_at <= ?",
+	GET_EXPIRED_RANGE: `SELECT key FROM miftahDB WHERE ${LIKE_MATCH} AND expires_at >= ? AND expires_at <= ?`,
 
 	// Counts the total number of rows
-	COUNT_KEYS: "SELECT COUNT(*) AS count FROM miftahDB where key LIKE ?",
+	COUNT_KEYS: `SELECT COUNT(*) AS count FROM miftahDB where ${LIKE_MATCH}`,
 
 	// Counts the number of expired rows
-	COUNT_EXPIRED:
-		"SELECT COUNT(*) as count FROM miftahDB WHERE (expires_at IS NOT NULL AND expires_at <= ?) AND key LIKE ?",
+	COUNT_EXPIRED: `SELECT COUNT(*) as count FROM miftahDB WHERE (expires_at IS NOT NULL AND expires_at <= ?) AND ${LIKE_MATCH}`,
+
+	// Returns the distinct names of the namespaces holding live keys after the given prefix, the first
+	// and last parameters are the separator and the second one is where the names start in the keys
+	LIST_NAMESPACES: `
+    SELECT DISTINCT substr(rest, 1, instr(rest, ?) - 1) AS name
+    FROM (SELECT substr(key, ?) AS rest FROM miftahDB WHERE ${LIKE_MATCH} AND (expires_at IS NULL OR expires_at > ?))
+    WHERE instr(rest, ?) > 1
+    ORDER BY name
+  `,
+
+	// Sums the bytes of the keys and values that match the given pattern, data type rows included
+	NAMESPACE_BYTES: `
+    SELECT
+      (SELECT COALESCE(SUM(length(CAST(key AS BLOB)) + COALESCE(length(value), 0)), 0) FROM miftahDB WHERE ${LIKE_MATCH}) +
+      (SELECT COALESCE(SUM(length(CAST(field AS BLOB)) + COALESCE(length(value), 0)), 0) FROM miftahDB_hash WHERE ${LIKE_MATCH}) +
+      (SELECT COALESCE(SUM(COALESCE(length(value), 0)), 0) FROM miftahDB_list WHERE ${LIKE_MATCH}) +
+      (SELECT COALESCE(SUM(length(member)), 0) FROM miftahDB_set WHERE ${LIKE_MATCH}) +
+      (SELECT COALESCE(SUM(length(member)), 0) FROM miftahDB_zset WHERE ${LIKE_MATCH}) AS bytes
+  `,
+
+	// Sets a field of a hash
+	HSET: "INSERT OR REPLACE INTO miftahDB_hash (key, field, value) VALUES (?, ?, ?)",
+
+	// Gets a field of a hash
+	HGET: "SELECT value FROM miftahDB_hash WHERE key = ? AND field = ?",
+
+	// Gets all fields of a hash
+	HGETALL: "SELECT field, value FROM miftahDB_hash WHERE key = ? ORDER BY field",
+
+	// Deletes a field of a hash
+	HDEL: "DELETE FROM miftahDB_hash WHERE key = ? AND field = ?",
+
+	// Counts the fields of a hash
+	HLEN: "SELECT COUNT(*) AS count FROM miftahDB_hash WHERE key = ?",
+
+	// Inserts an element of a list at the given position
+	LIST_INSERT: "INSERT INTO miftahDB_list (key, position, value) VALUES (?, ?, ?)",
+
+	// Returns the head and tail positions of a list, each one is a single lookup on the primary key
+	LIST_BOUNDS: `
+    SELECT
+      (SELECT MIN(position) FROM miftahDB_list WHERE key = ?) AS head,
+      (SELECT MAX(position) FROM miftahDB_list WHERE key = ?) AS tail
+  `,
+
+	// Returns the element of a list at the given position
+	LIST_AT: "SELECT value FROM miftahDB_list WHERE key = ? AND position = ?",
+
+	// Returns the elements of a list between two positions
+	LRANGE:
+		"SELECT value FROM miftahDB_list WHERE key = ? AND position BETWEEN ? AND ? ORDER BY position",
+
+	// Deletes the element of a list at the given position
+	LIST_DELETE_AT: "DELETE FROM miftahDB_list WHERE key = ? AND position = ?",
+
+	// Moves an element of a list to another position
+	LIST_MOVE: "UPDATE miftahDB_list SET position = ? WHERE key = ? AND position = ?",
+
+	// Deletes the elements of a list outside the given positions
+	LTRIM: "DELETE FROM miftahDB_list WHERE key = ? AND (position < ? OR position > ?)",
+
+	// Returns the elements of a list with their positions, from the head
+	LIST_ELEMENTS: "SELECT position, value FROM miftahDB_list WHERE key = ? ORDER BY position ASC",
+
+	// Returns the elements of a list with their positions, from the tail
+	LIST_ELEMENTS_REVERSE:
+		"SELECT position, value FROM miftahDB_list WHERE key = ? ORDER BY position DESC",
+
+	// Adds a member to a set
+	SADD: "INSERT OR IGNORE INTO miftahDB_set (key, member) VALUES (?, ?)",
+
+	// Removes a member from a set
+	SREM: "DELETE FROM miftahDB_set WHERE key = ? AND member = ?",
+
+	// Returns if the member belongs to a set
+	SISMEMBER: "SELECT EXISTS (SELECT 1 FROM miftahDB_set WHERE key = ? AND member = ?) AS found",
+
+	// Returns all members of a set
+	SMEMBERS: "SELECT member FROM miftahDB_set WHERE key = ?",
+
+	// Counts the members of a set
+	SCARD: "SELECT COUNT(*) AS count FROM miftahDB_set WHERE key = ?",
+
+	// Returns the members found in every one of the given sets (JSON array of keys, number of keys)
+	SINTER:
+		"SELECT member FROM miftahDB_set WHERE key IN (SELECT value FROM json_each(?)) GROUP BY member HAVING COUNT(*) = ?",
+
+	// Returns the members found in any of the given sets (JSON array of keys)
+	SUNION: "SELECT DISTINCT member FROM miftahDB_set WHERE key IN (SELECT value FROM json_each(?))",
+
+	// Returns the members of a set that are not found in any of the given sets (JSON array of keys)
+	SDIFF: `
+    SELECT member FROM miftahDB_set WHERE key = ? AND member NOT IN (
+      SELECT member FROM miftahDB_set WHERE key IN (SELECT value FROM json_each(?))
+    )
+  `,
+
+	// Adds a member to a sorted set or updates its score
+	ZADD: "INSERT OR REPLACE INTO miftahDB_zset (key, member, score) VALUES (?, ?, ?)",
+
+	// Returns the score of a sorted set member
+	ZSCORE: "SELECT score FROM miftahDB_zset WHERE key = ? AND member = ?",
+
+	// Returns the number of members ranked before the given score and member
+	ZRANK:
+		"SELECT COUNT(*) AS rank FROM miftahDB_zset WHERE key = ? AND (score < ? OR (score = ? AND member < ?))",
+
+	// Returns a range of members of a sorted set ordered by score
+	ZRANGE:
+		"SELECT member, score FROM miftahDB_zset WHERE key = ? ORDER BY score, member LIMIT ? OFFSET ?",
+
+	// Returns the members of a sorted set with a score between the given bounds
+	ZRANGE_BY_SCORE:
+		"SELECT member, score FROM miftahDB_zset WHERE key = ? AND score >= ? AND score <= ? ORDER BY score, member LIMIT ? OFFSET ?",
+
+	// Removes a member from a sorted set
+	ZREM: "DELETE FROM miftahDB_zset WHERE key = ? AND member = ?",
+
+	// Counts the members of a sorted set
+	ZCARD: "SELECT COUNT(*) AS count FROM miftahDB_zset WHERE key = ?",
+
+	// Returns a batch of rows whose keys match a pattern, after a given key (keyset pagination)
+	ROWS_AFTER: `SELECT key, value FROM miftahDB WHERE ${LIKE_MATCH} AND key > ? ORDER BY key LIMIT ?`,
+
+	// Replaces the stored bytes of a value without bumping its version
+	UPDATE_VALUE: "UPDATE miftahDB SET value = ? WHERE key = ?",
+
+	// Replaces the stored bytes of a hash field
+	UPDATE_HASH_VALUE: "UPDATE miftahDB_hash SET value = ? WHERE key = ? AND field = ?",
+
+	// Replaces the stored bytes of a list element
+	UPDATE_LIST_VALUE: "UPDATE miftahDB_list SET value = ? WHERE key = ? AND position = ?",
+
+	// Replaces the stored bytes of a set member
+	UPDATE_SET_MEMBER: "UPDATE miftahDB_set SET member = ? WHERE key = ? AND member = ?",
+
+	// Replaces the stored bytes of a sorted set member
+	UPDATE_ZSET_MEMBER: "UPDATE miftahDB_zset SET member = ? WHERE key = ? AND member = ?",
 };
@@ -0,0 +1,75 @@
+import type { SweepStats } from "./types";
+
+interface ExpirySweeperOptions {
+	// Time between sweeps in milliseconds
+	interval: number;
+	// Maximum number of rows deleted per batch
+	batchSize: number;
+	// Time budget of a sweep, no new batch is started once it is spent
+	maxDurationMs: number;
+}
+
+// Periodically deletes expired rows in small batches, so that no sweep holds the write lock for long
+export class ExpirySweeper {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private readonly stats: SweepStats = {
+		runs: 0,
+		deletedKeys: 0,
+		lastRunAt: null,
+		lastDeletedKeys: 0,
+		lastDurationMs: 0,
+		errors: 0,
+		lastError: null,
+	};
+
+	constructor(
+		private readonly options: ExpirySweeperOptions,
+		// Deletes at most `batchSize` expired rows and returns how many were deleted
+		private readonly deleteBatch: (now: number, batchSize: number) => number,
+	) {}
+
+	start(): void {
+		if (this.timer || this.options.interval <= 0) return;
+
+		this.timer = setInterval(() => this.sweep(), this.options.interval);
+		// The sweeper should never keep the process alive on its own
+		this.timer.unref?.();
+	}
+
+	stop(): void {
+		if (!this.timer) return;
+
+		clearInterval(this.timer);
+		this.timer = null;
+	}
+
+	sweep(): number {
+		const startedAt = Date.now();
+		let deletedKeys = 0;
+
+		try {
+			while (true) {
+				const deleted = this.deleteBatch(Date.now(), this.options.batchSize);
+				deletedKeys += deleted;
+
+				if (deleted < this.options.batchSize) break;
+				if (Date.now() - startedAt >= this.options.maxDurationMs) break;
+			}
+		} catch (error) {
+			this.stats.errors++;
+			this.stats.lastError = error instanceof Error ? error : new Error(String(error));
+		}
+
+		this.stats.runs++;
+		this.stats.deletedKeys += deletedKeys;
+		this.stats.lastRunAt = new Date(startedAt);
+		this.stats.lastDeletedKeys = deletedKeys;
+		this.stats.lastDurationMs = Date.now() - startedAt;
+
+		return deletedKeys;
+	}
+
+	getStats(): SweepStats {
+		return { ...this.stats };
+	}
+}
@@ -1,3 +1,5 @@
+import type { IncomingMessage } from "node:http";
+
 /**
  * The possible types of values that can be stored in MiftahDB.
  * This includes common JavaScript primitives, objects, arrays, Date, Buffer, Uint8Array, and null.
@@ -13,6 +15,340 @@ export type MiftahValue =
 	| Buffer
 	| null;
 
+/**
+ * The kind of data a key holds.
+ * `"value"` is a plain value written by `set`, the others are data types with their own storage.
+ */
+export type KeyType = "value" | "hash" | "list" | "set" | "zset";
+
+/**
+ * Converts values to bytes and back. Each serializer is identified by the marker byte stored in front of
+ * the values it wrote, so that rows are always decoded with the serializer that encoded them.
+ * Binary values (`Uint8Array` and `Buffer`) are stored as is and never go through a serializer.
+ */
+export interface Serializer {
+	/** The marker byte, custom serializers must use one between `0x20` and `0xff`. */
+	marker: number;
+	/** The name of the serializer, used in error messages. */
+	name: string;
+	/** Converts a value to bytes. */
+	encode(value: MiftahValue): Uint8Array;
+	/** Converts bytes written by `encode` back to a value. */
+	decode(bytes: Uint8Array): MiftahValue;
+}
+
+/**
+ * A member of a sorted set along with its score.
+ */
+export interface ZSetEntry<T> {
+	/** The member value. */
+	member: T;
+	/** The score the member is ordered by. */
+	score: number;
+}
+
+/**
+ * Options of `set`, which make the write conditional or control the expiration of the key.
+ */
+export interface SetOptions {
+	/** Expires the key after this many milliseconds. */
+	ttl?: number;
+	/** Expires the key at this date, or at this timestamp in milliseconds (epoch time). */
+	expiresAt?: Date | number;
+	/** Only sets the key if it does not exist. */
+	onlyIfNotExists?: boolean;
+	/** Only sets the key if it already exists. */
+	onlyIfExists?: boolean;
+	/** Keeps the current expiration of the key instead of removing it. */
+	keepTtl?: boolean;
+	/** Returns the previous value of the key, or `null` if it did not exist, instead of `true`. */
+	returnPrevious?: boolean;
+}
+
+/**
+ * Options of `getEx`, exactly one of them must be given.
+ */
+export type GetExOptions =
+	| { ttl: number; expiresAt?: never; persist?: never }
+	| { expiresAt: Date | number; ttl?: never; persist?: never }
+	| { persist: true; ttl?: never; expiresAt?: never };
+
+/**
+ * A value along with the version and expiration of its key.
+ */
+export interface VersionedValue<T> {
+	/** The stored value. */
+	value: T;
+	/** The version of the key, bumped every time the key is written. */
+	version: number;
+	/** The expiration date of the key, or null if the key does not expire. */
+	expiresAt: Date | null;
+}
+
+/**
+ * Options of `scan`.
+ */
+export interface ScanOptions {
+	/** Pattern the keys must match, see the `patternMode` option. Defaults to every key in the current namespace. */
+	pattern?: string;
+	/** The cursor returned by the previous call, omit it or pass `null` to start from the first key. */
+	cursor?: string | null;
+	/** The maximum number of entries to return, defaults to `100`. */
+	count?: number;
+	/** Whether to read and decode the values along with the keys, defaults to `false`. */
+	includeValues?: boolean;
+}
+
+/**
+ * A key returned by `scan` or `iterate`.
+ */
+export interface ScanEntry<T> {
+	/** The key, without the namespace prefix. */
+	key: string;
+	/** The type of the key. */
+	type: KeyType;
+	/**
+	 * The value of the key, only read when `includeValues` is set.
+	 * Hashes, lists, sets and sorted sets have a `null` value, use their own methods to read them.
+	 */
+	value?: T | null;
+	/** The expiration date of the key, or null if the key does not expire. */
+	expiresAt: Date | null;
+}
+
+/**
+ * The size of a namespace, as returned by `namespaceStats`.
+ */
+export interface NamespaceStats {
+	/** The number of keys, expired keys included. */
+	keys: number;
+	/** The number of expired keys that were not deleted yet. */
+	expiredKeys: number;
+	/** The total bytes of the keys and values, the fields and members of data types included. */
+	bytes: number;
+}
+
+/**
+ * A page of keys returned by `scan`.
+ */
+export interface ScanResult<T> {
+	/** The entries of the page, in key order. */
+	entries: ScanEntry<T>[];
+	/** The cursor to pass to the next call, or `null` once every key has been returned. */
+	cursor: string | null;
+}
+
+/**
+ * The kind of change recorded in the change log. A rename is recorded as a `delete` of the old key and a `set` of the new one,
+ * `persist` as an `expire` without expiration.
+ */
+export type ChangeOp = "set" | "delete" | "expire" | "increment" | "flush";
+
+/**
+ * The methods that write hashes, lists, sets and sorted sets, named in the `set` and `delete` events they publish.
+ */
+export type DataTypeOperation =
+	| "hset"
+	| "hdel"
+	| "hincrby"
+	| "lpush"
+	| "rpush"
+	| "lpop"
+	| "rpop"
+	| "ltrim"
+	| "lrem"
+	| "rpoplpush"
+	| "sadd"
+	| "srem"
+	| "zadd"
+	| "zincrby"
+	| "zrem";
+
+/**
+ * A change returned by `changesSince`.
+ */
+export interface ChangeLogEntry {
+	/** The sequence of the change, increasing and never reused. */
+	seq: number;
+	/** The kind of change. */
+	op: ChangeOp;
+	/**
+	 * The changed key, without the namespace prefix.
+	 * For a flush, the full path of the flushed namespace, or `null` when the whole database was flushed.
+	 */
+	key: string | null;
+	/** The expiration date of the key after the change, or null if it does not expire or was deleted. */
+	expiresAt: Date | null;
+	/** When the change was made. */
+	timestamp: Date;
+}
+
+/**
+ * Options of `changesSince`.
+ */
+export interface ChangesSinceOptions {
+	/** The maximum number of changes to return, defaults to `100`. */
+	limit?: number;
+	/**
+	 * Pattern the changed keys must match, see the `patternMode` option. Defaults to every key in the current namespace.
+	 * Flushes are returned whatever the pattern.
+	 */
+	pattern?: string;
+}
+
+/**
+ * Options of `diff`.
+ */
+export interface DiffOptions {
+	/** Pattern the keys must match, see the `patternMode` option. Defaults to every key in the current namespace. */
+	pattern?: string;
+}
+
+/**
+ * The differences between two databases returned by `diff`, keys are in key order and without the namespace prefix.
+ */
+export interface DiffResult {
+	/** The keys only found in the other database. */
+	added: string[];
+	/** The keys only found in this database. */
+	removed: string[];
+	/** The keys found in both databases whose value, expiration or data differ. */
+	changed: string[];
+}
+
+/**
+ * How `syncFrom` resolves the keys found in both databases with different values.
+ * - `"theirs"`: the key of the other database is copied, and the keys it does not have are deleted.
+ * - `"ours"`: the key of this database is kept, only missing keys are copied.
+ * - `"newest"`: the key written last, by the time of its last write, is kept. Ties keep the key of this database.
+ */
+export type SyncStrategy = "theirs" | "ours" | "newest";
+
+/**
+ * Options of `syncFrom`.
+ */
+export interface SyncOptions {
+	/** How changed keys are resolved, defaults to `"theirs"`. */
+	strategy?: SyncStrategy;
+	/** Pattern the keys must match, see the `patternMode` option. Defaults to every key in the current namespace. */
+	pattern?: string;
+	/** The number of keys copied per transaction, defaults to `500`. */
+	batchSize?: number;
+}
+
+/**
+ * The keys copied by `syncFrom`.
+ */
+export interface SyncResult {
+	/** The number of keys that were missing from this database. */
+	added: number;
+	/** The number of changed keys replaced by the key of the other database. */
+	updated: number;
+	/** The number of keys missing from the other database that were deleted, always `0` unless the strategy is `"theirs"`. */
+	removed: number;
+}
+
+/**
+ * Options of `createRespServer`.
+ */
+export interface RespServerOptions {
+	/** The port to listen on, defaults to `6379`. Pass `0` to pick a free port. */
+	port?: number;
+	/** The host to listen on, defaults to `127.0.0.1`. */
+	host?: string;
+}
+
+/**
+ * Options of `createHttpServer`.
+ */
+export interface HttpServerOptions {
+	/** The port to listen on, defaults to `8080`. Pass `0` to pick a free port. */
+	port?: number;
+	/** The host to listen on, defaults to `127.0.0.1`. */
+	host?: string;
+	/** The path the routes are served under, such as `/admin/db`. Defaults to the root. */
+	basePath?: string;
+	/**
+	 * A token that requests must send as `Authorization: Bearer <token>`, or a function telling whether a request is allowed.
+	 * Defaults to allowing every request.
+	 */
+	auth?: string | ((request: IncomingMessage) => boolean);
+}
+
+/**
+ * The progress of `backup` or `restore`, in database pages.
+ */
+export interface BackupProgress {
+	/** The number of pages of the database being copied. */
+	totalPages: number;
+	/** The number of pages left to copy, `0` once the copy is complete. */
+	remainingPages: number;
+}
+
+/**
+ * Options of `backup` and `restore`.
+ */
+export interface BackupOptions {
+	/** Called after every step of the copy, the last call has `remainingPages` at `0`. */
+	progress?: (progress: BackupProgress) => void;
+	/**
+	 * The number of pages copied per step, other queries can run between steps. Defaults to `100`.
+	 * Bun has no online backup API and in-memory databases are restored from a file read at once,
+	 * in both cases the whole database is copied in a single step.
+	 */
+	pagesPerStep?: number;
+}
+
+/**
+ * The file formats of `exportTo`: a JSON array, or one JSON record per line.
+ */
+export type ExportFormat = "json" | "ndjson";
+
+/**
+ * A key as written by `exportTo` and read by `importFrom`.
+ * Binary values are written as `{ "$binary": "<base64>" }` and dates as `{ "$date": "<ISO date>" }`.
+ */
+export interface ExportRecord {
+	/** The key, without the namespace prefix. */
+	key: string;
+	/** The type of the key. */
+	type: KeyType;
+	/**
+	 * The value of the key. Hashes are objects of their fields, lists and sets are arrays
+	 * and sorted sets are arrays of `{ member, score }` entries.
+	 */
+	value: unknown;
+	/** The expiration date of the key as an ISO date, or null if the key does not expire. */
+	expiresAt: string | null;
+}
+
+/**
+ * Options of `exportTo`.
+ */
+export interface ExportOptions {
+	/** Pattern the keys must match, see the `patternMode` option. Defaults to every key in the current namespace. */
+	pattern?: string;
+	/** The file format, defaults to `"ndjson"`. */
+	format?: ExportFormat;
+	/** The number of keys read per transaction, defaults to `500`. */
+	batchSize?: number;
+}
+
+/**
+ * Options of `importFrom`.
+ */
+export interface ImportOptions {
+	/**
+	 * `"merge"` keeps the keys missing from the file and overwrites the others,
+	 * `"replace"` deletes every key of the current namespace first. Defaults to `"merge"`.
+	 */
+	mode?: "merge" | "replace";
+	/** Whether to skip the keys that expired since they were exported, defaults to `true`. */
+	skipExpired?: boolean;
+	/** The number of keys written per transaction, defaults to `500`. */
+	batchSize?: number;
+}
+
 /**
  * Represents an item as stored internally in the MiftahDB.
  */
@@ -21,6 +357,8 @@ export interface MiftahDBItem {
 	value: Uint8Array;
 	/** The expiration timestamp in milliseconds (epoch time), or null if the key does not expire. */
 	expires_at: number | null;
+	/** The version of the row, bumped every time the key is written. */
+	version: number;
 }
 
 /**
@@ -52,12 +390,161 @@ export type Result<TData, TError extends Error = Error> =
  */
 export type PromiseResult<TData, TError extends Error = Error> = Promise<Result<TData, TError>>;
 
+/**
+ * The payloads of the key change events, by event name.
+ * `key` is never prefixed, `namespace` is the namespace of the instance that made the change (`null` for the root).
+ * Expired keys deleted by the sweeper are published by the root, with their full key and a `null` namespace.
+ * Expiration timestamps are in milliseconds (epoch time), or `null` if the key does not expire.
+ */
+export interface MiftahDBEvents {
+	/**
+	 * A value was written with `set`, `getSet` or `multiSet`, or a hash, list, set or sorted set was written by `operation`.
+	 * `previousExpiresAt` is `null` if the key did not exist or did not expire.
+	 */
+	set: {
+		key: string;
+		namespace: string | null;
+		expiresAt: number | null;
+		previousExpiresAt: number | null;
+		operation?: DataTypeOperation;
+	};
+	/**
+	 * A key was deleted. `expired` is `true` when the key was removed because it expired, and `operation` is set when
+	 * a hash, list, set or sorted set was removed along with its last element.
+	 */
+	delete: {
+		key: string;
+		namespace: string | null;
+		expired: boolean;
+		operation?: DataTypeOperation;
+	};
+	/** A key was renamed to `newKey`. */
+	rename: { key: string; newKey: string; namespace: string | null };
+	/** The expiration of a key was changed with `setExpire` or `getEx`, or removed with `persist`. */
+	expire: {
+		key: string;
+		namespace: string | null;
+		expiresAt: number | null;
+		previousExpiresAt: number | null;
+	};
+	/** All keys of a namespace, or of the whole database, were removed with `flush`. */
+	flush: { namespace: string | null; count: number };
+	/** A numeric value was changed with `increment` or `decrement`. `amount` is negative for `decrement`. */
+	increment: { key: string; namespace: string | null; amount: number; value: number };
+}
+
+/**
+ * The name of a key change event.
+ */
+export type MiftahDBEventType = keyof MiftahDBEvents;
+
+/**
+ * A function called with the payload of a key change event.
+ */
+export type MiftahDBEventHandler<E extends MiftahDBEventType> = (
+	payload: MiftahDBEvents[E],
+) => void;
+
+/**
+ * The locking mode of a transaction, see https://www.sqlite.org/lang_transaction.html
+ * - `deferred` takes the locks when the first statement needs them.
+ * - `immediate` takes the write lock right away, so that the transaction cannot fail later with `SQLITE_BUSY`.
+ * - `exclusive` also prevents other connections from reading, outside of WAL mode.
+ */
+export type TransactionMode = "deferred" | "immediate" | "exclusive";
+
+/**
+ * Options of `transaction`.
+ */
+export interface TransactionOptions {
+	/** The locking mode of the transaction. Defaults to `deferred`, ignored for nested transactions. */
+	mode?: TransactionMode;
+}
+
+/**
+ * Statistics of the background expiry sweeper, see the `cleanupInterval` option.
+ */
+export interface SweepStats {
+	/** The number of sweeps run so far. */
+	runs: number;
+	/** The total number of expired keys deleted by the sweeper. */
+	deletedKeys: number;
+	/** When the last sweep started, or `null` if none ran yet. */
+	lastRunAt: Date | null;
+	/** The number of expired keys deleted by the last sweep. */
+	lastDeletedKeys: number;
+	/** How long the last sweep took, in milliseconds. */
+	lastDurationMs: number;
+	/** The number of sweeps that failed, for example because the database was locked by another process. */
+	errors: number;
+	/** The error of the last failed sweep, or `null`. */
+	lastError: Error | null;
+}
+
+/**
+ * The latencies of an operation, counted in buckets.
+ */
+export interface LatencyHistogram {
+	/** The upper bounds of the buckets in milliseconds. */
+	bounds: number[];
+	/** The number of calls per bucket, not cumulative. The last entry counts the calls slower than every bound. */
+	counts: number[];
+	/** The total time of the calls in milliseconds. */
+	sumMs: number;
+}
+
+/**
+ * The calls of a method since the database was opened.
+ */
+export interface OperationStats {
+	/** The number of calls. */
+	calls: number;
+	/** The number of calls that returned a failed result. */
+	errors: number;
+	/** The latencies of the calls. */
+	latency: LatencyHistogram;
+}
+
+/**
+ * Runtime statistics returned by `stats`.
+ */
+export interface DBStats {
+	/** The number of keys in the current namespace, expired keys included. */
+	keys: number;
+	/** The number of expired keys in the current namespace that were not deleted yet. */
+	expiredKeys: number;
+	/** The number of pages of the database. */
+	pageCount: number;
+	/** The size of a page in bytes. */
+	pageSize: number;
+	/** The size of the database file in bytes, `0` for in-memory databases. */
+	fileSize: number;
+	/** The size of the write-ahead log file in bytes, `0` when there is none. */
+	walSize: number;
+	/** The number of `get` calls that found their key. */
+	getHits: number;
+	/** The number of `get` calls on missing or expired keys. */
+	getMisses: number;
+	/**
+	 * The calls of the public methods by name. Calls made by another method, such as the `get` calls of `multiGet`,
+	 * are part of the calling method, including calls made by async methods after an `await`. Calls made by the
+	 * callback of `transaction` are recorded.
+	 */
+	operations: Record<string, OperationStats>;
+}
+
 /**
  * Interface for the MiftahDB class, defining its public API for key-value storage operations.
  *
  * @template T The default type for values stored and retrieved if not specified by a more specific generic.
  */
-export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
+export interface IMiftahDB<T extends MiftahValue | object = MiftahValue> {
+	/** The name this instance was created with by `namespace`, or `null` for the root instance. */
+	readonly namespaceName: string | null;
+
+	/** The instance `namespace` was called on, or `null` for the root instance. */
+	readonly parent: IMiftahDB<T> | null;
+
 	/**
 	 * Retrieves a value from the database by its key.
 	 *
@@ -75,7 +562,7 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	 *   console.log(result.error.message);
 	 * }
 	 */
-	get<K extends T>(key: string): Result<K>; // Changed T to K to match jsdoc
+	get<K extends T = T>(key: string): Result<K>; // Changed T to K to match jsdoc
 
 	/**
 	 * Sets a value in the database with an optional expiration.
@@ -97,7 +584,74 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	 * db.set('tempKey', 'temporary value', 60000); // Expires in 1 minute
 	 * db.set('archiveKey', 'data', new Date('2030-12-31'));
 	 */
-	set<K extends T>(key: string, value: K, expiresAt?: Date | number): Result<boolean>;
+	set<K extends T = T>(key: string, value: K, expiresAt?: Date | number): Result<boolean>;
+
+	/**
+	 * Sets a value in the database, with options making the write conditional or controlling the expiration.
+	 * The check and the write happen in a single transaction, which makes it suitable for locks and deduplication.
+	 *
+	 * @template K The type of the value being stored. Must extend `MiftahValue`.
+	 * @param {string} key - The key under which to store the value.
+	 * @param {K} value - The value to store.
+	 * @param {SetOptions} options - `ttl` or `expiresAt` set the expiration, `keepTtl` keeps the current one.
+	 *                               `onlyIfNotExists` and `onlyIfExists` make the write conditional.
+	 *                               `returnPrevious` returns the previous value instead of `true`.
+	 * @returns {Result<boolean | K | null>} The result of the operation. `data` is `true`, or the previous value
+	 *                                       (`null` if the key did not exist) when `returnPrevious` is set.
+	 * @throws {Error} "Key already exists, cannot set." if `onlyIfNotExists` is set and the key exists.
+	 * @throws {Error} "Key not found, cannot set." if `onlyIfExists` is set and the key does not exist.
+	 * @throws {Error} If the options conflict with each other.
+	 * @example
+	 * // Acquires a lock for 30 seconds, fails if another process holds it
+	 * const lock = db.set("lock:report", process.pid, { onlyIfNotExists: true, ttl: 30000 });
+	 *
+	 * // Updates a session without touching its expiration
+	 * db.set("session:1234", session, { onlyIfExists: true, keepTtl: true });
+	 */
+	set<K extends T = T>(
+		key: string,
+		value: K,
+		options: SetOptions & { returnPrevious: true },
+	): Result<K | null>;
+	set<K extends T = T>(key: string, value: K, options: SetOptions): Result<boolean>;
+
+	/**
+	 * Retrieves a value and deletes its key in a single transaction.
+	 *
+	 * @template K The expected type of the value.
+	 * @param {string} key - The key to retrieve and delete.
+	 * @returns {Result<K>} The result of the operation. `data` contains the deleted value.
+	 * @throws {Error} "Key not found, cannot getDel." or "Key expired, cannot getDel."
+	 * @example
+	 * const token = db.getDel<string>("reset-token:1234"); // Can only be used once
+	 */
+	getDel<K extends T = T>(key: string): Result<K>;
+
+	/**
+	 * Retrieves a value and changes the expiration of its key in a single transaction.
+	 *
+	 * @template K The expected type of the value.
+	 * @param {string} key - The key to retrieve.
+	 * @param {GetExOptions} options - `ttl` in milliseconds, an `expiresAt` date or timestamp, or `persist` to remove the expiration.
+	 * @returns {Result<K>} The result of the operation. `data` contains the value.
+	 * @throws {Error} "Key not found, cannot getEx." or "Key expired, cannot getEx."
+	 * @example
+	 * // Reads a session and extends it by 30 minutes
+	 * const session = db.getEx("session:1234", { ttl: 30 * 60 * 1000 });
+	 */
+	getEx<K extends T = T>(key: string, options: GetExOptions): Result<K>;
+
+	/**
+	 * Sets a value and returns the previous one in a single transaction. Like `set`, the expiration is removed.
+	 *
+	 * @template K The type of the value being stored. Must extend `MiftahValue`.
+	 * @param {string} key - The key under which to store the value.
+	 * @param {K} value - The value to store.
+	 * @returns {Result<K | null>} The result of the operation. `data` contains the previous value, or `null` if the key did not exist.
+	 * @example
+	 * const previous = db.getSet("config:mode", "maintenance");
+	 */
+	getSet<K extends T = T>(key: string, value: K): Result<K | null>;
 
 	/**
 	 * Checks if a key exists in the database and is not expired.
@@ -133,11 +687,12 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	 * Renames a key in the database.
 	 * If the old key does not exist, the operation will not affect any rows but won't throw "not found".
 	 * If the new key already exists, it will be overwritten.
+	 * Encrypted values are bound to their key, so they are encrypted again for the new key.
 	 *
 	 * @param {string} oldKey - The current key name.
 	 * @param {string} newKey - The new key name.
 	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if successful.
-	 * @throws {Error} If a database error occurs during rename.
+	 * @throws {Error} If a database error occurs during rename, or a value of the key cannot be decrypted.
 	 * @example
 	 * if (db.rename('user:old_id', 'user:new_id').success) {
 	 *   console.log('Key renamed successfully.');
@@ -248,10 +803,10 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	decrement(key: string, amount?: number): Result<number>;
 
 	/**
-	 * Retrieves keys matching a SQL LIKE pattern.
+	 * Retrieves keys matching a pattern, see the `patternMode` option.
 	 * Use `%` to match any sequence of characters (including none) and `_` to match any single character.
 	 *
-	 * @param {string} [pattern="%"] - Optional SQL LIKE pattern. Defaults to `"%"` (matches all keys).
+	 * @param {string} [pattern] - Optional key pattern. Defaults to matching all keys.
 	 * @returns {Result<string[]>} The result of the operation. `data` contains an array of matching keys.
 	 *                            Returns an empty array if no keys match (this is a success case).
 	 * @throws {Error} "No keys found, cannot get keys." if no keys match the pattern.
@@ -264,11 +819,11 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	keys(pattern?: string): Result<string[]>;
 
 	/**
-	 * Retrieves a paginated list of keys matching a SQL LIKE pattern.
+	 * Retrieves a paginated list of keys matching a pattern.
 	 *
 	 * @param {number} limit - The maximum number of keys to return per page.
 	 * @param {number} page - The page number to retrieve (1-based index).
-	 * @param {string} [pattern="%"] - Optional SQL LIKE pattern. Defaults to `"%"` (matches all keys in the current namespace).
+	 * @param {string} [pattern] - Optional key pattern. Defaults to matching all keys in the current namespace.
 	 * @returns {Result<string[]>} The result of the operation. `data` contains an array of keys for the requested page.
 	 *                            Returns an empty array if no keys match or the page is out of bounds (success case).
 	 * @throws {Error} "No keys found, cannot get pagination." if no keys are found for the given criteria.
@@ -279,12 +834,48 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	 */
 	pagination(limit: number, page: number, pattern?: string): Result<string[]>;
 
+	/**
+	 * Walks the keys matching a pattern in key order, one page at a time. Unlike `pagination`,
+	 * the cursor points at the last returned key, so keys written or deleted between calls never
+	 * shift the pages. Expired keys are skipped.
+	 *
+	 * @template K The expected type of the values.
+	 * @param {ScanOptions} [options] - The pattern, cursor, page size and whether to read the values.
+	 * @returns {Result<ScanResult<K>>} The result of the operation. `data` contains the entries and the next cursor,
+	 *                                  which is `null` once every key has been returned.
+	 * @example
+	 * let cursor: string | null = null;
+	 * do {
+	 *   const result = db.scan({ pattern: "user:%", cursor, count: 50 });
+	 *   if (!result.success) break;
+	 *   for (const entry of result.data.entries) console.log(entry.key);
+	 *   cursor = result.data.cursor;
+	 * } while (cursor !== null);
+	 */
+	scan<K extends T = T>(options?: ScanOptions): Result<ScanResult<K>>;
+
+	/**
+	 * Iterates over the keys matching a pattern in key order, along with their values and
+	 * expiration dates. Keys are read in batches with `scan`, so the whole keyspace is never loaded at once.
+	 *
+	 * @template K The expected type of the values.
+	 * @param {string} [pattern] - Optional key pattern. Defaults to matching all keys in the current namespace.
+	 * @param {number} [batchSize=100] - The number of keys read per batch.
+	 * @returns {Generator<ScanEntry<K>>} A generator of entries.
+	 * @throws {Error} Unlike the other methods, errors are thrown by the generator instead of being returned.
+	 * @example
+	 * for (const { key, value, expiresAt } of db.iterate("user:%")) {
+	 *   console.log(key, value, expiresAt);
+	 * }
+	 */
+	iterate<K extends T = T>(pattern?: string, batchSize?: number): Generator<ScanEntry<K>>;
+
 	/**
 	 * Returns an array of keys that have an expiration date falling within the given start and end dates (inclusive).
 	 *
 	 * @param {Date | number} start - The start of the date range (as `Date` object or epoch milliseconds).
 	 * @param {Date | number} end - The end of the date range (as `Date` object or epoch milliseconds).
-	 * @param {string} [pattern="%"] - Optional SQL LIKE pattern to filter keys further. Defaults to `"%"`
+	 * @param {string} [pattern] - Optional key pattern to filter keys further. Defaults to matching all keys.
 	 * @returns {Result<string[]>} An array of keys that expired or will expire within the specified range.
 	 *                            Returns an empty array if no such keys are found (success case).
 	 * @throws {Error} "No keys found, cannot get expiredRange." if no keys match the criteria.
@@ -297,7 +888,7 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	/**
 	 * Counts the number of keys in the database, optionally matching a pattern.
 	 *
-	 * @param {string} [pattern="%"] - Optional SQL LIKE pattern. Defaults to `"%"` (counts all keys in the current namespace).
+	 * @param {string} [pattern] - Optional key pattern. Defaults to counting all keys in the current namespace.
 	 * @returns {Result<number>} The result of the operation. `data` contains the total number of matching keys.
 	 * @throws {Error} If a database error occurs.
 	 * @example
@@ -309,7 +900,7 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	/**
 	 * Counts the number of keys that are currently expired, optionally matching a pattern.
 	 *
-	 * @param {string} [pattern="%"] - Optional SQL LIKE pattern. Defaults to `"%"` (counts all expired keys in the current namespace).
+	 * @param {string} [pattern] - Optional key pattern. Defaults to counting all expired keys in the current namespace.
 	 * @returns {Result<number>} The result of the operation. `data` contains the number of currently expired keys.
 	 * @throws {Error} If a database error occurs.
 	 * @example
@@ -334,7 +925,7 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	 *   usersResult.data.forEach(user => console.log(user.name));
 	 * }
 	 */
-	multiGet<K extends T>(keys: string[]): Result<K[]>; // Changed T to K
+	multiGet<K extends T = T>(keys: string[]): Result<K[]>; // Changed T to K
 
 	/**
 	 * Sets multiple key-value pairs in the database with optional expirations.
@@ -350,7 +941,7 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	 *   { key: 'product:10', value: { price: 99 }, expiresAt: 3600000 }
 	 * ]);
 	 */
-	multiSet<K extends T>(
+	multiSet<K extends T = T>(
 		entries: Array<{ key: string; value: K; expiresAt?: Date | number }>,
 	): Result<boolean>;
 
@@ -369,103 +960,879 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	multiDelete(keys: string[]): Result<number>;
 
 	/**
-	 * Optimizes the database file by rebuilding it, which can reduce its size and improve performance.
-	 * This operation can be time-consuming on large databases.
+	 * Retrieves a value along with the version of its key, for use with `setIfVersion`.
+	 * Every write to a key gives it a new version, versions are never reused even after the key is deleted.
 	 *
-	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if successful.
-	 * @throws {Error} If a database error occurs during vacuuming.
+	 * @template K The expected type of the value.
+	 * @param {string} key - The key to retrieve.
+	 * @returns {Result<VersionedValue<K>>} The result of the operation. `data` contains the value, version and expiration.
+	 * @throws {Error} "Key not found, cannot getWithVersion." or "Key expired, cannot getWithVersion."
 	 * @example
-	 * if (db.vacuum().success) console.log("Database vacuumed successfully.");
+	 * const result = db.getWithVersion<number>("counter");
+	 * if (result.success) console.log(result.data.value, result.data.version);
 	 */
-	vacuum(): Result<boolean>;
+	getWithVersion<K extends T = T>(key: string): Result<VersionedValue<K>>;
 
 	/**
-	 * Closes the database connection.
-	 * Performs a final WAL checkpoint and any configured cleanup before closing.
+	 * Sets a value only if the key is still at the expected version, so that concurrent
+	 * read-modify-write cycles do not overwrite each other.
+	 * Like `set`, the key's expiration is replaced by `expiresAt`.
 	 *
-	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if successful.
-	 * @throws {Error} If an error occurs during closing or pre-close operations.
+	 * @template K The type of the value being stored. Must extend `MiftahValue`.
+	 * @param {string} key - The key under which to store the value.
+	 * @param {K} value - The value to store.
+	 * @param {number} expectedVersion - The version read with `getWithVersion`, or `0` to only set a missing key.
+	 * @param {Date | number} [expiresAt] - Optional. The expiration for the key.
+	 * @returns {Result<number>} The result of the operation. `data` contains the new version of the key.
+	 * @throws {ConflictError} If the key is not at the expected version.
 	 * @example
-	 * db.close();
+	 * const current = db.getWithVersion<number>("counter");
+	 * if (current.success) {
+	 *   const result = db.setIfVersion("counter", current.data.value + 1, current.data.version);
+	 *   if (!result.success && result.error instanceof ConflictError) console.log("Retry");
+	 * }
 	 */
-	close(): Result<boolean>;
+	setIfVersion<K extends T = T>(
+		key: string,
+		value: K,
+		expectedVersion: number,
+		expiresAt?: Date | number,
+	): Result<number>;
 
 	/**
-	 * Removes all expired key-value pairs from the database.
-	 * This operation only affects keys within the current namespace if one is active.
+	 * Sets a value only if the key currently holds the expected value.
+	 * Values are compared on their encoded bytes, so `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }` are different values.
+	 * Like `set`, the key's expiration is replaced by `expiresAt`.
 	 *
-	 * @returns {Result<number>} The result of the operation. `data` contains the number of rows (expired keys) removed.
-	 * @throws {Error} If a database error occurs during cleanup.
+	 * @template K The type of the value being stored. Must extend `MiftahValue`.
+	 * @param {string} key - The key under which to store the value.
+	 * @param {K} expectedValue - The value the key must currently hold.
+	 * @param {K} newValue - The value to store.
+	 * @param {Date | number} [expiresAt] - Optional. The expiration for the key.
+	 * @returns {Result<number>} The result of the operation. `data` contains the new version of the key.
+	 * @throws {Error} "Key not found, cannot compareAndSwap." if the key does not exist or is expired.
+	 * @throws {ConflictError} If the key holds a different value.
 	 * @example
-	 * const cleanupResult = db.cleanup();
-	 * if (cleanupResult.success) console.log(`Cleaned up ${cleanupResult.data} expired keys.`);
+	 * db.set("status", "pending");
+	 * db.compareAndSwap("status", "pending", "running"); // Succeeds
+	 * db.compareAndSwap("status", "pending", "running"); // Fails with a ConflictError
 	 */
-	cleanup(): Result<number>;
+	compareAndSwap<K extends T = T>(
+		key: string,
+		expectedValue: K,
+		newValue: K,
+		expiresAt?: Date | number,
+	): Result<number>;
 
 	/**
-	 * Removes all key-value pairs from the database.
-	 * If a namespace is active, only keys within that namespace are removed.
+	 * Sets a field of the hash stored at a key, creating the hash if it does not exist.
+	 * Each field is stored as its own row, so writing a field does not re-encode the rest of the hash.
+	 * The hash shares the key's expiration, set it with `setExpire` like any other key.
 	 *
-	 * @returns {Result<number>} The result of the operation. `data` contains the number of rows (keys) removed.
-	 * @throws {Error} If a database error occurs during flush.
+	 * @template K The type of the value being stored. Must extend `MiftahValue`.
+	 * @param {string} key - The key of the hash.
+	 * @param {string} field - The field to set.
+	 * @param {K} value - The value to store in the field.
+	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if successful.
+	 * @throws {Error} If the key holds a value that is not a hash.
 	 * @example
-	 * const flushResult = db.flush();
-	 * if (flushResult.success) console.log(`Flushed ${flushResult.data} keys.`);
+	 * db.hset("user:1234", "name", "Ahmad");
+	 * db.hset("user:1234", "age", 30);
 	 */
-	flush(): Result<number>;
+	hset<K extends T = T>(key: string, field: string, value: K): Result<boolean>;
 
 	/**
-	 * Executes a raw SQL statement and returns the result.
-	 * Use with caution, especially with user-provided input, to avoid SQL injection vulnerabilities.
+	 * Retrieves a field of the hash stored at a key.
 	 *
-	 * @param {string} sql - The SQL statement to execute.
-	 * @param {unknown[]} [params=[]] - Optional parameters to bind to the SQL statement.
-	 * @returns {Result<unknown[] | import("better-sqlite3").RunResult>} The result of the operation.
-	 *          For SELECT queries, `data` is an array of rows.
-	 *          For INSERT, UPDATE, DELETE, `data` is a `RunResult` object (from `better-sqlite3`).
-	 * @throws {Error} If the SQL is invalid or a database error occurs.
+	 * @template K The expected type of the field value. Defaults to `T`.
+	 * @param {string} key - The key of the hash.
+	 * @param {string} field - The field to look up.
+	 * @returns {Result<K>} The result of the operation. If successful, `data` contains the field value.
+	 * @throws {Error} "Key not found, cannot hget." if the key does not exist or has expired.
+	 * @throws {Error} "Field not found, cannot hget." if the field does not exist.
+	 * @throws {Error} If the key holds a value that is not a hash.
 	 * @example
-	 * const selectRes = db.execute("SELECT * FROM miftahdb WHERE key LIKE ?", ["user:%"]);
-	 * if (selectRes.success) console.log(selectRes.data);
+	 * const nameResult = db.hget<string>("user:1234", "name");
+	 * if (nameResult.success) console.log(nameResult.data);
 	 */
-	execute(sql: string, params?: unknown[]): Result<unknown>; // `unknown` is simpler than RunResult | unknown[] union
+	hget<K extends T = T>(key: string, field: string): Result<K>;
 
 	/**
-	 * Asynchronously backups the current in-memory or disk-based database to a specified file path.
-	 * The entire database content is serialized.
+	 * Retrieves multiple fields of the hash stored at a key.
 	 *
-	 * @param {string} path - The file path where the backup should be saved.
-	 * @returns {PromiseResult<boolean>} A promise resolving to the result of the operation. `data` is `true` on success.
-	 * @throws {Error} If an error occurs during database serialization or file writing.
+	 * @template K The expected type of the field values.
+	 * @param {string} key - The key of the hash.
+	 * @param {string[]} fields - The fields to look up.
+	 * @returns {Result<(K | null)[]>} The result of the operation. `data` contains the field values in the
+	 *                                order of `fields`, with `null` for missing fields.
+	 * @throws {Error} "No fields provided, cannot hmget." if the `fields` array is empty.
+	 * @throws {Error} "Key not found, cannot hmget." if the key does not exist or has expired.
 	 * @example
-	 * async function performBackup() {
-	 *   const backupResult = await db.backup("my_database_backup.db");
-	 *   if (backupResult.success) console.log("Backup successful!");
-	 * }
+	 * const [name, age] = db.hmget("user:1234", ["name", "age"]).data;
 	 */
-	backup(path: string): PromiseResult<boolean>;
+	hmget<K extends T = T>(key: string, fields: string[]): Result<(K | null)[]>;
 
 	/**
-	 * Asynchronously restores the database from a backup file.
-	 * This replaces the current database content with the content from the backup.
+	 * Retrieves all fields of the hash stored at a key.
 	 *
-	 * @param {string} path - The path to the backup file to restore from.
-	 * @returns {PromiseResult<boolean>} A promise resolving to the result of the operation. `data` is `true` on success.
-	 * @throws {Error} If an error occurs during file reading or database deserialization/reinitialization.
+	 * @template K The expected type of the field values.
+	 * @param {string} key - The key of the hash.
+	 * @returns {Result<Record<string, K>>} The result of the operation. `data` contains an object of fields and values.
+	 * @throws {Error} "Key not found, cannot hgetall." if the key does not exist or has expired.
 	 * @example
-	 * async function performRestore() {
-	 *   const restoreResult = await db.restore("my_database_backup.db");
-	 *   if (restoreResult.success) console.log("Restore successful!");
-	 * }
+	 * const userResult = db.hgetall("user:1234");
+	 * if (userResult.success) console.log(userResult.data); // { age: 30, name: "Ahmad" }
 	 */
-	restore(path: string): PromiseResult<boolean>;
+	hgetall<K extends T = T>(key: string): Result<Record<string, K>>;
 
 	/**
-	 * Creates a new MiftahDB instance that is bound to a specific namespace.
+	 * Deletes one or more fields of the hash stored at a key.
+	 * The key itself is deleted once its last field is removed.
+	 *
+	 * @param {string} key - The key of the hash.
+	 * @param {string | string[]} fields - The field or fields to delete.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of fields deleted.
+	 * @throws {Error} If the key holds a value that is not a hash.
+	 * @example
+	 * db.hdel("user:1234", "age");
+	 * db.hdel("user:1234", ["name", "email"]);
+	 */
+	hdel(key: string, fields: string | string[]): Result<number>;
+
+	/**
+	 * Counts the fields of the hash stored at a key.
+	 *
+	 * @param {string} key - The key of the hash.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of fields, `0` if the key does not exist.
+	 * @throws {Error} If the key holds a value that is not a hash.
+	 * @example
+	 * const fieldCount = db.hlen("user:1234").data;
+	 */
+	hlen(key: string): Result<number>;
+
+	/**
+	 * Atomically increments the numeric value of a hash field by a given amount.
+	 * If the field does not exist, it is initialized to the `amount`.
+	 *
+	 * @param {string} key - The key of the hash.
+	 * @param {string} field - The field whose numeric value to increment.
+	 * @param {number} [amount=1] - The amount to increment by. Defaults to 1.
+	 * @returns {Result<number>} The result of the operation. `data` contains the new numeric value.
+	 * @throws {Error} "Increment amount must be a valid number." if `amount` is not a valid number.
+	 * @throws {Error} If the existing value of the field is not a number.
+	 * @example
+	 * db.hincrby("user:1234", "visits"); // visits is now 1
+	 * db.hincrby("user:1234", "visits", 5); // visits is now 6
+	 */
+	hincrby(key: string, field: string, amount?: number): Result<number>;
+
+	/**
+	 * Inserts values at the head of the list stored at a key, creating the list if it does not exist.
+	 * Values are inserted one after the other, so the last value ends up first.
+	 * Each element is stored as its own row, so pushing does not re-encode the rest of the list.
+	 *
+	 * @template K The type of the values being stored. Must extend `MiftahValue`.
+	 * @param {string} key - The key of the list.
+	 * @param {...K} values - The values to insert.
+	 * @returns {Result<number>} The result of the operation. `data` contains the length of the list after the push.
+	 * @throws {Error} "No values provided, cannot lpush." if no values are given.
+	 * @throws {Error} If the key holds a value that is not a list.
+	 * @example
+	 * db.lpush("tasks", "b", "a"); // tasks is now ["a", "b"]
+	 */
+	lpush<K extends T = T>(key: string, ...values: K[]): Result<number>;
+
+	/**
+	 * Inserts values at the tail of the list stored at a key, creating the list if it does not exist.
+	 *
+	 * @template K The type of the values being stored. Must extend `MiftahValue`.
+	 * @param {string} key - The key of the list.
+	 * @param {...K} values - The values to insert.
+	 * @returns {Result<number>} The result of the operation. `data` contains the length of the list after the push.
+	 * @throws {Error} "No values provided, cannot rpush." if no values are given.
+	 * @throws {Error} If the key holds a value that is not a list.
+	 * @example
+	 * db.rpush("tasks", "a", "b"); // tasks is now ["a", "b"]
+	 */
+	rpush<K extends T = T>(key: string, ...values: K[]): Result<number>;
+
+	/**
+	 * Removes and returns the first element of the list stored at a key.
+	 * The key is deleted once its last element is removed.
+	 *
+	 * @template K The expected type of the element.
+	 * @param {string} key - The key of the list.
+	 * @returns {Result<K>} The result of the operation. `data` contains the removed element.
+	 * @throws {Error} "Key not found, cannot lpop." if the key does not exist or has expired.
+	 * @example
+	 * const next = db.lpop<string>("tasks");
+	 */
+	lpop<K extends T = T>(key: string): Result<K>;
+
+	/**
+	 * Removes and returns the last element of the list stored at a key.
+	 * The key is deleted once its last element is removed.
+	 *
+	 * @template K The expected type of the element.
+	 * @param {string} key - The key of the list.
+	 * @returns {Result<K>} The result of the operation. `data` contains the removed element.
+	 * @throws {Error} "Key not found, cannot rpop." if the key does not exist or has expired.
+	 * @example
+	 * const last = db.rpop<string>("tasks");
+	 */
+	rpop<K extends T = T>(key: string): Result<K>;
+
+	/**
+	 * Retrieves a range of elements of the list stored at a key.
+	 * `start` and `stop` are inclusive zero-based indexes, negative indexes count from the tail (`-1` is the last element).
+	 *
+	 * @template K The expected type of the elements.
+	 * @param {string} key - The key of the list.
+	 * @param {number} [start=0] - The index of the first element. Defaults to 0.
+	 * @param {number} [stop=-1] - The index of the last element. Defaults to -1.
+	 * @returns {Result<K[]>} The result of the operation. `data` contains the elements, empty if the key does not exist.
+	 * @throws {Error} If the key holds a value that is not a list.
+	 * @example
+	 * const all = db.lrange("tasks").data;
+	 * const firstThree = db.lrange("tasks", 0, 2).data;
+	 */
+	lrange<K extends T = T>(key: string, start?: number, stop?: number): Result<K[]>;
+
+	/**
+	 * Returns the length of the list stored at a key.
+	 *
+	 * @param {string} key - The key of the list.
+	 * @returns {Result<number>} The result of the operation. `data` contains the length, `0` if the key does not exist.
+	 * @throws {Error} If the key holds a value that is not a list.
+	 * @example
+	 * const length = db.llen("tasks").data;
+	 */
+	llen(key: string): Result<number>;
+
+	/**
+	 * Retrieves the element at an index of the list stored at a key.
+	 * Negative indexes count from the tail.
+	 *
+	 * @template K The expected type of the element.
+	 * @param {string} key - The key of the list.
+	 * @param {number} index - The zero-based index of the element.
+	 * @returns {Result<K>} The result of the operation. `data` contains the element.
+	 * @throws {Error} "Key not found, cannot lindex." if the key does not exist or has expired.
+	 * @throws {Error} "Index out of range, cannot lindex." if the index is outside the list.
+	 * @example
+	 * const last = db.lindex("tasks", -1);
+	 */
+	lindex<K extends T = T>(key: string, index: number): Result<K>;
+
+	/**
+	 * Trims the list stored at a key so that it only contains the given inclusive range of elements.
+	 * Negative indexes count from the tail. The key is deleted if the range is empty.
+	 *
+	 * @param {string} key - The key of the list.
+	 * @param {number} start - The index of the first element to keep.
+	 * @param {number} stop - The index of the last element to keep.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of elements removed.
+	 * @throws {Error} If the key holds a value that is not a list.
+	 * @example
+	 * db.ltrim("recent", 0, 99); // Keeps the first 100 elements
+	 */
+	ltrim(key: string, start: number, stop: number): Result<number>;
+
+	/**
+	 * Removes elements equal to a value from the list stored at a key.
+	 * Elements are compared on their encoded bytes.
+	 * - `count > 0`: Removes up to `count` elements starting from the head.
+	 * - `count < 0`: Removes up to `-count` elements starting from the tail.
+	 * - `count = 0`: Removes all matching elements.
+	 *
+	 * @template K The type of the value to remove.
+	 * @param {string} key - The key of the list.
+	 * @param {number} count - How many matching elements to remove, and from which side.
+	 * @param {K} value - The value to remove.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of elements removed.
+	 * @throws {Error} If the key holds a value that is not a list.
+	 * @example
+	 * db.lrem("tasks", 0, "done");
+	 */
+	lrem<K extends T = T>(key: string, count: number, value: K): Result<number>;
+
+	/**
+	 * Atomically removes the last element of the `source` list and inserts it at the head of the `destination` list.
+	 * Using the same key for both rotates the list. This operation never blocks.
+	 *
+	 * @template K The expected type of the moved element.
+	 * @param {string} source - The key of the list to pop from.
+	 * @param {string} destination - The key of the list to push to.
+	 * @returns {Result<K>} The result of the operation. `data` contains the moved element.
+	 * @throws {Error} "Key not found, cannot rpoplpush." if the source key does not exist or has expired.
+	 * @throws {Error} If either key holds a value that is not a list.
+	 * @example
+	 * const job = db.rpoplpush("jobs:pending", "jobs:processing");
+	 */
+	rpoplpush<K extends T = T>(source: string, destination: string): Result<K>;
+
+	/**
+	 * Adds members to the set stored at a key, creating the set if it does not exist.
+	 * Members are compared on their encoded bytes, members already in the set are ignored.
+	 *
+	 * @template K The type of the members. Must extend `MiftahValue`.
+	 * @param {string} key - The key of the set.
+	 * @param {...K} members - The members to add.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of members added.
+	 * @throws {Error} "No members provided, cannot sadd." if no members are given.
+	 * @throws {Error} If the key holds a value that is not a set.
+	 * @example
+	 * db.sadd("tags", "node", "sqlite");
+	 */
+	sadd<K extends T = T>(key: string, ...members: K[]): Result<number>;
+
+	/**
+	 * Removes members from the set stored at a key.
+	 * The key is deleted once its last member is removed.
+	 *
+	 * @template K The type of the members.
+	 * @param {string} key - The key of the set.
+	 * @param {...K} members - The members to remove.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of members removed.
+	 * @throws {Error} If the key holds a value that is not a set.
+	 * @example
+	 * db.srem("tags", "sqlite");
+	 */
+	srem<K extends T = T>(key: string, ...members: K[]): Result<number>;
+
+	/**
+	 * Checks if a value is a member of the set stored at a key.
+	 *
+	 * @template K The type of the member.
+	 * @param {string} key - The key of the set.
+	 * @param {K} member - The value to look up.
+	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if the value is a member.
+	 * @throws {Error} If the key holds a value that is not a set.
+	 * @example
+	 * if (db.sismember("tags", "node").data) console.log("Tagged with node");
+	 */
+	sismember<K extends T = T>(key: string, member: K): Result<boolean>;
+
+	/**
+	 * Retrieves all members of the set stored at a key.
+	 *
+	 * @template K The expected type of the members.
+	 * @param {string} key - The key of the set.
+	 * @returns {Result<K[]>} The result of the operation. `data` contains the members, empty if the key does not exist.
+	 * @throws {Error} If the key holds a value that is not a set.
+	 * @example
+	 * const tags = db.smembers<string>("tags").data;
+	 */
+	smembers<K extends T = T>(key: string): Result<K[]>;
+
+	/**
+	 * Counts the members of the set stored at a key.
+	 *
+	 * @param {string} key - The key of the set.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of members, `0` if the key does not exist.
+	 * @throws {Error} If the key holds a value that is not a set.
+	 * @example
+	 * const tagCount = db.scard("tags").data;
+	 */
+	scard(key: string): Result<number>;
+
+	/**
+	 * Retrieves the members found in every one of the given sets.
+	 *
+	 * @template K The expected type of the members.
+	 * @param {string[]} keys - The keys of the sets.
+	 * @returns {Result<K[]>} The result of the operation. `data` contains the common members.
+	 * @throws {Error} "No keys provided, cannot sinter." if the `keys` array is empty.
+	 * @throws {Error} If any key holds a value that is not a set.
+	 * @example
+	 * const both = db.sinter(["followers:1", "followers:2"]).data;
+	 */
+	sinter<K extends T = T>(keys: string[]): Result<K[]>;
+
+	/**
+	 * Retrieves the members found in any of the given sets.
+	 *
+	 * @template K The expected type of the members.
+	 * @param {string[]} keys - The keys of the sets.
+	 * @returns {Result<K[]>} The result of the operation. `data` contains the members of all sets, without duplicates.
+	 * @throws {Error} "No keys provided, cannot sunion." if the `keys` array is empty.
+	 * @throws {Error} If any key holds a value that is not a set.
+	 * @example
+	 * const everyone = db.sunion(["followers:1", "followers:2"]).data;
+	 */
+	sunion<K extends T = T>(keys: string[]): Result<K[]>;
+
+	/**
+	 * Retrieves the members of the first set that are not found in any of the other sets.
+	 *
+	 * @template K The expected type of the members.
+	 * @param {string[]} keys - The keys of the sets, the first one being the set to subtract from.
+	 * @returns {Result<K[]>} The result of the operation. `data` contains the remaining members.
+	 * @throws {Error} "No keys provided, cannot sdiff." if the `keys` array is empty.
+	 * @throws {Error} If any key holds a value that is not a set.
+	 * @example
+	 * const onlyFirst = db.sdiff(["followers:1", "followers:2"]).data;
+	 */
+	sdiff<K extends T = T>(keys: string[]): Result<K[]>;
+
+	/**
+	 * Adds a member with a score to the sorted set stored at a key, or updates the score of an existing member.
+	 * Members are compared on their encoded bytes.
+	 *
+	 * @template K The type of the member. Must extend `MiftahValue`.
+	 * @param {string} key - The key of the sorted set.
+	 * @param {number} score - The score of the member.
+	 * @param {K} member - The member to add.
+	 * @returns {Result<number>} The result of the operation. `data` is `1` if the member was added, `0` if its score was updated.
+	 * @throws {Error} "Score must be a valid number." if `score` is not a valid number.
+	 * @throws {Error} If the key holds a value that is not a sorted set.
+	 * @example
+	 * db.zadd("leaderboard", 1500, "ahmad");
+	 */
+	zadd<K extends T = T>(key: string, score: number, member: K): Result<number>;
+
+	/**
+	 * Atomically increments the score of a sorted set member by a given amount.
+	 * If the member does not exist, it is added with the `amount` as its score.
+	 *
+	 * @template K The type of the member.
+	 * @param {string} key - The key of the sorted set.
+	 * @param {number} amount - The amount to increment the score by.
+	 * @param {K} member - The member whose score to increment.
+	 * @returns {Result<number>} The result of the operation. `data` contains the new score.
+	 * @throws {Error} "Increment amount must be a valid number." if `amount` is not a valid number.
+	 * @throws {Error} If the key holds a value that is not a sorted set.
+	 * @example
+	 * db.zincrby("leaderboard", 50, "ahmad");
+	 */
+	zincrby<K extends T = T>(key: string, amount: number, member: K): Result<number>;
+
+	/**
+	 * Retrieves the score of a sorted set member.
+	 *
+	 * @template K The type of the member.
+	 * @param {string} key - The key of the sorted set.
+	 * @param {K} member - The member to look up.
+	 * @returns {Result<number>} The result of the operation. `data` contains the score.
+	 * @throws {Error} "Key not found, cannot zscore." if the key does not exist or has expired.
+	 * @throws {Error} "Member not found, cannot zscore." if the member does not exist.
+	 * @example
+	 * const score = db.zscore("leaderboard", "ahmad").data;
+	 */
+	zscore<K extends T = T>(key: string, member: K): Result<number>;
+
+	/**
+	 * Retrieves the zero-based rank of a sorted set member, ordered by ascending score.
+	 *
+	 * @template K The type of the member.
+	 * @param {string} key - The key of the sorted set.
+	 * @param {K} member - The member to look up.
+	 * @returns {Result<number>} The result of the operation. `data` contains the rank.
+	 * @throws {Error} "Key not found, cannot zrank." if the key does not exist or has expired.
+	 * @throws {Error} "Member not found, cannot zrank." if the member does not exist.
+	 * @example
+	 * const rank = db.zrank("leaderboard", "ahmad").data;
+	 */
+	zrank<K extends T = T>(key: string, member: K): Result<number>;
+
+	/**
+	 * Retrieves a range of members of the sorted set stored at a key, ordered by ascending score.
+	 * `start` and `stop` are inclusive zero-based ranks, negative ranks count from the highest score.
+	 *
+	 * @template K The expected type of the members.
+	 * @param {string} key - The key of the sorted set.
+	 * @param {number} [start=0] - The rank of the first member. Defaults to 0.
+	 * @param {number} [stop=-1] - The rank of the last member. Defaults to -1.
+	 * @returns {Result<ZSetEntry<K>[]>} The result of the operation. `data` contains the members with their scores.
+	 * @throws {Error} If the key holds a value that is not a sorted set.
+	 * @example
+	 * const topThree = db.zrange("leaderboard", -3, -1).data.reverse();
+	 */
+	zrange<K extends T = T>(key: string, start?: number, stop?: number): Result<ZSetEntry<K>[]>;
+
+	/**
+	 * Retrieves the members of the sorted set stored at a key with a score between `min` and `max` (inclusive).
+	 * The range is read from a score index, so it does not scan the whole set.
+	 *
+	 * @template K The expected type of the members.
+	 * @param {string} key - The key of the sorted set.
+	 * @param {number} min - The minimum score, use `-Infinity` for no lower bound.
+	 * @param {number} max - The maximum score, use `Infinity` for no upper bound.
+	 * @param {{ offset?: number; limit?: number }} [options] - Optional. Skips `offset` members and returns at most `limit`.
+	 * @returns {Result<ZSetEntry<K>[]>} The result of the operation. `data` contains the members with their scores.
+	 * @throws {Error} If the key holds a value that is not a sorted set.
+	 * @example
+	 * const gold = db.zrangebyscore("leaderboard", 1000, Infinity, { limit: 10 }).data;
+	 */
+	zrangebyscore<K extends T = T>(
+		key: string,
+		min: number,
+		max: number,
+		options?: { offset?: number; limit?: number },
+	): Result<ZSetEntry<K>[]>;
+
+	/**
+	 * Removes members from the sorted set stored at a key.
+	 * The key is deleted once its last member is removed.
+	 *
+	 * @template K The type of the members.
+	 * @param {string} key - The key of the sorted set.
+	 * @param {...K} members - The members to remove.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of members removed.
+	 * @throws {Error} If the key holds a value that is not a sorted set.
+	 * @example
+	 * db.zrem("leaderboard", "ahmad");
+	 */
+	zrem<K extends T = T>(key: string, ...members: K[]): Result<number>;
+
+	/**
+	 * Optimizes the database file by rebuilding it, which can reduce its size and improve performance.
+	 * This operation can be time-consuming on large databases.
+	 *
+	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if successful.
+	 * @throws {Error} If a database error occurs during vacuuming.
+	 * @example
+	 * if (db.vacuum().success) console.log("Database vacuumed successfully.");
+	 */
+	vacuum(): Result<boolean>;
+
+	/**
+	 * Closes the database connection.
+	 * Performs a final WAL checkpoint and any configured cleanup before closing.
+	 *
+	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if successful.
+	 * @throws {Error} If an error occurs during closing or pre-close operations.
+	 * @example
+	 * db.close();
+	 */
+	close(): Result<boolean>;
+
+	/**
+	 * Removes all expired key-value pairs from the database.
+	 * This operation only affects keys within the current namespace if one is active.
+	 *
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of rows (expired keys) removed.
+	 * @throws {Error} If a database error occurs during cleanup.
+	 * @example
+	 * const cleanupResult = db.cleanup();
+	 * if (cleanupResult.success) console.log(`Cleaned up ${cleanupResult.data} expired keys.`);
+	 */
+	cleanup(): Result<number>;
+
+	/**
+	 * Rewrites the stored values with the current `compression` options, compressing the values above the
+	 * threshold and decompressing the others, or decompressing everything if compression is disabled.
+	 * Runs in batches of keys, each batch in its own transaction. Values are not re-serialized and keep their version.
+	 *
+	 * @param {number} [batchSize=500] - Optional. The number of keys processed per transaction. Defaults to 500.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of rewritten rows.
+	 * @example
+	 * const db = new MiftahDB("app.db", { compression: { algorithm: "brotli", minBytes: 512 } });
+	 * const result = db.recompress();
+	 * if (result.success) console.log(`Rewrote ${result.data} rows`);
+	 */
+	recompress(batchSize?: number): Result<number>;
+
+	/**
+	 * Makes a new key the encryption key, and re-encrypts the stored values with it in batches of keys,
+	 * each batch in its own transaction. Unencrypted values are encrypted when the instance did not use encryption
+	 * or allows unencrypted values, and values encrypted with a key this instance does not know, such as the key
+	 * of a namespace with its own keys, are left as is.
+	 * Until the instance is reopened with the new key, previous keys stay available for decryption.
+	 *
+	 * @param {EncryptionKey} newKey - The new key, with an id that is not used by another key.
+	 * @param {number} [batchSize=500] - Optional. The number of keys processed per transaction. Defaults to 500.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of re-encrypted rows.
+	 * @throws {Error} If the key is not 32 bytes, or if its id is used by another key.
+	 * @example
+	 * const result = db.rotateKey({ id: "2025-01", key: randomBytes(32) });
+	 * if (result.success) console.log(`Re-encrypted ${result.data} rows`);
+	 */
+	rotateKey(newKey: EncryptionKey, batchSize?: number): Result<number>;
+
+	/**
+	 * Removes all key-value pairs from the database.
+	 * If a namespace is active, only keys within that namespace are removed.
+	 *
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of rows (keys) removed.
+	 * @throws {Error} If a database error occurs during flush.
+	 * @example
+	 * const flushResult = db.flush();
+	 * if (flushResult.success) console.log(`Flushed ${flushResult.data} keys.`);
+	 */
+	flush(): Result<number>;
+
+	/**
+	 * Executes a raw SQL statement and returns the result.
+	 * Use with caution, especially with user-provided input, to avoid SQL injection vulnerabilities.
+	 *
+	 * @param {string} sql - The SQL statement to execute.
+	 * @param {unknown[]} [params=[]] - Optional parameters to bind to the SQL statement.
+	 * @returns {Result<unknown[] | import("better-sqlite3").RunResult>} The result of the operation.
+	 *          For SELECT queries, `data` is an array of rows.
+	 *          For INSERT, UPDATE, DELETE, `data` is a `RunResult` object (from `better-sqlite3`).
+	 * @throws {Error} If the SQL is invalid or a database error occurs.
+	 * @example
+	 * const selectRes = db.execute("SELECT * FROM miftahdb WHERE key LIKE ?", ["user:%"]);
+	 * if (selectRes.success) console.log(selectRes.data);
+	 */
+	execute(sql: string, params?: unknown[]): Result<unknown>; // `unknown` is simpler than RunResult | unknown[] union
+
+	/**
+	 * Asynchronously backups the current in-memory or disk-based database to a specified file path.
+	 * The database is copied with SQLite's online backup API, a few pages at a time, so it is never loaded in memory
+	 * and other queries can run while it is copied.
+	 *
+	 * @param {string} path - The file path where the backup should be saved, an existing file is overwritten.
+	 * @param {BackupOptions} [options] - Optional. A `progress` callback and the number of pages copied per step.
+	 * @returns {PromiseResult<boolean>} A promise resolving to the result of the operation. `data` is `true` on success.
+	 * @throws {Error} If an error occurs while copying the database.
+	 * @example
+	 * async function performBackup() {
+	 *   const backupResult = await db.backup("my_database_backup.db", {
+	 *     progress: ({ totalPages, remainingPages }) => console.log(`${totalPages - remainingPages}/${totalPages}`),
+	 *   });
+	 *   if (backupResult.success) console.log("Backup successful!");
+	 * }
+	 */
+	backup(path: string, options?: BackupOptions): PromiseResult<boolean>;
+
+	/**
+	 * Asynchronously restores the database from a backup file.
+	 * The backup is copied into the file the database was opened from, which is then opened again with the same options.
+	 * An in-memory database is replaced by an in-memory copy of the backup.
+	 * On a namespaced instance the whole database is restored, for its parent and other namespaces as well.
+	 *
+	 * @param {string} path - The path to the backup file to restore from.
+	 * @param {BackupOptions} [options] - Optional. A `progress` callback and the number of pages copied per step.
+	 * @returns {PromiseResult<boolean>} A promise resolving to the result of the operation. `data` is `true` on success.
+	 * @throws {Error} If the backup cannot be read, was written by a newer release, or cannot be copied.
+	 *                 The database is left as it was.
+	 * @example
+	 * async function performRestore() {
+	 *   const restoreResult = await db.restore("my_database_backup.db");
+	 *   if (restoreResult.success) console.log("Restore successful!");
+	 * }
+	 */
+	restore(path: string, options?: BackupOptions): PromiseResult<boolean>;
+
+	/**
+	 * Asynchronously exports the keys of the current namespace to a JSON or NDJSON file, along with their types and expiration dates.
+	 * Keys are read in batches, each in its own transaction, and written to the file as they are read.
+	 *
+	 * @param {string} path - The file path where the records should be written.
+	 * @param {ExportOptions} [options] - Optional. The pattern the keys must match, the file format and the batch size.
+	 * @returns {PromiseResult<number>} A promise resolving to the result of the operation. `data` contains the number of exported keys.
+	 * @throws {Error} If an error occurs while reading the keys or writing the file.
+	 * @example
+	 * const exportResult = await db.namespace("users").exportTo("users.ndjson");
+	 * if (exportResult.success) console.log(`Exported ${exportResult.data} keys`);
+	 */
+	exportTo(path: string, options?: ExportOptions): PromiseResult<number>;
+
+	/**
+	 * Asynchronously imports the records written by `exportTo` into the current namespace, the format of the file is detected.
+	 * Records are written in batches, each in its own transaction. An imported key replaces the key of the same name.
+	 *
+	 * @param {string} path - The path of the file to import.
+	 * @param {ImportOptions} [options] - Optional. `mode` sets whether the keys of the namespace are kept,
+	 *                                    `skipExpired` whether expired records are skipped.
+	 * @returns {PromiseResult<number>} A promise resolving to the result of the operation. `data` contains the number of imported keys.
+	 * @throws {Error} If the file cannot be read or holds an invalid record. The batches written before the error are kept.
+	 * @example
+	 * const importResult = await db.namespace("users").importFrom("users.ndjson", { mode: "replace" });
+	 * if (importResult.success) console.log(`Imported ${importResult.data} keys`);
+	 */
+	importFrom(path: string, options?: ImportOptions): PromiseResult<number>;
+
+	/**
+	 * Compares the keys of the current namespace with the same keys of another database.
+	 * The other database is attached to this one, so that the keys are compared by SQLite without loading the values.
+	 * Values are compared as stored, byte for byte: both databases must use the same serializer, compression and encryption keys,
+	 * and encrypted values always differ. Expired keys are treated as missing.
+	 *
+	 * @param {IMiftahDB | string} other - Another instance, or the path of a database file. In-memory instances are attached from a temporary copy.
+	 * @param {DiffOptions} [options] - Optional. The pattern the keys must match.
+	 * @returns {Result<DiffResult>} The result of the operation. `data` contains the added, removed and changed keys.
+	 * @throws {Error} If the file is not found or is not a MiftahDB database.
+	 * @example
+	 * const diff = db.diff("central.db", { pattern: "product:%" });
+	 * if (diff.success) console.log(`${diff.data.changed.length} keys changed`);
+	 */
+	diff(other: IMiftahDB | string, options?: DiffOptions): Result<DiffResult>;
+
+	/**
+	 * Copies the added and changed keys of another database into this one, as found by `diff`.
+	 * Keys are copied with their data, expiration and last write time in batches, each in its own transaction, and get a new version.
+	 * Keys missing from the other database are deleted with the `"theirs"` strategy, and kept with the others.
+	 *
+	 * @param {IMiftahDB | string} other - Another instance, or the path of a database file. In-memory instances are attached from a temporary copy.
+	 * @param {SyncOptions} [options] - Optional. How changed keys are resolved, the pattern the keys must match and the batch size.
+	 * @returns {Result<SyncResult>} The result of the operation. `data` contains the number of added and updated keys.
+	 * @throws {Error} If the file is not found or is not a MiftahDB database.
+	 * @example
+	 * // Two-way sync, each side keeps the keys written last
+	 * local.syncFrom("central.db", { strategy: "newest" });
+	 * central.syncFrom("local.db", { strategy: "newest" });
+	 */
+	syncFrom(other: IMiftahDB | string, options?: SyncOptions): Result<SyncResult>;
+
+	/**
+	 * Returns the on-disk format version of the database file. Files written by older releases are
+	 * migrated to the current format when they are opened, files written by newer releases are refused.
+	 *
+	 * @returns {Result<number>} The result of the operation. `data` contains the format version.
+	 * @example
+	 * const version = db.formatVersion();
+	 * if (version.success) console.log(`Format version ${version.data}`);
+	 */
+	formatVersion(): Result<number>;
+
+	/**
+	 * Returns the changes made after a sequence, oldest first, so that a consumer can catch up on what changed since it last ran.
+	 * Changes are only recorded when the `changeLog` option is enabled, in the same transaction as the change itself.
+	 *
+	 * @param {number} seq - The sequence of the last change the consumer processed, `0` to read from the start of the log.
+	 * @param {ChangesSinceOptions} [options] - Optional. The maximum number of changes and the pattern the keys must match.
+	 * @returns {Result<ChangeLogEntry[]>} The result of the operation. `data` contains the changes, pass the `seq` of the last one to the next call.
+	 * @example
+	 * let seq = loadCheckpoint();
+	 * const changes = db.changesSince(seq, { limit: 500, pattern: "user:%" });
+	 * if (changes.success) {
+	 *   for (const change of changes.data) reindex(change);
+	 *   seq = changes.data.at(-1)?.seq ?? seq;
+	 * }
+	 */
+	changesSince(seq: number, options?: ChangesSinceOptions): Result<ChangeLogEntry[]>;
+
+	/**
+	 * Returns the sequence of the last recorded change, `0` if none was recorded.
+	 * It is kept when the change log is truncated, so it can be stored as the starting point of a new consumer.
+	 *
+	 * @returns {Result<number>} The result of the operation. `data` contains the sequence.
+	 * @example
+	 * const seq = db.currentSequence();
+	 * if (seq.success) saveCheckpoint(seq.data);
+	 */
+	currentSequence(): Result<number>;
+
+	/**
+	 * Deletes the changes before a sequence, once every consumer has processed them.
+	 *
+	 * @param {number} beforeSeq - Changes with a lower sequence are deleted.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of deleted changes.
+	 * @example
+	 * db.truncateChangeLog(oldestCheckpoint);
+	 */
+	truncateChangeLog(beforeSeq: number): Result<number>;
+
+	/**
+	 * Returns the statistics of the background expiry sweeper.
+	 * The sweeper only runs when the `cleanupInterval` option is set.
+	 *
+	 * @returns {Result<SweepStats>} The result of the operation. `data` contains a snapshot of the statistics.
+	 * @example
+	 * const stats = db.sweepStats();
+	 * if (stats.success) console.log(`Swept ${stats.data.deletedKeys} expired keys so far.`);
+	 */
+	sweepStats(): Result<SweepStats>;
+
+	/**
+	 * Returns runtime statistics: key counts, database and file sizes, `get` hits and misses, and the calls, errors
+	 * and latencies of every method since the database was opened. Calls are shared by the namespaces of an instance,
+	 * while key counts are those of the current namespace.
+	 *
+	 * @returns {Result<DBStats>} The result of the operation. `data` contains a snapshot of the statistics.
+	 * @example
+	 * const stats = db.stats();
+	 * if (stats.success) {
+	 *   const { getHits, getMisses } = stats.data;
+	 *   console.log(`Hit rate: ${getHits / (getHits + getMisses)}`);
+	 * }
+	 */
+	stats(): Result<DBStats>;
+
+	/**
+	 * Renders the statistics of `stats` in the Prometheus text exposition format, with latencies in seconds.
+	 *
+	 * @returns {Result<string>} The result of the operation. `data` contains the metrics.
+	 * @example
+	 * app.get("/metrics", (req, res) => {
+	 *   const metrics = db.metricsText();
+	 *   if (metrics.success) res.type("text/plain; version=0.0.4").send(metrics.data);
+	 * });
+	 */
+	metricsText(): Result<string>;
+
+	/**
+	 * Registers a handler for a key change event.
+	 * Events are published only after the change is committed, so changes made inside a transaction
+	 * (such as `multiSet`) are delivered once the whole transaction succeeds, and never if it rolls back.
+	 * Handlers registered on a namespaced instance only receive events for keys of that namespace.
+	 *
+	 * @template E The name of the event.
+	 * @param {E} event - The event to listen to: `"set"`, `"delete"`, `"rename"`, `"expire"`, `"flush"` or `"increment"`.
+	 * @param {string} pattern - Pattern the key must match, see the `patternMode` option. Ignored for `"flush"` events.
+	 * @param {MiftahDBEventHandler<E>} handler - The function called with the event payload. Errors it throws are logged and ignored.
+	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if successful.
+	 * @example
+	 * db.on("set", "user:%", ({ key }) => cache.delete(key));
+	 * db.on("delete", "%", ({ key, expired }) => console.log(`${key} removed`, expired));
+	 */
+	on<E extends MiftahDBEventType>(
+		event: E,
+		pattern: string,
+		handler: MiftahDBEventHandler<E>,
+	): Result<boolean>;
+
+	/**
+	 * Removes a handler registered with `on`.
+	 *
+	 * @template E The name of the event.
+	 * @param {E} event - The event the handler was registered for.
+	 * @param {MiftahDBEventHandler<E>} handler - The handler to remove.
+	 * @returns {Result<boolean>} The result of the operation. `data` is `true` if successful.
+	 * @throws {Error} "Handler not found, cannot off." if the handler is not registered for the event.
+	 * @example
+	 * db.off("set", onUserSet);
+	 */
+	off<E extends MiftahDBEventType>(event: E, handler: MiftahDBEventHandler<E>): Result<boolean>;
+
+	/**
+	 * Runs a function inside a transaction, so that all of its operations are applied together or not at all.
+	 * The transaction is rolled back if the function throws, or if it returns a failed `Result`,
+	 * which lets a failure of any operation be propagated with `return result`.
+	 * Transactions can be nested, nested ones are run as savepoints that roll back on their own.
+	 * The function must be synchronous.
+	 *
+	 * @template R The return type of the function.
+	 * @param {(tx: IMiftahDB<T>) => R} fn - The function to run, `tx` is the database the transaction was started on.
+	 * @param {TransactionOptions} [options] - Optional. `mode` sets the locking mode, defaults to `deferred`.
+	 * @returns {Result<R>} The result of the operation. `data` contains the value returned by the function.
+	 * @throws {Error} The error thrown by the function, or the error of the failed `Result` it returned.
+	 * @example
+	 * const result = db.transaction((tx) => {
+	 *   const balance = tx.get<number>("balance:alice");
+	 *   if (!balance.success) return balance;
+	 *   if (balance.data < 100) throw new Error("Insufficient funds");
+	 *
+	 *   tx.decrement("balance:alice", 100);
+	 *   tx.increment("balance:bob", 100);
+	 *   return balance.data - 100;
+	 * }, { mode: "immediate" });
+	 */
+	transaction<R>(fn: (tx: IMiftahDB<T>) => R, options?: TransactionOptions): Result<R>;
+
+	/**
+	 * Creates a new MiftahDB instance that is bound to a specific namespace.
 	 * All keys set or retrieved through this namespaced instance will be automatically prefixed.
 	 *
-	 * @param {string} name - The name of the namespace (e.g., "users", "products").
-	 * @returns {IMiftahDB<T>} A new `IMiftahDB` instance operating within the specified namespace.
+	 * @param {string} name - The name of the namespace (e.g., "users", "products"). Nested namespaces are joined with the `namespaceSeparator` option.
+	 * @template N The type of the values of the namespace, the default type of its methods. Interfaces are accepted as well as type aliases.
+	 * @param {NamespaceOptions<N>} [options] - Optional. `serializer` overrides the serializer of the values written in the namespace,
+	 *                                          `validate` checks the values written by `set` and its variants.
+	 * @returns {IMiftahDB<N>} A new `IMiftahDB` instance operating within the specified namespace.
+	 * @throws {Error} If the marker of `serializer` is invalid or used by a serializer with another name.
 	 * @example
 	 * const usersDB = db.namespace("users");
 	 * usersDB.set("alice", { email: "alice@example.com" }); // Actually sets "users:alice"
@@ -473,18 +1840,180 @@ export interface IMiftahDB<T extends MiftahValue = MiftahValue> {
 	 *
 	 * const postsDB = usersDB.namespace("posts"); // Nested: "users:posts:some_post_id"
 	 * postsDB.set("welcome", { title: "Hello World" });
+	 *
+	 * const sharedDB = db.namespace("shared", { serializer: jsonSerializer }); // Values stored as JSON
+	 *
+	 * type User = { name: string; age: number };
+	 * const typedDB = db.namespace<User>("typed", { validate: (v) => typeof v === "object" && v !== null && "name" in v });
+	 * typedDB.set("alice", { name: "Alice", age: 30 }); // Fails with a ValidationError if the validator rejects it
+	 */
+	namespace<N extends T | object = T>(name: string, options?: NamespaceOptions<N>): IMiftahDB<N>;
+
+	/**
+	 * Lists the namespaces that hold live keys, relative to the current namespace.
+	 * Namespaces are not registered anywhere, they are found from the prefixes of the stored keys.
+	 *
+	 * @param {number} [depth=1] - How many levels of nested namespaces to list, `Infinity` lists all of them.
+	 * @returns {Result<string[]>} The result of the operation. `data` contains the sorted namespace names,
+	 *                            nested names are joined with the separator (e.g., `"users:admins"`).
+	 * @example
+	 * db.set("users:alice", 1);
+	 * db.set("users:admins:bob", 2);
+	 * db.listNamespaces(); // ["users"]
+	 * db.listNamespaces(2); // ["users", "users:admins"]
+	 */
+	listNamespaces(depth?: number): Result<string[]>;
+
+	/**
+	 * Returns the size of a namespace relative to the current one, nested namespaces included.
+	 *
+	 * @param {string} name - The name of the namespace.
+	 * @returns {Result<NamespaceStats>} The result of the operation. `data` contains the key count, the expired key count
+	 *                                   and the total bytes of the keys and values, data type rows included.
+	 * @example
+	 * const stats = db.namespaceStats("users");
+	 * if (stats.success) console.log(`${stats.data.keys} keys, ${stats.data.bytes} bytes`);
+	 */
+	namespaceStats(name: string): Result<NamespaceStats>;
+
+	/**
+	 * Deletes every key of a namespace relative to the current one, nested namespaces included.
+	 * Publishes a `flush` event for the namespace.
+	 *
+	 * @param {string} name - The name of the namespace.
+	 * @returns {Result<number>} The result of the operation. `data` contains the number of deleted keys.
+	 * @example
+	 * db.dropNamespace("sessions");
 	 */
-	namespace(name: string): IMiftahDB<T>;
+	dropNamespace(name: string): Result<number>;
 }
 
 /*
  Represents the PRAGMA statements that can be used to configure the database.
  */
 export type DBOptions = Partial<{
-	[K in keyof typeof defaultDBOptions]: K extends "cacheSize" | "mmapSize"
+	[K in keyof typeof defaultDBOptions]: K extends
+		| "cacheSize"
+		| "mmapSize"
+		| "cleanupInterval"
+		| "cleanupBatchSize"
+		| "cleanupMaxDurationMs"
 		? number
 		: (typeof defaultDBOptions)[K];
-}>;
+}> & {
+	/** Serializer of the values written by this instance (default: msgpack). Rows written with any registered serializer can be read. */
+	serializer?: Serializer;
+	/** Compresses the values written by this instance (default: disabled). Compressed and uncompressed rows can always be read. */
+	compression?: CompressionOptions;
+	/** Encrypts the values written by this instance with AES-256-GCM (default: disabled). */
+	encryption?: EncryptionOptions;
+};
+
+/**
+ * How key patterns are read, see the `patternMode` option.
+ * - `"like"`: SQL LIKE patterns, `%` matches any sequence, `_` any character and `\` escapes them. Case-insensitive for ASCII.
+ * - `"glob"`: Redis-style globs, `*` matches any sequence, `?` any character, `[abc]` / `[^a-z]` a class and `\` escapes them. Case-sensitive.
+ */
+export type PatternMode = "like" | "glob";
+
+/**
+ * The algorithm used to compress values, see the `compression` option.
+ */
+export type CompressionAlgorithm = "gzip" | "deflate" | "brotli";
+
+/**
+ * Options of value compression.
+ */
+export interface CompressionOptions {
+	/** The compression algorithm. */
+	algorithm: CompressionAlgorithm;
+	/** Values smaller than this many bytes once encoded are stored uncompressed (default: `1024`). */
+	minBytes?: number;
+	/** The compression level, from 0 to 9 for gzip and deflate, and from 0 to 11 for brotli (default: the zlib default). */
+	level?: number;
+}
+
+/**
+ * An AES-256 key along with its id, which is stored with every value it encrypts.
+ */
+export interface EncryptionKey {
+	/** The id of the key, up to 255 bytes. */
+	id: string;
+	/** The 32 bytes of the key. */
+	key: Uint8Array;
+}
+
+/**
+ * Options of value encryption.
+ */
+export interface EncryptionOptions {
+	/** The key used to encrypt values. */
+	key: EncryptionKey;
+	/** Keys that are only used to decrypt values, such as keys that are being rotated out. */
+	previousKeys?: EncryptionKey[];
+	/**
+	 * Reads values that are not encrypted instead of rejecting them, while a database that did not use
+	 * encryption is migrated with `rotateKey` (default: `false`).
+	 */
+	allowUnencrypted?: boolean;
+}
+
+/**
+ * A problem found by a validator, see `ValidationError`.
+ */
+export interface ValidationIssue {
+	/** What is wrong with the value. */
+	message: string;
+	/** Where the problem is in the value, if it is not the value itself. */
+	path?: readonly PropertyKey[];
+}
+
+/**
+ * A schema following the Standard Schema specification (https://standardschema.dev), as implemented
+ * by Zod, Valibot, ArkType and others. Only schemas that validate synchronously are supported.
+ */
+export interface StandardSchema<T> {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+	};
+}
+
+/**
+ * The result of a Standard Schema validation, `issues` is only set when the value is invalid.
+ */
+export type StandardSchemaResult<T> =
+	| { readonly value: T; readonly issues?: undefined }
+	| {
+			readonly issues: ReadonlyArray<{
+				readonly message: string;
+				readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+			}>;
+	  };
+
+/**
+ * Checks the values written in a namespace, see the `validate` option of `namespace`.
+ * A function rejects a value by returning `false` or throwing, the message of the thrown error becomes the issue.
+ */
+export type Validator<T> = ((value: unknown) => boolean) | StandardSchema<T>;
+
+/**
+ * Options of a namespaced instance, see `namespace`.
+ */
+export interface NamespaceOptions<T = MiftahValue> {
+	/** Serializer of the values written in the namespace, defaults to the serializer of the parent instance. */
+	serializer?: Serializer;
+	/** Encryption keys of the namespace, defaults to the keys of the parent instance. */
+	encryption?: EncryptionOptions;
+	/**
+	 * Checks the values written by `set`, `getSet`, `multiSet`, `setIfVersion`, `compareAndSwap` and `importFrom`,
+	 * defaults to the validator of the parent instance. Values that fail are not written.
+	 */
+	validate?: Validator<T>;
+}
 
 /**
  * Default configuration options for the MiftahDB instance.
@@ -507,6 +2036,25 @@ export const defaultDBOptions = {
 	autoVacuumMode: "OFF" as "OFF" | "FULL" | "INCREMENTAL",
 	/** Automatically runs `cleanup()` when the database is closed (default: `false`). */
 	autoCleanupOnClose: false as boolean,
+	/** Runs `vacuum()` when the database is closed (default: `true`). */
+	vacuumOnClose: true as boolean,
 	/** Automatically closes the database connection when the Node.js process exits (default: `true`). */
 	autoCloseOnExit: true as boolean,
+	/** Interval in milliseconds of the background sweeper that deletes expired keys (default: `0`, disabled). */
+	cleanupInterval: 0,
+	/** Maximum number of expired keys deleted per sweeper batch, each batch is its own transaction (default: `500`). */
+	cleanupBatchSize: 500,
+	/** Time budget of a sweep in milliseconds, no new batch is started once it is spent (default: `50`). */
+	cleanupMaxDurationMs: 50,
+	/** How the patterns of `keys`, `scan`, `count`, `on`, ... are read, SQL LIKE or glob (default: `"like"`). */
+	patternMode: "like" as PatternMode,
+	/** Joins the names of nested namespaces and the keys of a namespace (default: `":"`). */
+	namespaceSeparator: ":" as string,
+	/** Appends every change of a key to the change log, read with `changesSince` (default: `false`). */
+	changeLog: false as boolean,
+	/**
+	 * Creates the tables of a new file and upgrades a file written by an older release when it is opened (default: `true`).
+	 * When `false`, such files are refused and left untouched, older releases can still open them.
+	 */
+	upgrade: true as boolean,
 } as const;
@@ -1,19 +1,36 @@
+import type { OperationMetrics } from "./metrics";
 import type { Result } from "./types";
 
 // Decorator to safely execute a method and return a result type
 export function SafeExecution<T extends (...args: unknown[]) => R, R>(
 	_target: unknown,
-	_propertyKey: string,
+	propertyKey: string,
 	descriptor: PropertyDescriptor,
 ): PropertyDescriptor {
 	const originalMethod = descriptor.value;
 
-	descriptor.value = function (...args: Parameters<T>): Result<ReturnType<T>> {
-		try {
-			return originalMethod.apply(this, args);
-		} catch (error) {
-			return ERR(error instanceof Error ? error : new Error(String(error)));
-		}
+	descriptor.value = function (
+		this: { metrics?: OperationMetrics },
+		...args: Parameters<T>
+	): Result<ReturnType<T>> | Promise<Result<ReturnType<T>>> {
+		const execute = () => {
+			try {
+				const result = originalMethod.apply(this, args);
+				// Async methods reject instead of throwing
+				if (result instanceof Promise) {
+					return result.catch((error) =>
+						ERR(error instanceof Error ? error : new Error(String(error))),
+					);
+				}
+
+				return result;
+			} catch (error) {
+				return ERR(error instanceof Error ? error : new Error(String(error)));
+			}
+		};
+
+		// Instances record their calls, see `stats`
+		return this.metrics ? this.metrics.measure(propertyKey, execute) : execute();
 	};
 
 	return descriptor;
@@ -34,6 +51,17 @@ export function expiresAtMs(expiresAt: number | Date | undefined) {
 	return result;
 }
 
+// Converts the ttl or expiresAt option of `set` and `getEx` to a timestamp, undefined if neither is given
+export function optionsExpiresAtMs(options: {
+	ttl?: number;
+	expiresAt?: Date | number;
+}): number | undefined {
+	if (options.ttl !== undefined) return Date.now() + options.ttl;
+	if (options.expiresAt !== undefined) return new Date(options.expiresAt).getTime();
+
+	return undefined;
+}
+
 // Executes a function when the process receives exit signals
 export function executeOnExit(fn: () => void) {
 	for (const signal of ["SIGINT", "SIGTERM", "SIGQUIT", "exit"]) {
@@ -48,6 +76,16 @@ export function OK<T>(data: T = true as T): Result<T> {
 	return { success: true, data };
 }
 
+// Checks if a value is a failed result, as returned by any method of MiftahDB
+export function isFailedResult(value: unknown): value is { success: false; error: Error } {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		(value as Result<unknown>).success === false &&
+		(value as { error?: unknown }).error instanceof Error
+	);
+}
+
 function ERR<T>(error: Error): Result<T> {
 	return { success: false, error };
 }
@@ -0,0 +1,49 @@
+import { ValidationError } from "./errors";
+import type { StandardSchema, ValidationIssue, Validator } from "./types";
+
+// Some libraries, such as ArkType, make their schemas callable, so functions are checked for the marker too
+function isStandardSchema<T>(validator: Validator<T>): validator is StandardSchema<T> {
+	return "~standard" in validator;
+}
+
+// Runs a validator and returns the issues of the value, an empty array when it is valid
+export function validateValue<T>(validator: Validator<T>, value: unknown): ValidationIssue[] {
+	if (isStandardSchema(validator)) {
+		const result = validator["~standard"].validate(value);
+		if (result instanceof Promise) return [{ message: "Asynchronous schemas are not supported" }];
+
+		return (result.issues ?? []).map(({ message, path }) =>
+			path?.length
+				? {
+						message,
+						path: path.map((segment) => (typeof segment === "object" ? segment.key : segment)),
+					}
+				: { message },
+		);
+	}
+
+	try {
+		return validator(value) === false ? [{ message: "Value is invalid" }] : [];
+	} catch (error) {
+		return [{ message: error instanceof Error ? error.message : String(error) }];
+	}
+}
+
+// Throws a ValidationError listing the issues of the value, if any
+export function assertValid<T>(
+	validator: Validator<T>,
+	value: unknown,
+	key: string,
+	operation: string,
+): void {
+	const issues = validateValue(validator, value);
+	if (issues.length === 0) return;
+
+	const details = issues
+		.map(({ message, path }) => (path ? `${path.map(String).join(".")}: ${message}` : message))
+		.join("; ");
+	throw new ValidationError(
+		`Value of key "${key}" is invalid (${details}), cannot ${operation}.`,
+		issues,
+	);
+}
@@ -1,5 +1,21 @@
 import { expect, test } from "bun:test";
-import { MiftahDB, type Result } from "../src/bun";
+import { once } from "node:events";
+import { existsSync, readFileSync, rmSync } from "node:fs";
+import { type AddressInfo, connect } from "node:net";
+import {
+  ConflictError,
+  createHttpServer,
+  createRespServer,
+  jsonSerializer,
+  MiftahDB,
+  MiftahDBAsync,
+  msgpackSerializer,
+  registerSerializer,
+  type Result,
+  ValidationError,
+} from "../src/bun";
+import { runCli } from "../src/cli";
+import type { DBOptions } from "../src/types";
 
 function createDB() {
   return new MiftahDB(":memory:");
@@ -497,3 +513,1493 @@ test("Namespace Cleanup", () => {
     throw new Error(result2.error.message);
   }
 });
+
+test("Hash Set & Get", () => {
+  const db = createDB();
+  db.hset("user:1", "name", "Ahmad");
+  db.hset("user:1", "age", 30);
+  const result = db.hget<string>("user:1", "name");
+  if (result.success) {
+    expect(result.data).toBe("Ahmad");
+  } else {
+    throw new Error(result.error.message);
+  }
+  const result2 = db.hgetall("user:1");
+  if (result2.success) {
+    expect(result2.data).toEqual({ age: 30, name: "Ahmad" });
+  } else {
+    throw new Error(result2.error.message);
+  }
+  const result3 = db.hmget("user:1", ["name", "missing"]);
+  if (result3.success) {
+    expect(result3.data).toEqual(["Ahmad", null]);
+  } else {
+    throw new Error(result3.error.message);
+  }
+  const result4 = db.get("user:1");
+  if (result4.success) {
+    throw new Error("Hash should not be readable with get");
+  }
+  expect(result4.error.message).toBe('Key "user:1" holds a hash, cannot get.');
+});
+
+test("Hash Delete & Len", () => {
+  const db = createDB();
+  db.hset("user:1", "name", "Ahmad");
+  db.hset("user:1", "age", 30);
+  expect(db.hlen("user:1").success && db.hlen("user:1").data).toBe(2);
+  const result = db.hdel("user:1", ["age", "missing"]);
+  if (result.success) {
+    expect(result.data).toBe(1);
+  } else {
+    throw new Error(result.error.message);
+  }
+  db.hdel("user:1", "name");
+  expect(db.exists("user:1").success).toBe(false);
+});
+
+test("Hash Increment", () => {
+  const db = createDB();
+  db.hincrby("stats", "visits");
+  const result = db.hincrby("stats", "visits", 5);
+  if (result.success) {
+    expect(result.data).toBe(6);
+  } else {
+    throw new Error(result.error.message);
+  }
+});
+
+test("Hash Expire & Delete", () => {
+  const db = createDB();
+  db.hset("session", "token", "abc");
+  db.setExpire("session", new Date("2020-01-01"));
+  const result = db.hget("session", "token");
+  if (result.success) {
+    throw new Error("Hash should be expired");
+  }
+  expect(result.error.message).toBe("Key not found, cannot hget.");
+  db.hset("session", "token", "def");
+  db.delete("session");
+  expect(db.hlen("session").success && db.hlen("session").data).toBe(0);
+});
+
+test("Namespace Hash", () => {
+  const db = createDB();
+  const users = db.namespace("users");
+  users.hset("1", "name", "Ahmad");
+  users.rename("1", "2");
+  const result = db.hget("users:2", "name");
+  if (result.success) {
+    expect(result.data).toBe("Ahmad");
+  } else {
+    throw new Error(result.error.message);
+  }
+  users.flush();
+  expect(db.hlen("users:2").success && db.hlen("users:2").data).toBe(0);
+});
+
+test("List Push & Range", () => {
+  const db = createDB();
+  db.rpush("tasks", "b", "c");
+  const pushResult = db.lpush("tasks", "a");
+  if (pushResult.success) {
+    expect(pushResult.data).toBe(3);
+  } else {
+    throw new Error(pushResult.error.message);
+  }
+  const result = db.lrange("tasks");
+  if (result.success) {
+    expect(result.data).toEqual(["a", "b", "c"]);
+  } else {
+    throw new Error(result.error.message);
+  }
+  const result2 = db.lrange("tasks", -2, -1);
+  if (result2.success) {
+    expect(result2.data).toEqual(["b", "c"]);
+  } else {
+    throw new Error(result2.error.message);
+  }
+  const result3 = db.lindex("tasks", -1);
+  if (result3.success) {
+    expect(result3.data).toBe("c");
+  } else {
+    throw new Error(result3.error.message);
+  }
+});
+
+test("List Pop", () => {
+  const db = createDB();
+  db.rpush("tasks", "a", "b");
+  const result = db.lpop("tasks");
+  if (result.success) {
+    expect(result.data).toBe("a");
+  } else {
+    throw new Error(result.error.message);
+  }
+  const result2 = db.rpop("tasks");
+  if (result2.success) {
+    expect(result2.data).toBe("b");
+  } else {
+    throw new Error(result2.error.message);
+  }
+  const result3 = db.rpop("tasks");
+  if (result3.success) {
+    throw new Error("List should be empty");
+  }
+  expect(result3.error.message).toBe("Key not found, cannot rpop.");
+  expect(db.exists("tasks").success).toBe(false);
+});
+
+test("List Trim & Remove", () => {
+  const db = createDB();
+  db.rpush("log", 1, 2, 1, 3, 1, 4);
+  const result = db.lrem("log", -2, 1);
+  if (result.success) {
+    expect(result.data).toBe(2);
+  } else {
+    throw new Error(result.error.message);
+  }
+  db.ltrim("log", 1, -1);
+  const result2 = db.lrange("log");
+  if (result2.success) {
+    expect(result2.data).toEqual([2, 3, 4]);
+  } else {
+    throw new Error(result2.error.message);
+  }
+});
+
+test("List RPopLPush", () => {
+  const db = createDB();
+  db.rpush("pending", "job1", "job2");
+  const result = db.rpoplpush("pending", "processing");
+  if (result.success) {
+    expect(result.data).toBe("job2");
+  } else {
+    throw new Error(result.error.message);
+  }
+  const result2 = db.lrange("processing");
+  if (result2.success) {
+    expect(result2.data).toEqual(["job2"]);
+  } else {
+    throw new Error(result2.error.message);
+  }
+});
+
+test("Namespace List Rename & Expire", () => {
+  const db = createDB();
+  const queues = db.namespace("queues");
+  queues.rpush("a", "x", "y");
+  queues.rename("a", "b");
+  const result = db.llen("queues:b");
+  if (result.success) {
+    expect(result.data).toBe(2);
+  } else {
+    throw new Error(result.error.message);
+  }
+  queues.setExpire("b", new Date("2020-01-01"));
+  const result2 = queues.lrange("b");
+  if (result2.success) {
+    expect(result2.data).toEqual([]);
+  } else {
+    throw new Error(result2.error.message);
+  }
+});
+
+test("Set Add & Members", () => {
+  const db = createDB();
+  db.sadd("tags", "node", "bun");
+  const result = db.sadd("tags", "node", "sqlite");
+  if (result.success) {
+    expect(result.data).toBe(1);
+  } else {
+    throw new Error(result.error.message);
+  }
+  const result2 = db.smembers<string>("tags");
+  if (result2.success) {
+    expect(result2.data.sort()).toEqual(["bun", "node", "sqlite"]);
+  } else {
+    throw new Error(result2.error.message);
+  }
+  expect(db.sismember("tags", "bun").success && db.sismember("tags", "bun").data).toBe(true);
+  db.srem("tags", "node", "bun", "sqlite");
+  expect(db.scard("tags").success && db.scard("tags").data).toBe(0);
+  expect(db.exists("tags").success).toBe(false);
+});
+
+test("Set Inter/Union/Diff", () => {
+  const db = createDB();
+  db.sadd("a", 1, 2, 3);
+  db.sadd("b", 2, 3, 4);
+  const inter = db.sinter<number>(["a", "b"]);
+  if (inter.success) {
+    expect(inter.data.sort()).toEqual([2, 3]);
+  } else {
+    throw new Error(inter.error.message);
+  }
+  const union = db.sunion<number>(["a", "b"]);
+  if (union.success) {
+    expect(union.data.sort()).toEqual([1, 2, 3, 4]);
+  } else {
+    throw new Error(union.error.message);
+  }
+  const diff = db.sdiff<number>(["a", "b"]);
+  if (diff.success) {
+    expect(diff.data).toEqual([1]);
+  } else {
+    throw new Error(diff.error.message);
+  }
+});
+
+test("Sorted Set Add & Range", () => {
+  const db = createDB();
+  db.zadd("board", 30, "c");
+  db.zadd("board", 10, "a");
+  db.zadd("board", 20, "b");
+  db.zincrby("board", 25, "a");
+  const result = db.zrange("board");
+  if (result.success) {
+    expect(result.data).toEqual([
+      { member: "b", score: 20 },
+      { member: "c", score: 30 },
+      { member: "a", score: 35 },
+    ]);
+  } else {
+    throw new Error(result.error.message);
+  }
+  const result2 = db.zrangebyscore("board", 25, Infinity, { limit: 1 });
+  if (result2.success) {
+    expect(result2.data).toEqual([{ member: "c", score: 30 }]);
+  } else {
+    throw new Error(result2.error.message);
+  }
+  const result3 = db.zrank("board", "a");
+  if (result3.success) {
+    expect(result3.data).toBe(2);
+  } else {
+    throw new Error(result3.error.message);
+  }
+});
+
+test("Sorted Set Score & Remove", () => {
+  const db = createDB();
+  const boards = db.namespace("boards");
+  boards.zadd("weekly", 5, "a");
+  const result = db.zscore("boards:weekly", "a");
+  if (result.success) {
+    expect(result.data).toBe(5);
+  } else {
+    throw new Error(result.error.message);
+  }
+  boards.zrem("weekly", "a");
+  const result2 = boards.zscore("weekly", "a");
+  if (result2.success) {
+    throw new Error("Sorted set should be deleted");
+  }
+  expect(result2.error.message).toBe("Key not found, cannot zscore.");
+});
+
+test("Events Set & Delete", () => {
+  const db = createDB();
+  const events: string[] = [];
+  db.on("set", "user:%", ({ key }) => events.push(`set ${key}`));
+  db.on("delete", "%", ({ key }) => events.push(`delete ${key}`));
+  db.set("user:1", "Ahmad");
+  db.set("post:1", "Hello");
+  db.delete("user:1");
+  db.delete("missing");
+  expect(events).toEqual(["set user:1", "delete user:1"]);
+});
+
+test("Events After Commit", () => {
+  const db = createDB();
+  const seen: boolean[] = [];
+  db.on("set", "%", () => seen.push(db.exists("key2").success));
+  db.multiSet([
+    { key: "key1", value: "value1" },
+    { key: "key2", value: "value2" },
+  ]);
+  expect(seen).toEqual([true, true]);
+});
+
+test("Events Expire & Increment", () => {
+  const db = createDB();
+  const payloads: unknown[] = [];
+  db.set("counter", 1, new Date("2030-01-01"));
+  db.on("expire", "%", (payload) => payloads.push(payload));
+  db.on("increment", "%", (payload) => payloads.push(payload));
+  db.persist("counter");
+  db.decrement("counter", 3);
+  expect(payloads).toEqual([
+    {
+      key: "counter",
+      namespace: null,
+      expiresAt: null,
+      previousExpiresAt: new Date("2030-01-01").getTime(),
+    },
+    { key: "counter", namespace: null, amount: -3, value: -2 },
+  ]);
+});
+
+test("Namespace Events & Off", () => {
+  const db = createDB();
+  const users = db.namespace("users");
+  const events: unknown[] = [];
+  const handler = (payload: { key: string; namespace: string | null }) => events.push(payload);
+  users.on("delete", "%", handler);
+  users.set("1", "Ahmad", new Date("2005-01-01"));
+  db.set("1", "other", new Date("2005-01-01"));
+  db.cleanup();
+  expect(events).toEqual([{ key: "users:1", namespace: null, expired: true }]);
+  users.off("delete", handler);
+  users.set("2", "Sara");
+  users.delete("2");
+  expect(events.length).toBe(1);
+  expect(users.off("delete", handler).success).toBe(false);
+});
+
+test("Expiry Sweeper", async () => {
+  const db = new MiftahDB(":memory:", { cleanupInterval: 10, cleanupBatchSize: 2 });
+  const deleted: string[] = [];
+  db.on("delete", "%", ({ key }) => deleted.push(key));
+  db.set("key1", "value1", new Date("2005-01-01"));
+  db.set("key2", "value2", new Date("2005-01-01"));
+  db.set("key3", "value3", new Date("2005-01-01"));
+  db.set("key4", "value4");
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(db.count().success && db.count().data).toBe(1);
+  expect(deleted.sort()).toEqual(["key1", "key2", "key3"]);
+  const result = db.sweepStats();
+  if (result.success) {
+    expect(result.data.deletedKeys).toBe(3);
+    expect(result.data.errors).toBe(0);
+  } else {
+    throw new Error(result.error.message);
+  }
+  db.close();
+});
+
+test("Async API", async () => {
+  const db = new MiftahDBAsync(":memory:");
+  const bytes = new Uint8Array([1, 2, 3]);
+  await db.set("key1", { name: "Ahmad", bytes, date: new Date(0) });
+  const result = await db.get<{ name: string; bytes: Uint8Array; date: Date }>("key1");
+  if (result.success) {
+    expect(result.data.name).toBe("Ahmad");
+    expect(result.data.bytes).toEqual(bytes);
+    expect(result.data.date.getTime()).toBe(0);
+  } else {
+    throw new Error(result.error.message);
+  }
+  const users = db.namespace("users");
+  await users.rpush("list", "a", "b");
+  const range = await users.lrange<string>("list");
+  expect(range.success && range.data).toEqual(["a", "b"]);
+  const failed = await db.hget("key1", "field");
+  expect(failed.success).toBe(false);
+  const closed = await db.close();
+  expect(closed.success).toBe(true);
+  expect((await db.get("key1")).success).toBe(false);
+});
+
+test("Async Events", async () => {
+  const db = new MiftahDBAsync(":memory:");
+  const keys: string[] = [];
+  const handler = ({ key }: { key: string }) => keys.push(key);
+  await db.on("set", "user:%", handler);
+  await db.set("user:1", "value1");
+  await db.set("other", "value2");
+  await db.off("set", handler);
+  await db.set("user:2", "value3");
+  expect(keys).toEqual(["user:1"]);
+  await db.close();
+});
+
+test("Versions", () => {
+  const db = createDB();
+  db.set("key1", "value1");
+  db.set("key1", "value2");
+  const result = db.getWithVersion<string>("key1");
+  if (result.success) {
+    expect(result.data.value).toBe("value2");
+    expect(result.data.version).toBe(2);
+    expect(result.data.expiresAt).toBe(null);
+  } else {
+    throw new Error(result.error.message);
+  }
+  const updated = db.setIfVersion("key1", "value3", 2);
+  expect(updated.success && updated.data).toBe(3);
+  const stale = db.setIfVersion("key1", "value4", 2);
+  if (stale.success) {
+    throw new Error("Stale version should be a conflict");
+  }
+  expect(stale.error instanceof ConflictError).toBe(true);
+  expect(db.get("key1").success && db.get("key1").data).toBe("value3");
+  expect(db.setIfVersion("key2", "value1", 0).success).toBe(true);
+  expect(db.setIfVersion("key2", "value1", 0).success).toBe(false);
+});
+
+test("Compare And Swap", () => {
+  const db = createDB();
+  db.set("key1", { status: "pending" });
+  const swapped = db.compareAndSwap("key1", { status: "pending" }, { status: "running" });
+  expect(swapped.success && swapped.data).toBe(2);
+  const failed = db.compareAndSwap("key1", { status: "pending" }, { status: "done" });
+  if (failed.success) {
+    throw new Error("Different value should be a conflict");
+  }
+  expect(failed.error instanceof ConflictError).toBe(true);
+  expect(db.compareAndSwap("key2", 1, 2).success).toBe(false);
+});
+
+test("Version Column Upgrade", async () => {
+  const oldDB = createDB();
+  oldDB.set("key1", "value1");
+  oldDB.execute("DROP TRIGGER miftahDB_version_sequence");
+  oldDB.execute("DROP TABLE miftahDB_sequence");
+  oldDB.execute("ALTER TABLE miftahDB DROP COLUMN version");
+  oldDB.execute("DROP TABLE miftahDB_meta");
+  await oldDB.backup("upgrade_test.db");
+  const db = new MiftahDB("upgrade_test.db", { journalMode: "DELETE" });
+  const result = db.getWithVersion("key1");
+  expect(result.success && result.data.version).toBe(1);
+  db.set("key1", "value2");
+  const updated = db.getWithVersion("key1");
+  expect(updated.success && updated.data.version).toBe(2);
+  db.close();
+});
+
+test("Set Options", () => {
+  const db = createDB();
+  expect(db.set("lock", "owner1", { onlyIfNotExists: true, ttl: 60000 }).success).toBe(true);
+  const taken = db.set("lock", "owner2", { onlyIfNotExists: true });
+  if (taken.success) {
+    throw new Error("Existing key should not be overwritten");
+  }
+  expect(taken.error.message).toBe("Key already exists, cannot set.");
+  expect(db.set("missing", "value1", { onlyIfExists: true }).success).toBe(false);
+  const expiresAt = db.getExpire("lock");
+  db.set("lock", "owner3", { onlyIfExists: true, keepTtl: true });
+  expect(db.getExpire("lock")).toEqual(expiresAt);
+  const previous = db.set("lock", "owner4", { returnPrevious: true });
+  expect(previous.success && previous.data).toBe("owner3");
+  expect(db.ttl("lock").success && db.ttl("lock").data).toBe(null);
+  db.set("key1", "value1", { expiresAt: new Date("2030-01-01") });
+  const expire = db.getExpire("key1");
+  expect(expire.success && expire.data.getTime()).toBe(new Date("2030-01-01").getTime());
+  expect(db.set("key1", "value1", { ttl: 1000, keepTtl: true }).success).toBe(false);
+});
+
+test("GetDel, GetEx & GetSet", () => {
+  const db = createDB();
+  db.set("key1", "value1");
+  const deleted = db.getDel("key1");
+  expect(deleted.success && deleted.data).toBe("value1");
+  expect(db.get("key1").success).toBe(false);
+  expect(db.getDel("key1").success).toBe(false);
+  db.set("key2", "value2");
+  const extended = db.getEx("key2", { ttl: 60000 });
+  expect(extended.success && extended.data).toBe("value2");
+  const ttl = db.ttl("key2");
+  expect(ttl.success && ttl.data !== null && ttl.data > 0).toBe(true);
+  db.getEx("key2", { persist: true });
+  expect(db.ttl("key2").success && db.ttl("key2").data).toBe(null);
+  const first = db.getSet("key3", "value3");
+  expect(first.success && first.data).toBe(null);
+  const second = db.getSet("key3", "value4");
+  expect(second.success && second.data).toBe("value3");
+});
+
+test("Transaction", () => {
+  const db = createDB();
+  db.set("balance:alice", 100);
+  const result = db.transaction(
+    (tx) => {
+      tx.decrement("balance:alice", 30);
+      tx.namespace("balance").increment("bob", 30);
+      return "done";
+    },
+    { mode: "immediate" },
+  );
+  expect(result.success && result.data).toBe("done");
+  expect(db.get("balance:bob").success && db.get("balance:bob").data).toBe(30);
+  const thrown = db.transaction((tx) => {
+    tx.set("key1", "value1");
+    throw new Error("Rollback");
+  });
+  expect(!thrown.success && thrown.error.message).toBe("Rollback");
+  expect(db.exists("key1").success).toBe(false);
+  const failed = db.transaction((tx) => {
+    tx.set("key1", "value1");
+    return tx.get("missing");
+  });
+  expect(!failed.success && failed.error.message).toBe("Key not found, cannot get.");
+  expect(db.exists("key1").success).toBe(false);
+});
+
+test("Nested Transaction", () => {
+  const db = createDB();
+  const sets: string[] = [];
+  db.on("set", "%", ({ key }) => sets.push(key));
+  db.transaction((tx) => {
+    tx.set("key1", "value1");
+    const nested = tx.transaction((inner) => {
+      inner.set("key2", "value2");
+      throw new Error("Rollback savepoint");
+    });
+    expect(nested.success).toBe(false);
+    expect(sets).toEqual([]);
+  });
+  expect(db.exists("key1").success).toBe(true);
+  expect(db.exists("key2").success).toBe(false);
+  expect(sets).toEqual(["key1"]);
+});
+
+test("Serializer", () => {
+  const db = new MiftahDB(":memory:", { serializer: jsonSerializer });
+  db.set("key1", { name: "Ahmad" });
+  const raw = db.execute("SELECT value FROM miftahDB WHERE key = ?", ["key1"]);
+  if (raw.success) {
+    const [row] = raw.data as { value: Uint8Array }[];
+    expect(new TextDecoder().decode(row.value.subarray(1))).toBe('{"name":"Ahmad"}');
+  } else {
+    throw new Error(raw.error.message);
+  }
+  const msgpackDB = db.namespace("packed", { serializer: msgpackSerializer });
+  msgpackDB.set("key2", [1, 2, 3]);
+  expect(db.get("packed:key2").success && db.get("packed:key2").data).toEqual([1, 2, 3]);
+  expect(db.get("key1").success && db.get("key1").data).toEqual({ name: "Ahmad" });
+});
+
+test("Custom Serializer", () => {
+  const upperCaseSerializer = {
+    marker: 0x20,
+    name: "upper-case",
+    encode: (value: unknown) => new TextEncoder().encode(String(value).toUpperCase()),
+    decode: (bytes: Uint8Array) => new TextDecoder().decode(bytes),
+  };
+  const db = new MiftahDB(":memory:", { serializer: upperCaseSerializer });
+  db.set("key1", "value1");
+  expect(db.get("key1").success && db.get("key1").data).toBe("VALUE1");
+  expect(() => registerSerializer({ ...upperCaseSerializer, name: "other" })).toThrow();
+  expect(() => registerSerializer({ ...upperCaseSerializer, marker: 0x02 })).toThrow();
+  const other = new MiftahDB(":memory:", { serializer: { ...upperCaseSerializer } });
+  other.set("key1", "value2");
+  expect(other.get("key1").success && other.get("key1").data).toBe("VALUE2");
+  expect(db.namespace("copy", { serializer: { ...upperCaseSerializer } }).set("key1", "x").success).toBe(true);
+  const conflicting = { ...upperCaseSerializer, name: "lower-case" };
+  expect(() => new MiftahDB("serializer_test.db", { serializer: conflicting })).toThrow();
+  expect(existsSync("serializer_test.db")).toBe(false);
+});
+
+test("Compression", () => {
+  const document = { text: "lorem ipsum ".repeat(200) };
+  for (const algorithm of ["gzip", "deflate", "brotli"] as const) {
+    const db = new MiftahDB(":memory:", { compression: { algorithm, minBytes: 100 } });
+    db.set("large", document);
+    db.set("small", "value1");
+    db.rpush("list", document, "value2");
+    const raw = db.execute("SELECT value FROM miftahDB WHERE key IN ('large', 'small') ORDER BY key");
+    if (raw.success) {
+      const [large, small] = raw.data as { value: Uint8Array }[];
+      expect(large.value.length < 200).toBe(true);
+      expect(small.value.length).toBe(8);
+    } else {
+      throw new Error(raw.error.message);
+    }
+    expect(db.get("large").success && db.get("large").data).toEqual(document);
+    const removed = db.lrem("list", 0, document);
+    expect(removed.success && removed.data).toBe(1);
+    expect(db.lrange("list").success && db.lrange("list").data).toEqual(["value2"]);
+    expect(db.compareAndSwap("large", document, "value3").success).toBe(true);
+  }
+});
+
+test("Recompress", () => {
+  const document = { text: "lorem ipsum ".repeat(200) };
+  const db = new MiftahDB("recompress_test.db", { journalMode: "DELETE" });
+  db.flush();
+  db.set("key1", document);
+  db.set("key2", "value2");
+  db.hset("hash", "field", document);
+  db.namespace("users").set("key3", document);
+  db.close();
+  const compressedDB = new MiftahDB("recompress_test.db", {
+    journalMode: "DELETE",
+    compression: { algorithm: "gzip" },
+  });
+  const compressed = compressedDB.recompress(1);
+  expect(compressed.success && compressed.data).toBe(3);
+  expect(compressedDB.recompress().success && compressedDB.recompress().data).toBe(0);
+  const field = compressedDB.hget("hash", "field");
+  expect(field.success && field.data).toEqual(document);
+  compressedDB.close();
+  const plainDB = new MiftahDB("recompress_test.db", { journalMode: "DELETE" });
+  const decompressed = plainDB.recompress();
+  expect(decompressed.success && decompressed.data).toBe(3);
+  expect(plainDB.get("users:key3").success && plainDB.get("users:key3").data).toEqual(document);
+  plainDB.close();
+});
+
+test("Encryption", () => {
+  const key = { id: "key1", key: new Uint8Array(32).fill(1) };
+  const db = new MiftahDB(":memory:", {
+    encryption: { key },
+    compression: { algorithm: "gzip", minBytes: 100 },
+  });
+  db.set("token", "secret-token");
+  db.set("document", { text: "secret ".repeat(100) });
+  db.sadd("emails", "a@example.com", "b@example.com");
+  db.zadd("scores", 10, "alice");
+  const raw = db.execute("SELECT value FROM miftahDB WHERE key = ?", ["token"]);
+  if (raw.success) {
+    const [row] = raw.data as { value: Uint8Array }[];
+    expect(Buffer.from(row.value).includes("secret-token")).toBe(false);
+  } else {
+    throw new Error(raw.error.message);
+  }
+  expect(db.get("token").success && db.get("token").data).toBe("secret-token");
+  expect(db.get<{ text: string }>("document").success).toBe(true);
+  expect(db.sismember("emails", "a@example.com").success).toBe(true);
+  expect(db.scard("emails").success && db.scard("emails").data).toBe(2);
+  expect(db.zscore("scores", "alice").success && db.zscore("scores", "alice").data).toBe(10);
+  db.execute("UPDATE miftahDB SET value = CAST(value || x'00' AS BLOB) WHERE key = ?", ["token"]);
+  const tampered = db.get("token");
+  if (tampered.success) {
+    throw new Error("Tampered value should fail to decode");
+  }
+  const message = 'Value encrypted with key "key1" failed authentication, it was tampered with or the key is wrong.';
+  expect(tampered.error.message).toBe(message);
+});
+
+test("Key Rotation", () => {
+  const key1 = { id: "key1", key: new Uint8Array(32).fill(1) };
+  const key2 = { id: "key2", key: new Uint8Array(32).fill(2) };
+  const db = new MiftahDB("rotation_test.db", { journalMode: "DELETE", encryption: { key: key1 } });
+  db.flush();
+  db.set("key1", "value1");
+  db.hset("hash", "field", "value2");
+  db.sadd("set", "member1");
+  const secrets = db.namespace("secrets", { encryption: { key: { id: "secrets", key: new Uint8Array(32) } } });
+  secrets.set("key2", "value3");
+  const rotated = db.rotateKey(key2);
+  expect(rotated.success && rotated.data).toBe(3);
+  expect(db.sismember("set", "member1").success).toBe(true);
+  expect(secrets.get("key2").success && secrets.get("key2").data).toBe("value3");
+  expect(db.rotateKey({ id: "key1", key: new Uint8Array(32) }).success).toBe(false);
+  db.close();
+  const reopened = new MiftahDB("rotation_test.db", { journalMode: "DELETE", encryption: { key: key2 } });
+  expect(reopened.hget("hash", "field").success && reopened.hget("hash", "field").data).toBe("value2");
+  const foreign = reopened.get("secrets:key2");
+  expect(!foreign.success && foreign.error.message).toBe('Encryption key "secrets" not found, cannot decrypt value.');
+  reopened.close();
+});
+
+test("Scan", () => {
+  const db = new MiftahDB(":memory:");
+  for (let i = 0; i < 5; i++) db.set(`user:${i}`, i);
+  db.set("user:expired", "gone", -1000);
+  db.hset("user:hash", "field", "value");
+  db.set("other", "value");
+  const first = db.scan({ pattern: "user:%", count: 3 });
+  if (!first.success) throw new Error(first.error.message);
+  expect(first.data.entries.map((e) => e.key)).toEqual(["user:0", "user:1", "user:2"]);
+  expect(first.data.cursor).toBe("user:2");
+  expect(first.data.entries[0].value).toBe(undefined);
+  db.delete("user:1");
+  db.set("user:10", 10);
+  const second = db.scan<number>({ pattern: "user:%", cursor: first.data.cursor, count: 3, includeValues: true });
+  if (!second.success) throw new Error(second.error.message);
+  expect(second.data.entries.map((e) => e.key)).toEqual(["user:3", "user:4", "user:hash"]);
+  expect(second.data.entries[0].value).toBe(3);
+  expect(second.data.entries[2].type).toBe("hash");
+  expect(second.data.entries[2].value).toBe(null);
+  const last = db.scan({ pattern: "user:%", cursor: second.data.cursor, count: 3 });
+  expect(last.success && last.data.cursor).toBe(null);
+  expect(last.success && last.data.entries.length).toBe(0);
+  expect(db.scan({ count: 0 }).success).toBe(false);
+});
+
+test("Iterate", () => {
+  const db = new MiftahDB(":memory:");
+  const users = db.namespace("users");
+  const expiresAt = new Date(Date.now() + 60_000);
+  users.set("b", "B", expiresAt);
+  users.set("a", "A");
+  users.set("c", "C", -1000);
+  db.set("d", "D");
+  const entries = [...users.iterate<string>("%", 1)];
+  expect(entries.map((e) => [e.key, e.value])).toEqual([["a", "A"], ["b", "B"]]);
+  expect(entries[0].expiresAt).toBe(null);
+  expect(entries[1].expiresAt?.getTime()).toBe(expiresAt.getTime());
+  expect([...db.iterate()].length).toBe(3);
+});
+
+test("Async Iterate", async () => {
+  const db = new MiftahDBAsync(":memory:");
+  await db.set("key1", "value1");
+  await db.set("key2", "value2");
+  await db.set("key3", "value3");
+  const keys: string[] = [];
+  for await (const entry of db.iterate<string>("key%", 2)) keys.push(`${entry.key}=${entry.value}`);
+  expect(keys).toEqual(["key1=value1", "key2=value2", "key3=value3"]);
+  await db.close();
+});
+
+test("Literal Namespace Prefixes", () => {
+  const db = new MiftahDB(":memory:");
+  db.set("a_b:key1", "value1");
+  db.set("axb:key1", "value1");
+  db.set("100%:key1", "value1");
+  db.set("100x:key1", "value1");
+  expect(db.namespace("a_b").flush().success).toBe(true);
+  expect(db.exists("axb:key1").success && db.exists("axb:key1").data).toBe(true);
+  expect(db.namespace("100%").count().success && db.namespace("100%").count().data).toBe(1);
+  expect(db.keys("a\\_b%").success).toBe(false);
+  db.set("a_b:key2", "value2");
+  const literal = db.keys("a\\_b%");
+  expect(literal.success && literal.data).toEqual(["a_b:key2"]);
+});
+
+test("Glob Patterns", () => {
+  const db = new MiftahDB(":memory:", { patternMode: "glob" });
+  for (const key of ["user:1", "user:2", "user:10", "User:3", "user:*", "user:%"]) db.set(key, key);
+  const keys = (pattern: string) => {
+    const result = db.keys(pattern);
+    return result.success ? result.data.sort() : [];
+  };
+  expect(keys("user:?")).toEqual(["user:%", "user:*", "user:1", "user:2"]);
+  expect(keys("user:\\*")).toEqual(["user:*"]);
+  expect(keys("user:[12]*")).toEqual(["user:1", "user:10", "user:2"]);
+  expect(keys("user:[^1]")).toEqual(["user:%", "user:*", "user:2"]);
+  expect(keys("user:[0-9][0-9]")).toEqual(["user:10"]);
+  expect(db.count("User:*").success && db.count("User:*").data).toBe(1);
+  expect(db.count().success && db.count().data).toBe(6);
+  const scanned = db.scan({ pattern: "user:1*" });
+  expect(scanned.success && scanned.data.entries.map((e) => e.key)).toEqual(["user:1", "user:10"]);
+  const events: string[] = [];
+  db.on("set", "user:[0-9]", ({ key }) => events.push(key));
+  db.set("user:3", 3);
+  db.set("user:30", 30);
+  db.set("user:*", "star");
+  expect(events).toEqual(["user:3"]);
+  const stars = db.namespace("a*");
+  stars.set("key1", "value1");
+  db.set("ab:key1", "value1");
+  const flushed = stars.flush();
+  expect(flushed.success && flushed.data).toBe(1);
+  expect(db.exists("ab:key1").success && db.exists("ab:key1").data).toBe(true);
+});
+
+test("Namespace Management", () => {
+  const db = new MiftahDB(":memory:");
+  const users = db.namespace("users");
+  const admins = users.namespace("admins");
+  expect(users.namespaceName).toBe("users");
+  expect(admins.parent).toBe(users);
+  expect(db.parent).toBe(null);
+  users.set("alice", "a");
+  admins.set("bob", "b");
+  admins.hset("settings", "theme", "dark");
+  db.set("posts:1", "p");
+  db.set("sessions:1", "s", -1000);
+  db.set("plain", "value");
+  const topLevel = db.listNamespaces();
+  expect(topLevel.success && topLevel.data).toEqual(["posts", "users"]);
+  const allLevels = db.listNamespaces(Number.POSITIVE_INFINITY);
+  expect(allLevels.success && allLevels.data).toEqual(["posts", "users", "users:admins"]);
+  const nested = users.listNamespaces();
+  expect(nested.success && nested.data).toEqual(["admins"]);
+  expect(db.listNamespaces(0).success).toBe(false);
+  const stats = db.namespaceStats("users");
+  if (!stats.success) throw new Error(stats.error.message);
+  expect(stats.data.keys).toBe(3);
+  expect(stats.data.expiredKeys).toBe(0);
+  expect(stats.data.bytes > "users:alice".length + "users:admins:settings".length + "theme".length).toBe(true);
+  const expired = db.namespaceStats("sessions");
+  expect(expired.success && expired.data.expiredKeys).toBe(1);
+  const flushes: (string | null)[] = [];
+  db.on("flush", "*", ({ namespace }) => flushes.push(namespace));
+  const dropped = users.dropNamespace("admins");
+  expect(dropped.success).toBe(true);
+  const remaining = db.namespaceStats("users");
+  expect(remaining.success && remaining.data.keys).toBe(1);
+  expect(flushes).toEqual(["users:admins"]);
+  expect(users.exists("alice").success).toBe(true);
+  expect(admins.hget("settings", "theme").success).toBe(false);
+});
+
+test("Namespace Separator", () => {
+  const db = new MiftahDB(":memory:", { namespaceSeparator: "/" });
+  const users = db.namespace("users").namespace("admins");
+  users.set("bob", "b");
+  db.set("users:alice", "a");
+  const keys = db.keys();
+  expect(keys.success && keys.data.sort()).toEqual(["users/admins/bob", "users:alice"]);
+  expect(users.keys().success && users.keys().data).toEqual(["bob"]);
+  const namespaces = db.listNamespaces(2);
+  expect(namespaces.success && namespaces.data).toEqual(["users", "users/admins"]);
+  expect(() => new MiftahDB(":memory:", { namespaceSeparator: "" })).toThrow();
+});
+
+test("Validated Namespaces", () => {
+  type User = { name: string; age: number };
+  const db = new MiftahDB(":memory:");
+  const isUser = (value: unknown) => typeof value === "object" && value !== null && "name" in value;
+  const users = db.namespace<User>("users", { validate: isUser });
+  expect(users.set("alice", { name: "Alice", age: 30 }).success).toBe(true);
+  const alice = users.get("alice");
+  expect(alice.success && alice.data.name).toBe("Alice");
+  const invalid = users.set("bob", { age: 3 } as unknown as User);
+  if (invalid.success) throw new Error("Invalid value should not be set");
+  expect(invalid.error instanceof ValidationError).toBe(true);
+  expect(invalid.error.message).toBe('Value of key "bob" is invalid (Value is invalid), cannot set.');
+  expect(users.exists("bob").success).toBe(false);
+  const entries = [
+    { key: "carol", value: { name: "Carol", age: 40 } },
+    { key: "dave", value: { age: 50 } as unknown as User },
+  ];
+  expect(users.multiSet(entries).success).toBe(false);
+  expect(users.exists("carol").success).toBe(false);
+  const admins = users.namespace("admins");
+  expect(admins.set("eve", "eve" as unknown as User).success).toBe(false);
+  expect(db.set("users:bob", "anything").success).toBe(true);
+});
+
+test("Standard Schema Validation", () => {
+  const schema = {
+    "~standard": {
+      version: 1 as const,
+      vendor: "test",
+      validate: (value: unknown) =>
+        typeof value === "number" && value >= 0
+          ? { value }
+          : { issues: [{ message: "Expected a positive number", path: [{ key: "amount" }] }] },
+    },
+  };
+  const db = new MiftahDB(":memory:");
+  const balances = db.namespace<number>("balances", { validate: schema });
+  expect(balances.set("alice", 10).success).toBe(true);
+  const result = balances.setIfVersion("alice", -5, 1);
+  if (result.success) throw new Error("Invalid value should not be set");
+  expect((result.error as ValidationError).issues).toEqual([{ message: "Expected a positive number", path: ["amount"] }]);
+  const thrower = db.namespace("strict", {
+    validate: () => {
+      throw new Error("Nope");
+    },
+  });
+  const thrown = thrower.set("key1", "value1");
+  expect(thrown.success === false && thrown.error.message).toBe('Value of key "key1" is invalid (Nope), cannot set.');
+});
+
+test("Async Validated Namespaces", async () => {
+  const db = new MiftahDBAsync(":memory:");
+  const users = db.namespace("users", { validate: (value) => typeof value === "string" });
+  expect((await users.set("alice", "Alice")).success).toBe(true);
+  const result = await users.set("bob", 1);
+  expect(result.success === false && result.error instanceof ValidationError).toBe(true);
+  expect((await users.exists("bob")).success).toBe(false);
+  await db.close();
+});
+
+test("Format Version", async () => {
+  const db = createDB();
+  expect(db.formatVersion().success && db.formatVersion().data).toBe(5);
+  const meta = db.execute("SELECT key FROM miftahDB_meta ORDER BY key");
+  const metaKeys = meta.success ? (meta.data as { key: string }[]).map((row) => row.key) : [];
+  expect(metaKeys).toEqual(["created_at", "created_format_version", "format_version"]);
+  db.set("key1", "value1");
+  db.execute("UPDATE miftahDB_meta SET value = '99' WHERE key = 'format_version'");
+  await db.backup("format_test.db");
+  const message = "Database format version 99 is newer than the supported version 5, upgrade MiftahDB to open it.";
+  expect(() => new MiftahDB("format_test.db", { journalMode: "DELETE" }), { message }).toThrow();
+  const other = createDB();
+  other.set("key2", "value2");
+  const restored = await other.restore("format_test.db");
+  expect(restored.success).toBe(false);
+  expect(other.get("key2").success).toBe(true);
+});
+
+test("Export & Import", async () => {
+  const db = createDB();
+  const users = db.namespace("users");
+  users.set("alice", { name: "Alice", joined: new Date(0) }, 60000);
+  users.set("avatar", new Uint8Array([1, 2, 3]));
+  users.hset("profile", "age", 30);
+  users.rpush("log", "a", "b");
+  users.sadd("tags", "x");
+  users.zadd("scores", 5, "bob");
+  db.set("other", "value");
+  const exported = await users.exportTo("export_test.ndjson");
+  expect(exported.success && exported.data).toBe(6);
+  const other = createDB();
+  other.namespace("users").set("stale", "value");
+  const imported = await other.namespace("users").importFrom("export_test.ndjson", { mode: "replace" });
+  expect(imported.success && imported.data).toBe(6);
+  const restored = other.namespace("users");
+  expect(restored.exists("stale").success).toBe(false);
+  expect(restored.get("alice").success && restored.get("alice").data).toEqual({ name: "Alice", joined: new Date(0) });
+  const expire = restored.getExpire("alice");
+  expect(expire.success && expire.data instanceof Date).toBe(true);
+  const avatar = restored.get<Uint8Array>("avatar");
+  expect(avatar.success && [...avatar.data]).toEqual([1, 2, 3]);
+  expect(restored.hgetall("profile").success && restored.hgetall("profile").data).toEqual({ age: 30 });
+  expect(restored.lrange("log").success && restored.lrange("log").data).toEqual(["a", "b"]);
+  expect(restored.smembers("tags").success && restored.smembers("tags").data).toEqual(["x"]);
+  expect(restored.zrange("scores").success && restored.zrange("scores").data).toEqual([{ member: "bob", score: 5 }]);
+  expect(other.exists("other").success).toBe(false);
+  rmSync("export_test.ndjson");
+});
+
+test("Export & Import JSON", async () => {
+  const db = createDB();
+  db.set("key1", "value1");
+  db.set("key2", "value2", 50);
+  db.set("other", "value");
+  const exported = await db.exportTo("export_test.json", { format: "json", pattern: "key%", batchSize: 1 });
+  expect(exported.success && exported.data).toBe(2);
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  const other = createDB();
+  other.set("key1", "old");
+  other.set("kept", "value");
+  const imported = await other.importFrom("export_test.json", { batchSize: 1 });
+  expect(imported.success && imported.data).toBe(1);
+  expect(other.get("key1").success && other.get("key1").data).toBe("value1");
+  expect(other.exists("kept").success).toBe(true);
+  const withExpired = await other.importFrom("export_test.json", { skipExpired: false });
+  expect(withExpired.success && withExpired.data).toBe(2);
+  const invalid = await other.importFrom("export_test.json", { batchSize: 0 });
+  expect(invalid.success).toBe(false);
+  rmSync("export_test.json");
+});
+
+test("Backup Progress & File Restore", async () => {
+  rmSync("restore_test.db", { force: true });
+  const db = new MiftahDB("restore_test.db", { journalMode: "DELETE" });
+  db.set("key1", "value1");
+  const remaining: number[] = [];
+  const progress = ({ remainingPages }: { remainingPages: number }) => remaining.push(remainingPages);
+  const backup = await db.backup("restore_backup_test.db", { pagesPerStep: 1, progress });
+  expect(backup.success).toBe(true);
+  expect(remaining[remaining.length - 1]).toBe(0);
+  db.set("key1", "changed");
+  db.set("key2", "value2");
+  const restored = await db.restore("restore_backup_test.db");
+  expect(restored.success).toBe(true);
+  expect(db.get("key1").success && db.get("key1").data).toBe("value1");
+  expect(db.exists("key2").success).toBe(false);
+  db.set("key3", "value3");
+  const missing = await db.restore("missing_backup_test.db");
+  expect(missing.success).toBe(false);
+  expect(db.get("key3").success).toBe(true);
+  db.close();
+  const reopened = new MiftahDB("restore_test.db", { journalMode: "DELETE" });
+  expect(reopened.get("key3").success && reopened.get("key3").data).toBe("value3");
+  reopened.close();
+  rmSync("restore_test.db");
+  rmSync("restore_backup_test.db");
+});
+
+test("Change Log", () => {
+  const db = new MiftahDB(":memory:", { changeLog: true });
+  const users = db.namespace("users");
+  users.set("alice", "Alice", 60000);
+  users.rename("alice", "bob");
+  users.persist("bob");
+  db.increment("counter");
+  users.delete("bob");
+  db.set("other", "value");
+  users.flush();
+  const changes = users.changesSince(0);
+  const ops = changes.success ? changes.data.map((change) => `${change.op}:${change.key}`) : [];
+  expect(ops).toEqual(["set:alice", "delete:alice", "set:bob", "expire:bob", "delete:bob", "flush:users"]);
+  const first = changes.success ? changes.data[0] : null;
+  expect(first?.expiresAt instanceof Date && first.timestamp instanceof Date).toBe(true);
+  const sequence = db.currentSequence();
+  expect(sequence.success && sequence.data).toBe(8);
+  const later = db.changesSince(4, { limit: 1 });
+  expect(later.success && later.data.map((change) => change.key)).toEqual(["counter"]);
+  const truncated = db.truncateChangeLog(8);
+  expect(truncated.success && truncated.data).toBe(7);
+  expect(db.currentSequence().success && db.currentSequence().data).toBe(8);
+  const plain = createDB();
+  plain.set("key1", "value1");
+  expect(plain.currentSequence().success && plain.currentSequence().data).toBe(0);
+});
+
+test("Change Log Cleanup", async () => {
+  const db = new MiftahDB(":memory:", { changeLog: true });
+  db.set("key1", "value1", 1);
+  db.setExpire("key1", new Date(Date.now() + 1));
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  db.cleanup();
+  const changes = db.changesSince(0, { pattern: "key%" });
+  expect(changes.success && changes.data.map((change) => change.op)).toEqual(["set", "expire", "delete"]);
+});
+
+test("Diff", () => {
+  const ours = createDB();
+  const theirs = createDB();
+  ours.set("user:1", "Alice");
+  ours.set("user:2", "Bob");
+  ours.set("user:3", "Carol");
+  ours.hset("user:4", "age", 30);
+  ours.rpush("user:5", "a", "b");
+  theirs.set("user:1", "Alice");
+  theirs.set("user:2", "Robert");
+  theirs.set("user:6", "Dave");
+  theirs.hset("user:4", "age", 31);
+  theirs.lpush("user:5", "b");
+  theirs.lpush("user:5", "a");
+  theirs.set("other", "value");
+  const diff = ours.namespace("user").diff(theirs);
+  expect(diff.success && diff.data).toEqual({ added: ["6"], removed: ["3"], changed: ["2", "4"] });
+  const missing = ours.diff("missing_diff_test.db");
+  expect(missing.success).toBe(false);
+});
+
+test("Sync From", async () => {
+  rmSync("sync_test.db", { force: true });
+  const central = new MiftahDB("sync_test.db", { journalMode: "DELETE" });
+  central.set("key1", "central");
+  central.set("key2", "central");
+  central.sadd("key3", "a", "b");
+  const local = createDB();
+  local.set("key1", "local");
+  local.set("key2", "local");
+  local.set("key4", "local");
+  central.execute("UPDATE miftahDB SET modified_at = ? WHERE key = 'key2'", [Date.now() + 60000]);
+  const ours = local.syncFrom("sync_test.db", { strategy: "ours" });
+  expect(ours.success && ours.data).toEqual({ added: 1, updated: 0, removed: 0 });
+  expect(local.smembers("key3").success && local.smembers("key3").data).toEqual(["a", "b"]);
+  const newest = local.syncFrom("sync_test.db", { strategy: "newest", batchSize: 1 });
+  expect(newest.success && newest.data).toEqual({ added: 0, updated: 1, removed: 0 });
+  expect(local.get("key1").success && local.get("key1").data).toBe("local");
+  expect(local.get("key2").success && local.get("key2").data).toBe("central");
+  local.srem("key3", "a");
+  const touched = local.syncFrom("sync_test.db", { strategy: "newest" });
+  expect(touched.success && touched.data).toEqual({ added: 0, updated: 0, removed: 0 });
+  const theirs = local.syncFrom(central);
+  expect(theirs.success && theirs.data).toEqual({ added: 0, updated: 2, removed: 1 });
+  const diff = local.diff(central);
+  expect(diff.success && diff.data).toEqual({ added: [], removed: [], changed: [] });
+  central.execute("ALTER TABLE miftahDB DROP COLUMN modified_at");
+  const older = local.syncFrom(central);
+  expect(older.success === false && older.error.message).toBe("Database file was written by an older release, open it to upgrade it, cannot syncFrom.");
+  central.close();
+  rmSync("sync_test.db");
+});
+
+test("RESP Server", async () => {
+  const db = new MiftahDB(":memory:");
+  const server = createRespServer(db, { port: 0 });
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+  const send = (payload: string) =>
+    new Promise<string>((resolve, reject) => {
+      const socket = connect(port, "127.0.0.1");
+      let data = "";
+      socket.on("data", (chunk) => (data += chunk));
+      socket.on("close", () => resolve(data));
+      socket.on("error", reject);
+      socket.end(payload);
+    });
+  const basic = await send("*3\r\n$3\r\nSET\r\n$4\r\nname\r\n$5\r\nAlice\r\nGET name\r\nSET counter 10 NX\r\nINCRBY counter 5\r\nSET counter 1 NX\r\nGET missing\r\nEXISTS name missing\r\nMSET a 1 b 2\r\nMGET a missing b\r\nKEYS ?\r\nDBSIZE\r\nRENAME missing other\r\nGET\r\nFOO\r\n");
+  expect(basic).toBe("+OK\r\n$5\r\nAlice\r\n+OK\r\n:15\r\n$-1\r\n$-1\r\n:1\r\n+OK\r\n*3\r\n$1\r\n1\r\n$-1\r\n$1\r\n2\r\n*2\r\n$1\r\na\r\n$1\r\nb\r\n:4\r\n-ERR no such key\r\n-ERR wrong number of arguments for 'get' command\r\n-ERR unknown command 'FOO'\r\n");
+  const expiry = await send("SET temp v EX 100\r\nTTL temp\r\nTTL name\r\nTTL missing\r\nPERSIST temp\r\nPERSIST temp\r\nEXPIRE missing 10\r\nPEXPIREAT name 1\r\nEXISTS name\r\n");
+  expect(expiry).toBe("+OK\r\n:100\r\n:-1\r\n:-2\r\n:1\r\n:0\r\n:0\r\n:1\r\n:0\r\n");
+  const session = await send("SELECT users\r\nSET 1 Bob\r\nDBSIZE\r\nSELECT 0\r\nKEYS users:*\r\nHELLO 3\r\nGET missing\r\nQUIT\r\nPING\r\n");
+  expect(session).toBe("+OK\r\n+OK\r\n:1\r\n+OK\r\n*1\r\n$7\r\nusers:1\r\n%6\r\n$6\r\nserver\r\n$8\r\nmiftahdb\r\n$5\r\nproto\r\n:3\r\n$2\r\nid\r\n:3\r\n$4\r\nmode\r\n$10\r\nstandalone\r\n$4\r\nrole\r\n$6\r\nmaster\r\n$7\r\nmodules\r\n*0\r\n_\r\n+OK\r\n");
+  const first = await send("SCAN 0 MATCH * COUNT 2\r\n");
+  const cursor = first.split("\r\n")[2];
+  expect(cursor).not.toBe("0");
+  const rest = await send(`SCAN ${cursor} COUNT 10\r\n`);
+  expect(rest).toBe("*2\r\n$1\r\n0\r\n*3\r\n$7\r\ncounter\r\n$4\r\ntemp\r\n$7\r\nusers:1\r\n");
+  const invalid = await send("*1\r\nx\r\n");
+  expect(invalid).toBe("-ERR Protocol error: expected '$', got 'x'\r\n");
+  db.namespace("cache").set("old", "v", new Date(Date.now() - 1000));
+  db.namespace("cache").set("live", "v");
+  const expiredKeys = await send("SELECT cache\r\nDBSIZE\r\nKEYS [lo]*\r\nEXISTS old live\r\nGET old\r\n");
+  expect(expiredKeys).toBe("+OK\r\n:1\r\n*1\r\n$4\r\nlive\r\n:1\r\n$-1\r\n");
+  server.close();
+  db.close();
+});
+
+test("HTTP Server", async () => {
+  const db = createDB();
+  const server = createHttpServer(db, { port: 0, basePath: "/db", auth: "secret" });
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+  const request = (method: string, path: string, body?: string | Uint8Array, type = "application/json") =>
+    fetch(`http://127.0.0.1:${port}/db${path}`, {
+      method,
+      body,
+      headers: { Authorization: "Bearer secret", "Content-Type": type },
+    });
+  const unauthorized = await fetch(`http://127.0.0.1:${port}/db/keys`);
+  expect(unauthorized.status).toBe(401);
+  const put = await request("PUT", "/kv/user%3A1", JSON.stringify({ name: "Alice" }));
+  expect(await put.json()).toBe(true);
+  const got = await request("GET", "/kv/user%3A1");
+  expect(await got.json()).toEqual({ name: "Alice" });
+  await request("PUT", "/ns/files/kv/logo", new Uint8Array([1, 2, 3]), "application/octet-stream");
+  const binary = await request("GET", "/ns/files/kv/logo");
+  expect(binary.headers.get("content-type")).toBe("application/octet-stream");
+  expect(new Uint8Array(await binary.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  await request("PUT", "/kv/counter", "1");
+  const incremented = await request("POST", "/incr/counter", JSON.stringify({ amount: 4 }));
+  expect(await incremented.json()).toBe(5);
+  const expired = await request("POST", "/kv/counter/expire", JSON.stringify({ ttl: 60000 }));
+  expect(await expired.json()).toBe(true);
+  expect(db.getExpire("counter").success).toBe(true);
+  const keys = await request("GET", "/keys?pattern=user%25");
+  expect(await keys.json()).toEqual({ keys: ["user:1"], cursor: null });
+  const missing = await request("GET", "/kv/missing");
+  expect(missing.status).toBe(404);
+  expect(await missing.json()).toEqual({ error: "Key not found." });
+  db.set("old", "value", new Date(Date.now() - 1000));
+  const expiredGet = await request("GET", "/kv/old");
+  expect(expiredGet.status).toBe(404);
+  db.set("old", "value", new Date(Date.now() - 1000));
+  const expiredExpire = await request("POST", "/kv/old/expire", JSON.stringify({ ttl: 60000 }));
+  expect(expiredExpire.status).toBe(404);
+  const deleted = await request("DELETE", "/kv/user%3A1");
+  expect(await deleted.json()).toBe(1);
+  const stats = await request("GET", "/stats");
+  expect((await stats.json()).keys).toBe(2);
+  const cleanup = await request("POST", "/cleanup");
+  expect(await cleanup.json()).toBe(0);
+  const notAllowed = await request("PATCH", "/kv/counter");
+  expect(notAllowed.status).toBe(405);
+  server.close();
+  server.closeAllConnections();
+  db.close();
+});
+
+test("CLI", async () => {
+  rmSync("cli_test.db", { force: true });
+  const lines: string[] = [];
+  const output = { out: (text: string) => lines.push(text), err: (text: string) => lines.push(text) };
+  let vacuums = 0;
+  const open = (path: string, options: DBOptions) => {
+    const db = new MiftahDB(path, { ...options, autoCloseOnExit: false });
+    const vacuum = db.vacuum.bind(db);
+    db.vacuum = () => (vacuums++, vacuum());
+    return db;
+  };
+  const run = (...argv: string[]) => runCli(["cli_test.db", ...argv], open, output);
+  expect(await run("keys")).toBe(1);
+  expect(existsSync("cli_test.db")).toBe(false);
+  new MiftahDB("cli_test.db", { journalMode: "DELETE", autoCloseOnExit: false }).close();
+  lines.length = 0;
+  expect(await run("set", "user:1", '{"name":"Alice","age":30}')).toBe(0);
+  expect(await run("set", "name", "Bob", "--namespace", "users")).toBe(0);
+  expect(await run("get", "user:1")).toBe(0);
+  expect(await run("get", "name", "-n", "users")).toBe(0);
+  expect(await run("keys")).toBe(0);
+  expect(await run("count", "-n", "users")).toBe(0);
+  expect(await run("ttl", "user:1")).toBe(0);
+  expect(await run("del", "user:1", "missing")).toBe(0);
+  expect(await run("get", "user:1")).toBe(1);
+  expect(await run("unknown")).toBe(1);
+  expect(lines).toEqual(["OK", "OK", "{ name: 'Alice', age: 30 }", "'Bob'", "user:1\nusers:name", "1", "null", "1", "Error: Key not found, cannot get.", "Error: Unknown command unknown, run miftahdb --help for the list of commands."]);
+  lines.length = 0;
+  expect(await run("set", "name", "Carol", "-n", "teams/a", "--separator", "/")).toBe(0);
+  expect(await run("keys", "teams/%", "--separator", "/")).toBe(0);
+  expect(lines).toEqual(["OK", "teams/a/name"]);
+  expect(vacuums).toBe(0);
+  expect(readFileSync("cli_test.db")[18]).toBe(1);
+  const oldDB = new MiftahDB("cli_test.db", { journalMode: "DELETE", autoCloseOnExit: false });
+  oldDB.execute("DROP TRIGGER miftahDB_version_sequence");
+  oldDB.execute("DROP TABLE miftahDB_sequence");
+  oldDB.execute("ALTER TABLE miftahDB DROP COLUMN version");
+  oldDB.execute("DROP TABLE miftahDB_meta");
+  oldDB.close();
+  lines.length = 0;
+  expect(await run("keys")).toBe(1);
+  expect(lines[0].startsWith("Error: Database format version 1 is older than the current version")).toBeTruthy();
+  expect(await run("keys", "--upgrade")).toBe(0);
+  expect(await run("keys")).toBe(0);
+  expect(lines.slice(1)).toEqual(["teams/a/name\nusers:name", "teams/a/name\nusers:name"]);
+  rmSync("cli_test.db", { force: true });
+});
+
+test("Stats & Metrics", () => {
+  const db = createDB();
+  db.set("user:1", "Alice");
+  db.set("temp", "value", new Date(Date.now() - 1000));
+  db.get("user:1");
+  db.get("user:1");
+  db.get("missing");
+  db.multiGet(["user:1"]);
+  const users = db.namespace("users");
+  users.set("1", "Bob");
+  users.get("1");
+  const stats = db.stats();
+  if (!stats.success) throw stats.error;
+  expect(stats.data.keys).toBe(3);
+  expect(stats.data.expiredKeys).toBe(1);
+  expect(stats.data.getHits).toBe(4);
+  expect(stats.data.getMisses).toBe(1);
+  expect(stats.data.fileSize).toBe(0);
+  expect(stats.data.pageCount > 0 && stats.data.pageSize > 0).toBe(true);
+  expect(stats.data.operations.get.calls).toBe(4);
+  expect(stats.data.operations.get.errors).toBe(1);
+  expect(stats.data.operations.multiGet.calls).toBe(1);
+  expect(stats.data.operations.get.latency.counts.reduce((a, b) => a + b)).toBe(4);
+  const namespaced = users.stats();
+  expect(namespaced.success && namespaced.data.keys).toBe(1);
+  const metrics = db.metricsText();
+  if (!metrics.success) throw metrics.error;
+  expect(metrics.data.includes("# TYPE miftahdb_operation_duration_seconds histogram")).toBeTruthy();
+  expect(metrics.data.includes('miftahdb_operations_total{operation="get"} 4')).toBeTruthy();
+  expect(metrics.data.includes('miftahdb_operation_errors_total{operation="get"} 1')).toBeTruthy();
+  expect(metrics.data.includes('miftahdb_operation_duration_seconds_count{operation="get"} 4')).toBeTruthy();
+  expect(metrics.data.includes("miftahdb_get_misses_total 1\n")).toBeTruthy();
+  expect(metrics.data.includes('miftahdb_operations_total{operation="stats"} 2')).toBeTruthy();
+});
+
+test("List Positions", async () => {
+  const db = createDB();
+  db.rpush("queue", "a", "b", "a", "c", "a");
+  expect(db.lrem("queue", 0, "a").success).toBe(true);
+  expect(db.llen("queue").success && db.llen("queue").data).toBe(2);
+  expect(db.lindex("queue", -1).success && db.lindex("queue", -1).data).toBe("c");
+  const pushed = db.lpush("queue", "z");
+  expect(pushed.success && pushed.data).toBe(3);
+  const popped = db.rpop("queue");
+  expect(popped.success && popped.data).toBe("c");
+  const range = db.lrange("queue");
+  expect(range.success && range.data).toEqual(["z", "b"]);
+  db.rpush("gaps", 1, 2, 3);
+  db.execute("UPDATE miftahDB_list SET position = position * 10 WHERE key = 'gaps'");
+  db.execute("UPDATE miftahDB_meta SET value = '2' WHERE key = 'format_version'");
+  rmSync("list_upgrade_test.db", { force: true });
+  await db.backup("list_upgrade_test.db");
+  const upgraded = new MiftahDB("list_upgrade_test.db", { journalMode: "DELETE" });
+  expect(upgraded.llen("gaps").success && upgraded.llen("gaps").data).toBe(3);
+  const last = upgraded.lindex("gaps", 2);
+  expect(last.success && last.data).toBe(3);
+  upgraded.close();
+  rmSync("list_upgrade_test.db");
+});
+
+test("Expired Delete Payloads", async () => {
+  const db = new MiftahDB(":memory:", { cleanupInterval: 10 });
+  const users = db.namespace("users");
+  const events: { key: string }[] = [];
+  db.on("delete", "%", (payload) => events.push(payload));
+  users.namespace("posts").set("1", "post", -1000);
+  db.set("user:1234", "value", -1000);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  users.set("a:b", "user", -1000);
+  users.cleanup();
+  events.sort((a, b) => a.key.localeCompare(b.key));
+  expect(events).toEqual([
+    { key: "a:b", namespace: "users", expired: true },
+    { key: "user:1234", namespace: null, expired: true },
+    { key: "users:posts:1", namespace: null, expired: true },
+  ]);
+  db.close();
+});
+
+test("Format Version Not Rewritten", () => {
+  rmSync("meta_test.db", { force: true });
+  const db = new MiftahDB("meta_test.db", { journalMode: "DELETE" });
+  db.set("key1", "value1");
+  db.execute("CREATE TRIGGER meta_is_read_only BEFORE INSERT ON miftahDB_meta BEGIN SELECT RAISE(FAIL, 'Meta written'); END");
+  db.close();
+  const reopened = new MiftahDB("meta_test.db", { journalMode: "DELETE" });
+  expect(reopened.get("key1").success && reopened.get("key1").data).toBe("value1");
+  reopened.close();
+  rmSync("meta_test.db");
+});
+
+test("Versions Are Not Reused", async () => {
+  const db = createDB();
+  db.set("key1", "value1");
+  db.set("key1", "value2");
+  db.delete("key1");
+  db.set("key1", "value3");
+  const result = db.getWithVersion("key1");
+  expect(result.success && result.data.version).toBe(3);
+  expect(db.setIfVersion("key1", "value4", 1).success).toBe(false);
+  db.set("key2", "value1", -1000);
+  const recreated = db.setIfVersion("key2", "value2", 0);
+  expect(recreated.success && recreated.data).toBe(5);
+  db.flush();
+  db.set("key1", "value5");
+  const flushed = db.getWithVersion("key1");
+  expect(flushed.success && flushed.data.version).toBe(6);
+});
+
+test("Interface Namespaces", () => {
+  // Interfaces have no index signature, so this only compiles if namespaces accept object types
+  interface Post {
+    title: string;
+    tags: string[];
+  }
+  const db = new MiftahDB(":memory:");
+  const posts = db.namespace<Post>("posts");
+  expect(posts.set("hello", { title: "Hello", tags: ["intro"] }).success).toBe(true);
+  const post = posts.get("hello");
+  expect(post.success && post.data.tags).toEqual(["intro"]);
+  const drafts = posts.namespace("drafts");
+  expect(drafts.set("next", { title: "Next", tags: [] }).success).toBe(true);
+});
+
+test("Nested Call Metrics", async () => {
+  rmSync("metrics_export_test.ndjson", { force: true });
+  const db = createDB();
+  db.set("user:1", "Alice");
+  db.transaction((tx) => {
+    tx.get("user:1");
+    return tx.set("user:2", "Bob");
+  });
+  const exported = db.exportTo("metrics_export_test.ndjson");
+  db.get("user:2");
+  expect((await exported).success).toBe(true);
+  const stats = db.stats();
+  if (!stats.success) throw stats.error;
+  expect(stats.data.operations.transaction.calls).toBe(1);
+  expect(stats.data.operations.get.calls).toBe(2);
+  expect(stats.data.operations.set.calls).toBe(2);
+  expect(stats.data.operations.exportTo.calls).toBe(1);
+  expect(stats.data.operations.scan).toBe(undefined);
+  rmSync("metrics_export_test.ndjson", { force: true });
+});
+
+test("Namespace Prefix Case", () => {
+  const db = new MiftahDB(":memory:", { changeLog: true });
+  const lower = db.namespace("a");
+  const upper = db.namespace("A");
+  const events: string[] = [];
+  lower.on("set", "%", (payload) => events.push(payload.key));
+  lower.set("k", "lower");
+  upper.set("k", "upper");
+  upper.set("old", "value", new Date(Date.now() - 1000));
+  expect(events).toEqual(["k"]);
+  expect(lower.keys().success && lower.keys().data).toEqual(["k"]);
+  expect(lower.count().success && lower.count().data).toBe(1);
+  const changes = lower.changesSince(0);
+  expect(changes.success && changes.data.map((change) => change.key)).toEqual(["k"]);
+  expect(lower.cleanup().success && lower.cleanup().data).toBe(0);
+  const flushed = lower.flush();
+  expect(flushed.success && flushed.data).toBe(1);
+  expect(upper.get("k").success && upper.get("k").data).toBe("upper");
+  db.close();
+});
+
+test("Namespace Stats & Drop Case", () => {
+  const db = createDB();
+  db.namespace("users").set("a", "lower");
+  db.namespace("Users").set("x", "upper");
+  db.namespace("Users").set("y", "upper");
+  const stats = db.namespaceStats("users");
+  expect(stats.success && stats.data.keys).toBe(1);
+  const dropped = db.dropNamespace("users");
+  expect(dropped.success && dropped.data).toBe(1);
+  expect(db.namespace("Users").count().success && db.namespace("Users").count().data).toBe(2);
+  db.close();
+});
+
+test("Namespaced Lazy Expiry", () => {
+  const db = createDB();
+  const ns = db.namespace("n");
+  const events: unknown[] = [];
+  db.on("delete", "%", (payload) => events.push(payload));
+  ns.set("e", "value", new Date(Date.now() - 1000));
+  ns.set("t", "value", new Date(Date.now() - 1000));
+  expect(ns.get("e").success).toBe(false);
+  expect(ns.ttl("t").success).toBe(false);
+  expect(db.exists("n:e").success).toBe(false);
+  expect(db.exists("n:t").success).toBe(false);
+  expect(events).toEqual([
+    { key: "e", namespace: "n", expired: true },
+    { key: "t", namespace: "n", expired: true },
+  ]);
+  db.close();
+});
+
+test("Data Type Events & Change Log", () => {
+  const db = new MiftahDB(":memory:", { changeLog: true });
+  const events: unknown[] = [];
+  db.on("set", "%", (payload) => events.push(payload));
+  db.on("delete", "%", (payload) => events.push(payload));
+  db.hset("hash", "field", 1);
+  db.lpush("list", "a");
+  db.sadd("set", "a");
+  db.sadd("set", "a");
+  db.zadd("zset", 1, "a");
+  db.lpop("list");
+  expect(events).toEqual([
+    { key: "hash", namespace: null, expiresAt: null, previousExpiresAt: null, operation: "hset" },
+    { key: "list", namespace: null, expiresAt: null, previousExpiresAt: null, operation: "lpush" },
+    { key: "set", namespace: null, expiresAt: null, previousExpiresAt: null, operation: "sadd" },
+    { key: "zset", namespace: null, expiresAt: null, previousExpiresAt: null, operation: "zadd" },
+    { key: "list", namespace: null, expired: false, operation: "lpop" },
+  ]);
+  const changes = db.changesSince(0);
+  const logged = changes.success && changes.data.map((change) => [change.op, change.key]);
+  expect(logged).toEqual([["set", "hash"], ["set", "list"], ["set", "set"], ["set", "zset"], ["delete", "list"]]);
+  db.close();
+});
+
+test("Encryption Tampering", () => {
+  const key = { id: "key1", key: new Uint8Array(32).fill(1) };
+  const plain = new MiftahDB("tamper_test.db", { journalMode: "DELETE" });
+  plain.flush();
+  plain.set("plain", "attacker");
+  plain.close();
+  const db = new MiftahDB("tamper_test.db", { journalMode: "DELETE", encryption: { key } });
+  db.set("a", "value-a");
+  db.set("b", "value-b");
+  db.hset("hash", "field", "value-c");
+  db.rpush("list", "element");
+  const notEncrypted = "Value is not encrypted, it was tampered with or written before encryption was enabled.";
+  db.execute("UPDATE miftahDB SET value = (SELECT value FROM miftahDB WHERE key = 'plain') WHERE key = ?", ["a"]);
+  const overwritten = db.get("a");
+  expect(!overwritten.success && overwritten.error.message).toBe(notEncrypted);
+  db.execute("UPDATE miftahDB SET value = (SELECT value FROM miftahDB WHERE key = 'b') WHERE key = ?", ["a"]);
+  const moved = db.get("a");
+  const message = 'Value encrypted with key "key1" failed authentication, it was tampered with or the key is wrong.';
+  expect(!moved.success && moved.error.message).toBe(message);
+  db.hset("other", "field", "value-d");
+  db.execute("UPDATE miftahDB_hash SET value = (SELECT value FROM miftahDB_hash WHERE key = 'hash') WHERE key = ?", ["other"]);
+  const movedField = db.hget("other", "field");
+  expect(!movedField.success && movedField.error.message).toBe(message);
+  db.rename("b", "renamed");
+  expect(db.get("renamed").success && db.get("renamed").data).toBe("value-b");
+  db.rename("list", "renamedList");
+  const popped = db.rpoplpush("renamedList", "otherList");
+  expect(popped.success && popped.data).toBe("element");
+  expect(db.lindex("otherList", 0).success && db.lindex("otherList", 0).data).toBe("element");
+  db.close();
+  const migrating = new MiftahDB("tamper_test.db", { journalMode: "DELETE", encryption: { key, allowUnencrypted: true } });
+  expect(migrating.get("plain").success && migrating.get("plain").data).toBe("attacker");
+  migrating.close();
+});
+
+test("Namespaced Restore", async () => {
+  rmSync("namespace_restore_test.db", { force: true });
+  const db = new MiftahDB("namespace_restore_test.db", { journalMode: "DELETE" });
+  const users = db.namespace("users");
+  db.set("root", "value1");
+  users.set("1", "Alice");
+  await db.backup("namespace_restore_backup_test.db");
+  db.set("root", "changed");
+  users.set("1", "Bob");
+  const restored = await users.restore("namespace_restore_backup_test.db");
+  expect(restored.success).toBe(true);
+  expect(db.get("root").success && db.get("root").data).toBe("value1");
+  expect(users.get("1").success && users.get("1").data).toBe("Alice");
+  expect(db.namespace("users").get("1").success).toBe(true);
+  const memory = new MiftahDB(":memory:");
+  const posts = memory.namespace("posts");
+  const memoryRestored = await posts.restore("namespace_restore_backup_test.db");
+  expect(memoryRestored.success).toBe(true);
+  expect(memory.get("users:1").success && memory.get("users:1").data).toBe("Alice");
+  memory.close();
+  db.close();
+  rmSync("namespace_restore_test.db");
+  rmSync("namespace_restore_backup_test.db");
+});
@@ -1,6 +1,22 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { MiftahDB, type Result } from "../src/index";
+import { once } from "node:events";
+import { existsSync, readFileSync, rmSync } from "node:fs";
+import { type AddressInfo, connect } from "node:net";
+import {
+  ConflictError,
+  createHttpServer,
+  createRespServer,
+  jsonSerializer,
+  MiftahDB,
+  MiftahDBAsync,
+  msgpackSerializer,
+  registerSerializer,
+  type Result,
+  ValidationError,
+} from "../src/index";
+import { runCli } from "../src/cli";
+import type { DBOptions } from "../src/types";
 
 function createDB() {
   return new MiftahDB(":memory:");
@@ -517,4 +533,1494 @@ describe("MiftahDB Node Tests", () => {
       throw new Error(result2.error.message);
     }
   });
+
+  it("Hash Set & Get", () => {
+    const db = createDB();
+    db.hset("user:1", "name", "Ahmad");
+    db.hset("user:1", "age", 30);
+    const result = db.hget<string>("user:1", "name");
+    if (result.success) {
+      assert.strictEqual(result.data, "Ahmad");
+    } else {
+      throw new Error(result.error.message);
+    }
+    const result2 = db.hgetall("user:1");
+    if (result2.success) {
+      assert.deepStrictEqual(result2.data, { age: 30, name: "Ahmad" });
+    } else {
+      throw new Error(result2.error.message);
+    }
+    const result3 = db.hmget("user:1", ["name", "missing"]);
+    if (result3.success) {
+      assert.deepStrictEqual(result3.data, ["Ahmad", null]);
+    } else {
+      throw new Error(result3.error.message);
+    }
+    const result4 = db.get("user:1");
+    if (result4.success) {
+      throw new Error("Hash should not be readable with get");
+    }
+    assert.strictEqual(result4.error.message, 'Key "user:1" holds a hash, cannot get.');
+  });
+
+  it("Hash Delete & Len", () => {
+    const db = createDB();
+    db.hset("user:1", "name", "Ahmad");
+    db.hset("user:1", "age", 30);
+    assert.strictEqual(db.hlen("user:1").success && db.hlen("user:1").data, 2);
+    const result = db.hdel("user:1", ["age", "missing"]);
+    if (result.success) {
+      assert.strictEqual(result.data, 1);
+    } else {
+      throw new Error(result.error.message);
+    }
+    db.hdel("user:1", "name");
+    assert.strictEqual(db.exists("user:1").success, false);
+  });
+
+  it("Hash Increment", () => {
+    const db = createDB();
+    db.hincrby("stats", "visits");
+    const result = db.hincrby("stats", "visits", 5);
+    if (result.success) {
+      assert.strictEqual(result.data, 6);
+    } else {
+      throw new Error(result.error.message);
+    }
+  });
+
+  it("Hash Expire & Delete", () => {
+    const db = createDB();
+    db.hset("session", "token", "abc");
+    db.setExpire("session", new Date("2020-01-01"));
+    const result = db.hget("session", "token");
+    if (result.success) {
+      throw new Error("Hash should be expired");
+    }
+    assert.strictEqual(result.error.message, "Key not found, cannot hget.");
+    db.hset("session", "token", "def");
+    db.delete("session");
+    assert.strictEqual(db.hlen("session").success && db.hlen("session").data, 0);
+  });
+
+  it("Namespace Hash", () => {
+    const db = createDB();
+    const users = db.namespace("users");
+    users.hset("1", "name", "Ahmad");
+    users.rename("1", "2");
+    const result = db.hget("users:2", "name");
+    if (result.success) {
+      assert.strictEqual(result.data, "Ahmad");
+    } else {
+      throw new Error(result.error.message);
+    }
+    users.flush();
+    assert.strictEqual(db.hlen("users:2").success && db.hlen("users:2").data, 0);
+  });
+
+  it("List Push & Range", () => {
+    const db = createDB();
+    db.rpush("tasks", "b", "c");
+    const pushResult = db.lpush("tasks", "a");
+    if (pushResult.success) {
+      assert.strictEqual(pushResult.data, 3);
+    } else {
+      throw new Error(pushResult.error.message);
+    }
+    const result = db.lrange("tasks");
+    if (result.success) {
+      assert.deepStrictEqual(result.data, ["a", "b", "c"]);
+    } else {
+      throw new Error(result.error.message);
+    }
+    const result2 = db.lrange("tasks", -2, -1);
+    if (result2.success) {
+      assert.deepStrictEqual(result2.data, ["b", "c"]);
+    } else {
+      throw new Error(result2.error.message);
+    }
+    const result3 = db.lindex("tasks", -1);
+    if (result3.success) {
+      assert.strictEqual(result3.data, "c");
+    } else {
+      throw new Error(result3.error.message);
+    }
+  });
+
+  it("List Pop", () => {
+    const db = createDB();
+    db.rpush("tasks", "a", "b");
+    const result = db.lpop("tasks");
+    if (result.success) {
+      assert.strictEqual(result.data, "a");
+    } else {
+      throw new Error(result.error.message);
+    }
+    const result2 = db.rpop("tasks");
+    if (result2.success) {
+      assert.strictEqual(result2.data, "b");
+    } else {
+      throw new Error(result2.error.message);
+    }
+    const result3 = db.rpop("tasks");
+    if (result3.success) {
+      throw new Error("List should be empty");
+    }
+    assert.strictEqual(result3.error.message, "Key not found, cannot rpop.");
+    assert.strictEqual(db.exists("tasks").success, false);
+  });
+
+  it("List Trim & Remove", () => {
+    const db = createDB();
+    db.rpush("log", 1, 2, 1, 3, 1, 4);
+    const result = db.lrem("log", -2, 1);
+    if (result.success) {
+      assert.strictEqual(result.data, 2);
+    } else {
+      throw new Error(result.error.message);
+    }
+    db.ltrim("log", 1, -1);
+    const result2 = db.lrange("log");
+    if (result2.success) {
+      assert.deepStrictEqual(result2.data, [2, 3, 4]);
+    } else {
+      throw new Error(result2.error.message);
+    }
+  });
+
+  it("List RPopLPush", () => {
+    const db = createDB();
+    db.rpush("pending", "job1", "job2");
+    const result = db.rpoplpush("pending", "processing");
+    if (result.success) {
+      assert.strictEqual(result.data, "job2");
+    } else {
+      throw new Error(result.error.message);
+    }
+    const result2 = db.lrange("processing");
+    if (result2.success) {
+      assert.deepStrictEqual(result2.data, ["job2"]);
+    } else {
+      throw new Error(result2.error.message);
+    }
+  });
+
+  it("Namespace List Rename & Expire", () => {
+    const db = createDB();
+    const queues = db.namespace("queues");
+    queues.rpush("a", "x", "y");
+    queues.rename("a", "b");
+    const result = db.llen("queues:b");
+    if (result.success) {
+      assert.strictEqual(result.data, 2);
+    } else {
+      throw new Error(result.error.message);
+    }
+    queues.setExpire("b", new Date("2020-01-01"));
+    const result2 = queues.lrange("b");
+    if (result2.success) {
+      assert.deepStrictEqual(result2.data, []);
+    } else {
+      throw new Error(result2.error.message);
+    }
+  });
+
+  it("Set Add & Members", () => {
+    const db = createDB();
+    db.sadd("tags", "node", "bun");
+    const result = db.sadd("tags", "node", "sqlite");
+    if (result.success) {
+      assert.strictEqual(result.data, 1);
+    } else {
+      throw new Error(result.error.message);
+    }
+    const result2 = db.smembers<string>("tags");
+    if (result2.success) {
+      assert.deepStrictEqual(result2.data.sort(), ["bun", "node", "sqlite"]);
+    } else {
+      throw new Error(result2.error.message);
+    }
+    assert.strictEqual(db.sismember("tags", "bun").success && db.sismember("tags", "bun").data, true);
+    db.srem("tags", "node", "bun", "sqlite");
+    assert.strictEqual(db.scard("tags").success && db.scard("tags").data, 0);
+    assert.strictEqual(db.exists("tags").success, false);
+  });
+
+  it("Set Inter/Union/Diff", () => {
+    const db = createDB();
+    db.sadd("a", 1, 2, 3);
+    db.sadd("b", 2, 3, 4);
+    const inter = db.sinter<number>(["a", "b"]);
+    if (inter.success) {
+      assert.deepStrictEqual(inter.data.sort(), [2, 3]);
+    } else {
+      throw new Error(inter.error.message);
+    }
+    const union = db.sunion<number>(["a", "b"]);
+    if (union.success) {
+      assert.deepStrictEqual(union.data.sort(), [1, 2, 3, 4]);
+    } else {
+      throw new Error(union.error.message);
+    }
+    const diff = db.sdiff<number>(["a", "b"]);
+    if (diff.success) {
+      assert.deepStrictEqual(diff.data, [1]);
+    } else {
+      throw new Error(diff.error.message);
+    }
+  });
+
+  it("Sorted Set Add & Range", () => {
+    const db = createDB();
+    db.zadd("board", 30, "c");
+    db.zadd("board", 10, "a");
+    db.zadd("board", 20, "b");
+    db.zincrby("board", 25, "a");
+    const result = db.zrange("board");
+    if (result.success) {
+      assert.deepStrictEqual(result.data, [
+        { member: "b", score: 20 },
+        { member: "c", score: 30 },
+        { member: "a", score: 35 },
+      ]);
+    } else {
+      throw new Error(result.error.message);
+    }
+    const result2 = db.zrangebyscore("board", 25, Infinity, { limit: 1 });
+    if (result2.success) {
+      assert.deepStrictEqual(result2.data, [{ member: "c", score: 30 }]);
+    } else {
+      throw new Error(result2.error.message);
+    }
+    const result3 = db.zrank("board", "a");
+    if (result3.success) {
+      assert.strictEqual(result3.data, 2);
+    } else {
+      throw new Error(result3.error.message);
+    }
+  });
+
+  it("Sorted Set Score & Remove", () => {
+    const db = createDB();
+    const boards = db.namespace("boards");
+    boards.zadd("weekly", 5, "a");
+    const result = db.zscore("boards:weekly", "a");
+    if (result.success) {
+      assert.strictEqual(result.data, 5);
+    } else {
+      throw new Error(result.error.message);
+    }
+    boards.zrem("weekly", "a");
+    const result2 = boards.zscore("weekly", "a");
+    if (result2.success) {
+      throw new Error("Sorted set should be deleted");
+    }
+    assert.strictEqual(result2.error.message, "Key not found, cannot zscore.");
+  });
+
+  it("Events Set & Delete", () => {
+    const db = createDB();
+    const events: string[] = [];
+    db.on("set", "user:%", ({ key }) => events.push(`set ${key}`));
+    db.on("delete", "%", ({ key }) => events.push(`delete ${key}`));
+    db.set("user:1", "Ahmad");
+    db.set("post:1", "Hello");
+    db.delete("user:1");
+    db.delete("missing");
+    assert.deepStrictEqual(events, ["set user:1", "delete user:1"]);
+  });
+
+  it("Events After Commit", () => {
+    const db = createDB();
+    const seen: boolean[] = [];
+    db.on("set", "%", () => seen.push(db.exists("key2").success));
+    db.multiSet([
+      { key: "key1", value: "value1" },
+      { key: "key2", value: "value2" },
+    ]);
+    assert.deepStrictEqual(seen, [true, true]);
+  });
+
+  it("Events Expire & Increment", () => {
+    const db = createDB();
+    const payloads: unknown[] = [];
+    db.set("counter", 1, new Date("2030-01-01"));
+    db.on("expire", "%", (payload) => payloads.push(payload));
+    db.on("increment", "%", (payload) => payloads.push(payload));
+    db.persist("counter");
+    db.decrement("counter", 3);
+    assert.deepStrictEqual(payloads, [
+      {
+        key: "counter",
+        namespace: null,
+        expiresAt: null,
+        previousExpiresAt: new Date("2030-01-01").getTime(),
+      },
+      { key: "counter", namespace: null, amount: -3, value: -2 },
+    ]);
+  });
+
+  it("Namespace Events & Off", () => {
+    const db = createDB();
+    const users = db.namespace("users");
+    const events: unknown[] = [];
+    const handler = (payload: { key: string; namespace: string | null }) => events.push(payload);
+    users.on("delete", "%", handler);
+    users.set("1", "Ahmad", new Date("2005-01-01"));
+    db.set("1", "other", new Date("2005-01-01"));
+    db.cleanup();
+    assert.deepStrictEqual(events, [{ key: "users:1", namespace: null, expired: true }]);
+    users.off("delete", handler);
+    users.set("2", "Sara");
+    users.delete("2");
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(users.off("delete", handler).success, false);
+  });
+
+  it("Expiry Sweeper", async () => {
+    const db = new MiftahDB(":memory:", { cleanupInterval: 10, cleanupBatchSize: 2 });
+    const deleted: string[] = [];
+    db.on("delete", "%", ({ key }) => deleted.push(key));
+    db.set("key1", "value1", new Date("2005-01-01"));
+    db.set("key2", "value2", new Date("2005-01-01"));
+    db.set("key3", "value3", new Date("2005-01-01"));
+    db.set("key4", "value4");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.strictEqual(db.count().success && db.count().data, 1);
+    assert.deepStrictEqual(deleted.sort(), ["key1", "key2", "key3"]);
+    const result = db.sweepStats();
+    if (result.success) {
+      assert.strictEqual(result.data.deletedKeys, 3);
+      assert.strictEqual(result.data.errors, 0);
+    } else {
+      throw new Error(result.error.message);
+    }
+    db.close();
+  });
+
+  it("Async API", async () => {
+    const db = new MiftahDBAsync(":memory:");
+    const bytes = new Uint8Array([1, 2, 3]);
+    await db.set("key1", { name: "Ahmad", bytes, date: new Date(0) });
+    const result = await db.get<{ name: string; bytes: Uint8Array; date: Date }>("key1");
+    if (result.success) {
+      assert.strictEqual(result.data.name, "Ahmad");
+      assert.deepStrictEqual(result.data.bytes, bytes);
+      assert.strictEqual(result.data.date.getTime(), 0);
+    } else {
+      throw new Error(result.error.message);
+    }
+    const users = db.namespace("users");
+    await users.rpush("list", "a", "b");
+    const range = await users.lrange<string>("list");
+    assert.deepStrictEqual(range.success && range.data, ["a", "b"]);
+    const failed = await db.hget("key1", "field");
+    assert.strictEqual(failed.success, false);
+    const closed = await db.close();
+    assert.strictEqual(closed.success, true);
+    assert.strictEqual((await db.get("key1")).success, false);
+  });
+
+  it("Async Events", async () => {
+    const db = new MiftahDBAsync(":memory:");
+    const keys: string[] = [];
+    const handler = ({ key }: { key: string }) => keys.push(key);
+    await db.on("set", "user:%", handler);
+    await db.set("user:1", "value1");
+    await db.set("other", "value2");
+    await db.off("set", handler);
+    await db.set("user:2", "value3");
+    assert.deepStrictEqual(keys, ["user:1"]);
+    await db.close();
+  });
+
+  it("Versions", () => {
+    const db = createDB();
+    db.set("key1", "value1");
+    db.set("key1", "value2");
+    const result = db.getWithVersion<string>("key1");
+    if (result.success) {
+      assert.strictEqual(result.data.value, "value2");
+      assert.strictEqual(result.data.version, 2);
+      assert.strictEqual(result.data.expiresAt, null);
+    } else {
+      throw new Error(result.error.message);
+    }
+    const updated = db.setIfVersion("key1", "value3", 2);
+    assert.strictEqual(updated.success && updated.data, 3);
+    const stale = db.setIfVersion("key1", "value4", 2);
+    if (stale.success) {
+      throw new Error("Stale version should be a conflict");
+    }
+    assert.strictEqual(stale.error instanceof ConflictError, true);
+    assert.strictEqual(db.get("key1").success && db.get("key1").data, "value3");
+    assert.strictEqual(db.setIfVersion("key2", "value1", 0).success, true);
+    assert.strictEqual(db.setIfVersion("key2", "value1", 0).success, false);
+  });
+
+  it("Compare And Swap", () => {
+    const db = createDB();
+    db.set("key1", { status: "pending" });
+    const swapped = db.compareAndSwap("key1", { status: "pending" }, { status: "running" });
+    assert.strictEqual(swapped.success && swapped.data, 2);
+    const failed = db.compareAndSwap("key1", { status: "pending" }, { status: "done" });
+    if (failed.success) {
+      throw new Error("Different value should be a conflict");
+    }
+    assert.strictEqual(failed.error instanceof ConflictError, true);
+    assert.strictEqual(db.compareAndSwap("key2", 1, 2).success, false);
+  });
+
+  it("Version Column Upgrade", async () => {
+    const oldDB = createDB();
+    oldDB.set("key1", "value1");
+    oldDB.execute("DROP TRIGGER miftahDB_version_sequence");
+    oldDB.execute("DROP TABLE miftahDB_sequence");
+    oldDB.execute("ALTER TABLE miftahDB DROP COLUMN version");
+    oldDB.execute("DROP TABLE miftahDB_meta");
+    await oldDB.backup("upgrade_test.db");
+    const db = new MiftahDB("upgrade_test.db", { journalMode: "DELETE" });
+    const result = db.getWithVersion("key1");
+    assert.strictEqual(result.success && result.data.version, 1);
+    db.set("key1", "value2");
+    const updated = db.getWithVersion("key1");
+    assert.strictEqual(updated.success && updated.data.version, 2);
+    db.close();
+  });
+
+  it("Set Options", () => {
+    const db = createDB();
+    assert.strictEqual(db.set("lock", "owner1", { onlyIfNotExists: true, ttl: 60000 }).success, true);
+    const taken = db.set("lock", "owner2", { onlyIfNotExists: true });
+    if (taken.success) {
+      throw new Error("Existing key should not be overwritten");
+    }
+    assert.strictEqual(taken.error.message, "Key already exists, cannot set.");
+    assert.strictEqual(db.set("missing", "value1", { onlyIfExists: true }).success, false);
+    const expiresAt = db.getExpire("lock");
+    db.set("lock", "owner3", { onlyIfExists: true, keepTtl: true });
+    assert.deepStrictEqual(db.getExpire("lock"), expiresAt);
+    const previous = db.set("lock", "owner4", { returnPrevious: true });
+    assert.strictEqual(previous.success && previous.data, "owner3");
+    assert.strictEqual(db.ttl("lock").success && db.ttl("lock").data, null);
+    db.set("key1", "value1", { expiresAt: new Date("2030-01-01") });
+    const expire = db.getExpire("key1");
+    assert.strictEqual(expire.success && expire.data.getTime(), new Date("2030-01-01").getTime());
+    assert.strictEqual(db.set("key1", "value1", { ttl: 1000, keepTtl: true }).success, false);
+  });
+
+  it("GetDel, GetEx & GetSet", () => {
+    const db = createDB();
+    db.set("key1", "value1");
+    const deleted = db.getDel("key1");
+    assert.strictEqual(deleted.success && deleted.data, "value1");
+    assert.strictEqual(db.get("key1").success, false);
+    assert.strictEqual(db.getDel("key1").success, false);
+    db.set("key2", "value2");
+    const extended = db.getEx("key2", { ttl: 60000 });
+    assert.strictEqual(extended.success && extended.data, "value2");
+    const ttl = db.ttl("key2");
+    assert.strictEqual(ttl.success && ttl.data !== null && ttl.data > 0, true);
+    db.getEx("key2", { persist: true });
+    assert.strictEqual(db.ttl("key2").success && db.ttl("key2").data, null);
+    const first = db.getSet("key3", "value3");
+    assert.strictEqual(first.success && first.data, null);
+    const second = db.getSet("key3", "value4");
+    assert.strictEqual(second.success && second.data, "value3");
+  });
+
+  it("Transaction", () => {
+    const db = createDB();
+    db.set("balance:alice", 100);
+    const result = db.transaction(
+      (tx) => {
+        tx.decrement("balance:alice", 30);
+        tx.namespace("balance").increment("bob", 30);
+        return "done";
+      },
+      { mode: "immediate" },
+    );
+    assert.strictEqual(result.success && result.data, "done");
+    assert.strictEqual(db.get("balance:bob").success && db.get("balance:bob").data, 30);
+    const thrown = db.transaction((tx) => {
+      tx.set("key1", "value1");
+      throw new Error("Rollback");
+    });
+    assert.strictEqual(!thrown.success && thrown.error.message, "Rollback");
+    assert.strictEqual(db.exists("key1").success, false);
+    const failed = db.transaction((tx) => {
+      tx.set("key1", "value1");
+      return tx.get("missing");
+    });
+    assert.strictEqual(!failed.success && failed.error.message, "Key not found, cannot get.");
+    assert.strictEqual(db.exists("key1").success, false);
+  });
+
+  it("Nested Transaction", () => {
+    const db = createDB();
+    const sets: string[] = [];
+    db.on("set", "%", ({ key }) => sets.push(key));
+    db.transaction((tx) => {
+      tx.set("key1", "value1");
+      const nested = tx.transaction((inner) => {
+        inner.set("key2", "value2");
+        throw new Error("Rollback savepoint");
+      });
+      assert.strictEqual(nested.success, false);
+      assert.deepStrictEqual(sets, []);
+    });
+    assert.strictEqual(db.exists("key1").success, true);
+    assert.strictEqual(db.exists("key2").success, false);
+    assert.deepStrictEqual(sets, ["key1"]);
+  });
+
+  it("Serializer", () => {
+    const db = new MiftahDB(":memory:", { serializer: jsonSerializer });
+    db.set("key1", { name: "Ahmad" });
+    const raw = db.execute("SELECT value FROM miftahDB WHERE key = ?", ["key1"]);
+    if (raw.success) {
+      const [row] = raw.data as { value: Uint8Array }[];
+      assert.strictEqual(new TextDecoder().decode(row.value.subarray(1)), '{"name":"Ahmad"}');
+    } else {
+      throw new Error(raw.error.message);
+    }
+    const msgpackDB = db.namespace("packed", { serializer: msgpackSerializer });
+    msgpackDB.set("key2", [1, 2, 3]);
+    assert.deepStrictEqual(db.get("packed:key2").success && db.get("packed:key2").data, [1, 2, 3]);
+    assert.deepStrictEqual(db.get("key1").success && db.get("key1").data, { name: "Ahmad" });
+  });
+
+  it("Custom Serializer", () => {
+    const upperCaseSerializer = {
+      marker: 0x20,
+      name: "upper-case",
+      encode: (value: unknown) => new TextEncoder().encode(String(value).toUpperCase()),
+      decode: (bytes: Uint8Array) => new TextDecoder().decode(bytes),
+    };
+    const db = new MiftahDB(":memory:", { serializer: upperCaseSerializer });
+    db.set("key1", "value1");
+    assert.strictEqual(db.get("key1").success && db.get("key1").data, "VALUE1");
+    assert.throws(() => registerSerializer({ ...upperCaseSerializer, name: "other" }));
+    assert.throws(() => registerSerializer({ ...upperCaseSerializer, marker: 0x02 }));
+    const other = new MiftahDB(":memory:", { serializer: { ...upperCaseSerializer } });
+    other.set("key1", "value2");
+    assert.strictEqual(other.get("key1").success && other.get("key1").data, "VALUE2");
+    assert.strictEqual(db.namespace("copy", { serializer: { ...upperCaseSerializer } }).set("key1", "x").success, true);
+    const conflicting = { ...upperCaseSerializer, name: "lower-case" };
+    assert.throws(() => new MiftahDB("serializer_test.db", { serializer: conflicting }));
+    assert.strictEqual(existsSync("serializer_test.db"), false);
+  });
+
+  it("Compression", () => {
+    const document = { text: "lorem ipsum ".repeat(200) };
+    for (const algorithm of ["gzip", "deflate", "brotli"] as const) {
+      const db = new MiftahDB(":memory:", { compression: { algorithm, minBytes: 100 } });
+      db.set("large", document);
+      db.set("small", "value1");
+      db.rpush("list", document, "value2");
+      const raw = db.execute("SELECT value FROM miftahDB WHERE key IN ('large', 'small') ORDER BY key");
+      if (raw.success) {
+        const [large, small] = raw.data as { value: Uint8Array }[];
+        assert.strictEqual(large.value.length < 200, true);
+        assert.strictEqual(small.value.length, 8);
+      } else {
+        throw new Error(raw.error.message);
+      }
+      assert.deepStrictEqual(db.get("large").success && db.get("large").data, document);
+      const removed = db.lrem("list", 0, document);
+      assert.strictEqual(removed.success && removed.data, 1);
+      assert.deepStrictEqual(db.lrange("list").success && db.lrange("list").data, ["value2"]);
+      assert.strictEqual(db.compareAndSwap("large", document, "value3").success, true);
+    }
+  });
+
+  it("Recompress", () => {
+    const document = { text: "lorem ipsum ".repeat(200) };
+    const db = new MiftahDB("recompress_test.db", { journalMode: "DELETE" });
+    db.flush();
+    db.set("key1", document);
+    db.set("key2", "value2");
+    db.hset("hash", "field", document);
+    db.namespace("users").set("key3", document);
+    db.close();
+    const compressedDB = new MiftahDB("recompress_test.db", {
+      journalMode: "DELETE",
+      compression: { algorithm: "gzip" },
+    });
+    const compressed = compressedDB.recompress(1);
+    assert.strictEqual(compressed.success && compressed.data, 3);
+    assert.strictEqual(compressedDB.recompress().success && compressedDB.recompress().data, 0);
+    const field = compressedDB.hget("hash", "field");
+    assert.deepStrictEqual(field.success && field.data, document);
+    compressedDB.close();
+    const plainDB = new MiftahDB("recompress_test.db", { journalMode: "DELETE" });
+    const decompressed = plainDB.recompress();
+    assert.strictEqual(decompressed.success && decompressed.data, 3);
+    assert.deepStrictEqual(plainDB.get("users:key3").success && plainDB.get("users:key3").data, document);
+    plainDB.close();
+  });
+
+  it("Encryption", () => {
+    const key = { id: "key1", key: new Uint8Array(32).fill(1) };
+    const db = new MiftahDB(":memory:", {
+      encryption: { key },
+      compression: { algorithm: "gzip", minBytes: 100 },
+    });
+    db.set("token", "secret-token");
+    db.set("document", { text: "secret ".repeat(100) });
+    db.sadd("emails", "a@example.com", "b@example.com");
+    db.zadd("scores", 10, "alice");
+    const raw = db.execute("SELECT value FROM miftahDB WHERE key = ?", ["token"]);
+    if (raw.success) {
+      const [row] = raw.data as { value: Uint8Array }[];
+      assert.strictEqual(Buffer.from(row.value).includes("secret-token"), false);
+    } else {
+      throw new Error(raw.error.message);
+    }
+    assert.strictEqual(db.get("token").success && db.get("token").data, "secret-token");
+    assert.strictEqual(db.get<{ text: string }>("document").success, true);
+    assert.strictEqual(db.sismember("emails", "a@example.com").success, true);
+    assert.strictEqual(db.scard("emails").success && db.scard("emails").data, 2);
+    assert.strictEqual(db.zscore("scores", "alice").success && db.zscore("scores", "alice").data, 10);
+    db.execute("UPDATE miftahDB SET value = CAST(value || x'00' AS BLOB) WHERE key = ?", ["token"]);
+    const tampered = db.get("token");
+    if (tampered.success) {
+      throw new Error("Tampered value should fail to decode");
+    }
+    const message = 'Value encrypted with key "key1" failed authentication, it was tampered with or the key is wrong.';
+    assert.strictEqual(tampered.error.message, message);
+  });
+
+  it("Key Rotation", () => {
+    const key1 = { id: "key1", key: new Uint8Array(32).fill(1) };
+    const key2 = { id: "key2", key: new Uint8Array(32).fill(2) };
+    const db = new MiftahDB("rotation_test.db", { journalMode: "DELETE", encryption: { key: key1 } });
+    db.flush();
+    db.set("key1", "value1");
+    db.hset("hash", "field", "value2");
+    db.sadd("set", "member1");
+    const secrets = db.namespace("secrets", { encryption: { key: { id: "secrets", key: new Uint8Array(32) } } });
+    secrets.set("key2", "value3");
+    const rotated = db.rotateKey(key2);
+    assert.strictEqual(rotated.success && rotated.data, 3);
+    assert.strictEqual(db.sismember("set", "member1").success, true);
+    assert.strictEqual(secrets.get("key2").success && secrets.get("key2").data, "value3");
+    assert.strictEqual(db.rotateKey({ id: "key1", key: new Uint8Array(32) }).success, false);
+    db.close();
+    const reopened = new MiftahDB("rotation_test.db", { journalMode: "DELETE", encryption: { key: key2 } });
+    assert.strictEqual(reopened.hget("hash", "field").success && reopened.hget("hash", "field").data, "value2");
+    const foreign = reopened.get("secrets:key2");
+    assert.strictEqual(!foreign.success && foreign.error.message, 'Encryption key "secrets" not found, cannot decrypt value.');
+    reopened.close();
+  });
+
+  it("Scan", () => {
+    const db = new MiftahDB(":memory:");
+    for (let i = 0; i < 5; i++) db.set(`user:${i}`, i);
+    db.set("user:expired", "gone", -1000);
+    db.hset("user:hash", "field", "value");
+    db.set("other", "value");
+    const first = db.scan({ pattern: "user:%", count: 3 });
+    if (!first.success) throw new Error(first.error.message);
+    assert.deepStrictEqual(first.data.entries.map((e) => e.key), ["user:0", "user:1", "user:2"]);
+    assert.strictEqual(first.data.cursor, "user:2");
+    assert.strictEqual(first.data.entries[0].value, undefined);
+    db.delete("user:1");
+    db.set("user:10", 10);
+    const second = db.scan<number>({ pattern: "user:%", cursor: first.data.cursor, count: 3, includeValues: true });
+    if (!second.success) throw new Error(second.error.message);
+    assert.deepStrictEqual(second.data.entries.map((e) => e.key), ["user:3", "user:4", "user:hash"]);
+    assert.strictEqual(second.data.entries[0].value, 3);
+    assert.strictEqual(second.data.entries[2].type, "hash");
+    assert.strictEqual(second.data.entries[2].value, null);
+    const last = db.scan({ pattern: "user:%", cursor: second.data.cursor, count: 3 });
+    assert.strictEqual(last.success && last.data.cursor, null);
+    assert.strictEqual(last.success && last.data.entries.length, 0);
+    assert.strictEqual(db.scan({ count: 0 }).success, false);
+  });
+
+  it("Iterate", () => {
+    const db = new MiftahDB(":memory:");
+    const users = db.namespace("users");
+    const expiresAt = new Date(Date.now() + 60_000);
+    users.set("b", "B", expiresAt);
+    users.set("a", "A");
+    users.set("c", "C", -1000);
+    db.set("d", "D");
+    const entries = [...users.iterate<string>("%", 1)];
+    assert.deepStrictEqual(entries.map((e) => [e.key, e.value]), [["a", "A"], ["b", "B"]]);
+    assert.strictEqual(entries[0].expiresAt, null);
+    assert.strictEqual(entries[1].expiresAt?.getTime(), expiresAt.getTime());
+    assert.strictEqual([...db.iterate()].length, 3);
+  });
+
+  it("Async Iterate", async () => {
+    const db = new MiftahDBAsync(":memory:");
+    await db.set("key1", "value1");
+    await db.set("key2", "value2");
+    await db.set("key3", "value3");
+    const keys: string[] = [];
+    for await (const entry of db.iterate<string>("key%", 2)) keys.push(`${entry.key}=${entry.value}`);
+    assert.deepStrictEqual(keys, ["key1=value1", "key2=value2", "key3=value3"]);
+    await db.close();
+  });
+
+  it("Literal Namespace Prefixes", () => {
+    const db = new MiftahDB(":memory:");
+    db.set("a_b:key1", "value1");
+    db.set("axb:key1", "value1");
+    db.set("100%:key1", "value1");
+    db.set("100x:key1", "value1");
+    assert.strictEqual(db.namespace("a_b").flush().success, true);
+    assert.strictEqual(db.exists("axb:key1").success && db.exists("axb:key1").data, true);
+    assert.strictEqual(db.namespace("100%").count().success && db.namespace("100%").count().data, 1);
+    assert.strictEqual(db.keys("a\\_b%").success, false);
+    db.set("a_b:key2", "value2");
+    const literal = db.keys("a\\_b%");
+    assert.deepStrictEqual(literal.success && literal.data, ["a_b:key2"]);
+  });
+
+  it("Glob Patterns", () => {
+    const db = new MiftahDB(":memory:", { patternMode: "glob" });
+    for (const key of ["user:1", "user:2", "user:10", "User:3", "user:*", "user:%"]) db.set(key, key);
+    const keys = (pattern: string) => {
+      const result = db.keys(pattern);
+      return result.success ? result.data.sort() : [];
+    };
+    assert.deepStrictEqual(keys("user:?"), ["user:%", "user:*", "user:1", "user:2"]);
+    assert.deepStrictEqual(keys("user:\\*"), ["user:*"]);
+    assert.deepStrictEqual(keys("user:[12]*"), ["user:1", "user:10", "user:2"]);
+    assert.deepStrictEqual(keys("user:[^1]"), ["user:%", "user:*", "user:2"]);
+    assert.deepStrictEqual(keys("user:[0-9][0-9]"), ["user:10"]);
+    assert.strictEqual(db.count("User:*").success && db.count("User:*").data, 1);
+    assert.strictEqual(db.count().success && db.count().data, 6);
+    const scanned = db.scan({ pattern: "user:1*" });
+    assert.deepStrictEqual(scanned.success && scanned.data.entries.map((e) => e.key), ["user:1", "user:10"]);
+    const events: string[] = [];
+    db.on("set", "user:[0-9]", ({ key }) => events.push(key));
+    db.set("user:3", 3);
+    db.set("user:30", 30);
+    db.set("user:*", "star");
+    assert.deepStrictEqual(events, ["user:3"]);
+    const stars = db.namespace("a*");
+    stars.set("key1", "value1");
+    db.set("ab:key1", "value1");
+    const flushed = stars.flush();
+    assert.strictEqual(flushed.success && flushed.data, 1);
+    assert.strictEqual(db.exists("ab:key1").success && db.exists("ab:key1").data, true);
+  });
+
+  it("Namespace Management", () => {
+    const db = new MiftahDB(":memory:");
+    const users = db.namespace("users");
+    const admins = users.namespace("admins");
+    assert.strictEqual(users.namespaceName, "users");
+    assert.strictEqual(admins.parent, users);
+    assert.strictEqual(db.parent, null);
+    users.set("alice", "a");
+    admins.set("bob", "b");
+    admins.hset("settings", "theme", "dark");
+    db.set("posts:1", "p");
+    db.set("sessions:1", "s", -1000);
+    db.set("plain", "value");
+    const topLevel = db.listNamespaces();
+    assert.deepStrictEqual(topLevel.success && topLevel.data, ["posts", "users"]);
+    const allLevels = db.listNamespaces(Number.POSITIVE_INFINITY);
+    assert.deepStrictEqual(allLevels.success && allLevels.data, ["posts", "users", "users:admins"]);
+    const nested = users.listNamespaces();
+    assert.deepStrictEqual(nested.success && nested.data, ["admins"]);
+    assert.strictEqual(db.listNamespaces(0).success, false);
+    const stats = db.namespaceStats("users");
+    if (!stats.success) throw new Error(stats.error.message);
+    assert.strictEqual(stats.data.keys, 3);
+    assert.strictEqual(stats.data.expiredKeys, 0);
+    assert.strictEqual(stats.data.bytes > "users:alice".length + "users:admins:settings".length + "theme".length, true);
+    const expired = db.namespaceStats("sessions");
+    assert.strictEqual(expired.success && expired.data.expiredKeys, 1);
+    const flushes: (string | null)[] = [];
+    db.on("flush", "*", ({ namespace }) => flushes.push(namespace));
+    const dropped = users.dropNamespace("admins");
+    assert.strictEqual(dropped.success, true);
+    const remaining = db.namespaceStats("users");
+    assert.strictEqual(remaining.success && remaining.data.keys, 1);
+    assert.deepStrictEqual(flushes, ["users:admins"]);
+    assert.strictEqual(users.exists("alice").success, true);
+    assert.strictEqual(admins.hget("settings", "theme").success, false);
+  });
+
+  it("Namespace Separator", () => {
+    const db = new MiftahDB(":memory:", { namespaceSeparator: "/" });
+    const users = db.namespace("users").namespace("admins");
+    users.set("bob", "b");
+    db.set("users:alice", "a");
+    const keys = db.keys();
+    assert.deepStrictEqual(keys.success && keys.data.sort(), ["users/admins/bob", "users:alice"]);
+    assert.deepStrictEqual(users.keys().success && users.keys().data, ["bob"]);
+    const namespaces = db.listNamespaces(2);
+    assert.deepStrictEqual(namespaces.success && namespaces.data, ["users", "users/admins"]);
+    assert.throws(() => new MiftahDB(":memory:", { namespaceSeparator: "" }));
+  });
+
+  it("Validated Namespaces", () => {
+    type User = { name: string; age: number };
+    const db = new MiftahDB(":memory:");
+    const isUser = (value: unknown) => typeof value === "object" && value !== null && "name" in value;
+    const users = db.namespace<User>("users", { validate: isUser });
+    assert.strictEqual(users.set("alice", { name: "Alice", age: 30 }).success, true);
+    const alice = users.get("alice");
+    assert.strictEqual(alice.success && alice.data.name, "Alice");
+    const invalid = users.set("bob", { age: 3 } as unknown as User);
+    if (invalid.success) throw new Error("Invalid value should not be set");
+    assert.strictEqual(invalid.error instanceof ValidationError, true);
+    assert.strictEqual(invalid.error.message, 'Value of key "bob" is invalid (Value is invalid), cannot set.');
+    assert.strictEqual(users.exists("bob").success, false);
+    const entries = [
+      { key: "carol", value: { name: "Carol", age: 40 } },
+      { key: "dave", value: { age: 50 } as unknown as User },
+    ];
+    assert.strictEqual(users.multiSet(entries).success, false);
+    assert.strictEqual(users.exists("carol").success, false);
+    const admins = users.namespace("admins");
+    assert.strictEqual(admins.set("eve", "eve" as unknown as User).success, false);
+    assert.strictEqual(db.set("users:bob", "anything").success, true);
+  });
+
+  it("Standard Schema Validation", () => {
+    const schema = {
+      "~standard": {
+        version: 1 as const,
+        vendor: "test",
+        validate: (value: unknown) =>
+          typeof value === "number" && value >= 0
+            ? { value }
+            : { issues: [{ message: "Expected a positive number", path: [{ key: "amount" }] }] },
+      },
+    };
+    const db = new MiftahDB(":memory:");
+    const balances = db.namespace<number>("balances", { validate: schema });
+    assert.strictEqual(balances.set("alice", 10).success, true);
+    const result = balances.setIfVersion("alice", -5, 1);
+    if (result.success) throw new Error("Invalid value should not be set");
+    assert.deepStrictEqual((result.error as ValidationError).issues, [{ message: "Expected a positive number", path: ["amount"] }]);
+    const thrower = db.namespace("strict", {
+      validate: () => {
+        throw new Error("Nope");
+      },
+    });
+    const thrown = thrower.set("key1", "value1");
+    assert.strictEqual(thrown.success === false && thrown.error.message, 'Value of key "key1" is invalid (Nope), cannot set.');
+  });
+
+  it("Async Validated Namespaces", async () => {
+    const db = new MiftahDBAsync(":memory:");
+    const users = db.namespace("users", { validate: (value) => typeof value === "string" });
+    assert.strictEqual((await users.set("alice", "Alice")).success, true);
+    const result = await users.set("bob", 1);
+    assert.strictEqual(result.success === false && result.error instanceof ValidationError, true);
+    assert.strictEqual((await users.exists("bob")).success, false);
+    await db.close();
+  });
+
+  it("Format Version", async () => {
+    const db = createDB();
+    assert.strictEqual(db.formatVersion().success && db.formatVersion().data, 5);
+    const meta = db.execute("SELECT key FROM miftahDB_meta ORDER BY key");
+    const metaKeys = meta.success ? (meta.data as { key: string }[]).map((row) => row.key) : [];
+    assert.deepStrictEqual(metaKeys, ["created_at", "created_format_version", "format_version"]);
+    db.set("key1", "value1");
+    db.execute("UPDATE miftahDB_meta SET value = '99' WHERE key = 'format_version'");
+    await db.backup("format_test.db");
+    const message = "Database format version 99 is newer than the supported version 5, upgrade MiftahDB to open it.";
+    assert.throws(() => new MiftahDB("format_test.db", { journalMode: "DELETE" }), { message });
+    const other = createDB();
+    other.set("key2", "value2");
+    const restored = await other.restore("format_test.db");
+    assert.strictEqual(restored.success, false);
+    assert.strictEqual(other.get("key2").success, true);
+  });
+
+  it("Export & Import", async () => {
+    const db = createDB();
+    const users = db.namespace("users");
+    users.set("alice", { name: "Alice", joined: new Date(0) }, 60000);
+    users.set("avatar", new Uint8Array([1, 2, 3]));
+    users.hset("profile", "age", 30);
+    users.rpush("log", "a", "b");
+    users.sadd("tags", "x");
+    users.zadd("scores", 5, "bob");
+    db.set("other", "value");
+    const exported = await users.exportTo("export_test.ndjson");
+    assert.strictEqual(exported.success && exported.data, 6);
+    const other = createDB();
+    other.namespace("users").set("stale", "value");
+    const imported = await other.namespace("users").importFrom("export_test.ndjson", { mode: "replace" });
+    assert.strictEqual(imported.success && imported.data, 6);
+    const restored = other.namespace("users");
+    assert.strictEqual(restored.exists("stale").success, false);
+    assert.deepStrictEqual(restored.get("alice").success && restored.get("alice").data, { name: "Alice", joined: new Date(0) });
+    const expire = restored.getExpire("alice");
+    assert.strictEqual(expire.success && expire.data instanceof Date, true);
+    const avatar = restored.get<Uint8Array>("avatar");
+    assert.deepStrictEqual(avatar.success && [...avatar.data], [1, 2, 3]);
+    assert.deepStrictEqual(restored.hgetall("profile").success && restored.hgetall("profile").data, { age: 30 });
+    assert.deepStrictEqual(restored.lrange("log").success && restored.lrange("log").data, ["a", "b"]);
+    assert.deepStrictEqual(restored.smembers("tags").success && restored.smembers("tags").data, ["x"]);
+    assert.deepStrictEqual(restored.zrange("scores").success && restored.zrange("scores").data, [{ member: "bob", score: 5 }]);
+    assert.strictEqual(other.exists("other").success, false);
+    rmSync("export_test.ndjson");
+  });
+
+  it("Export & Import JSON", async () => {
+    const db = createDB();
+    db.set("key1", "value1");
+    db.set("key2", "value2", 50);
+    db.set("other", "value");
+    const exported = await db.exportTo("export_test.json", { format: "json", pattern: "key%", batchSize: 1 });
+    assert.strictEqual(exported.success && exported.data, 2);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    const other = createDB();
+    other.set("key1", "old");
+    other.set("kept", "value");
+    const imported = await other.importFrom("export_test.json", { batchSize: 1 });
+    assert.strictEqual(imported.success && imported.data, 1);
+    assert.strictEqual(other.get("key1").success && other.get("key1").data, "value1");
+    assert.strictEqual(other.exists("kept").success, true);
+    const withExpired = await other.importFrom("export_test.json", { skipExpired: false });
+    assert.strictEqual(withExpired.success && withExpired.data, 2);
+    const invalid = await other.importFrom("export_test.json", { batchSize: 0 });
+    assert.strictEqual(invalid.success, false);
+    rmSync("export_test.json");
+  });
+
+  it("Backup Progress & File Restore", async () => {
+    rmSync("restore_test.db", { force: true });
+    const db = new MiftahDB("restore_test.db", { journalMode: "DELETE" });
+    db.set("key1", "value1");
+    const remaining: number[] = [];
+    const progress = ({ remainingPages }: { remainingPages: number }) => remaining.push(remainingPages);
+    const backup = await db.backup("restore_backup_test.db", { pagesPerStep: 1, progress });
+    assert.strictEqual(backup.success, true);
+    assert.strictEqual(remaining[remaining.length - 1], 0);
+    db.set("key1", "changed");
+    db.set("key2", "value2");
+    const restored = await db.restore("restore_backup_test.db");
+    assert.strictEqual(restored.success, true);
+    assert.strictEqual(db.get("key1").success && db.get("key1").data, "value1");
+    assert.strictEqual(db.exists("key2").success, false);
+    db.set("key3", "value3");
+    const missing = await db.restore("missing_backup_test.db");
+    assert.strictEqual(missing.success, false);
+    assert.strictEqual(db.get("key3").success, true);
+    db.close();
+    const reopened = new MiftahDB("restore_test.db", { journalMode: "DELETE" });
+    assert.strictEqual(reopened.get("key3").success && reopened.get("key3").data, "value3");
+    reopened.close();
+    rmSync("restore_test.db");
+    rmSync("restore_backup_test.db");
+  });
+
+  it("Change Log", () => {
+    const db = new MiftahDB(":memory:", { changeLog: true });
+    const users = db.namespace("users");
+    users.set("alice", "Alice", 60000);
+    users.rename("alice", "bob");
+    users.persist("bob");
+    db.increment("counter");
+    users.delete("bob");
+    db.set("other", "value");
+    users.flush();
+    const changes = users.changesSince(0);
+    const ops = changes.success ? changes.data.map((change) => `${change.op}:${change.key}`) : [];
+    assert.deepStrictEqual(ops, ["set:alice", "delete:alice", "set:bob", "expire:bob", "delete:bob", "flush:users"]);
+    const first = changes.success ? changes.data[0] : null;
+    assert.strictEqual(first?.expiresAt instanceof Date && first.timestamp instanceof Date, true);
+    const sequence = db.currentSequence();
+    assert.strictEqual(sequence.success && sequence.data, 8);
+    const later = db.changesSince(4, { limit: 1 });
+    assert.deepStrictEqual(later.success && later.data.map((change) => change.key), ["counter"]);
+    const truncated = db.truncateChangeLog(8);
+    assert.strictEqual(truncated.success && truncated.data, 7);
+    assert.strictEqual(db.currentSequence().success && db.currentSequence().data, 8);
+    const plain = createDB();
+    plain.set("key1", "value1");
+    assert.strictEqual(plain.currentSequence().success && plain.currentSequence().data, 0);
+  });
+
+  it("Change Log Cleanup", async () => {
+    const db = new MiftahDB(":memory:", { changeLog: true });
+    db.set("key1", "value1", 1);
+    db.setExpire("key1", new Date(Date.now() + 1));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    db.cleanup();
+    const changes = db.changesSince(0, { pattern: "key%" });
+    assert.deepStrictEqual(changes.success && changes.data.map((change) => change.op), ["set", "expire", "delete"]);
+  });
+
+  it("Diff", () => {
+    const ours = createDB();
+    const theirs = createDB();
+    ours.set("user:1", "Alice");
+    ours.set("user:2", "Bob");
+    ours.set("user:3", "Carol");
+    ours.hset("user:4", "age", 30);
+    ours.rpush("user:5", "a", "b");
+    theirs.set("user:1", "Alice");
+    theirs.set("user:2", "Robert");
+    theirs.set("user:6", "Dave");
+    theirs.hset("user:4", "age", 31);
+    theirs.lpush("user:5", "b");
+    theirs.lpush("user:5", "a");
+    theirs.set("other", "value");
+    const diff = ours.namespace("user").diff(theirs);
+    assert.deepStrictEqual(diff.success && diff.data, { added: ["6"], removed: ["3"], changed: ["2", "4"] });
+    const missing = ours.diff("missing_diff_test.db");
+    assert.strictEqual(missing.success, false);
+  });
+
+  it("Sync From", async () => {
+    rmSync("sync_test.db", { force: true });
+    const central = new MiftahDB("sync_test.db", { journalMode: "DELETE" });
+    central.set("key1", "central");
+    central.set("key2", "central");
+    central.sadd("key3", "a", "b");
+    const local = createDB();
+    local.set("key1", "local");
+    local.set("key2", "local");
+    local.set("key4", "local");
+    central.execute("UPDATE miftahDB SET modified_at = ? WHERE key = 'key2'", [Date.now() + 60000]);
+    const ours = local.syncFrom("sync_test.db", { strategy: "ours" });
+    assert.deepStrictEqual(ours.success && ours.data, { added: 1, updated: 0, removed: 0 });
+    assert.deepStrictEqual(local.smembers("key3").success && local.smembers("key3").data, ["a", "b"]);
+    const newest = local.syncFrom("sync_test.db", { strategy: "newest", batchSize: 1 });
+    assert.deepStrictEqual(newest.success && newest.data, { added: 0, updated: 1, removed: 0 });
+    assert.strictEqual(local.get("key1").success && local.get("key1").data, "local");
+    assert.strictEqual(local.get("key2").success && local.get("key2").data, "central");
+    local.srem("key3", "a");
+    const touched = local.syncFrom("sync_test.db", { strategy: "newest" });
+    assert.deepStrictEqual(touched.success && touched.data, { added: 0, updated: 0, removed: 0 });
+    const theirs = local.syncFrom(central);
+    assert.deepStrictEqual(theirs.success && theirs.data, { added: 0, updated: 2, removed: 1 });
+    const diff = local.diff(central);
+    assert.deepStrictEqual(diff.success && diff.data, { added: [], removed: [], changed: [] });
+    central.execute("ALTER TABLE miftahDB DROP COLUMN modified_at");
+    const older = local.syncFrom(central);
+    assert.strictEqual(older.success === false && older.error.message, "Database file was written by an older release, open it to upgrade it, cannot syncFrom.");
+    central.close();
+    rmSync("sync_test.db");
+  });
+
+  it("RESP Server", async () => {
+    const db = new MiftahDB(":memory:");
+    const server = createRespServer(db, { port: 0 });
+    await once(server, "listening");
+    const { port } = server.address() as AddressInfo;
+    const send = (payload: string) =>
+      new Promise<string>((resolve, reject) => {
+        const socket = connect(port, "127.0.0.1");
+        let data = "";
+        socket.on("data", (chunk) => (data += chunk));
+        socket.on("close", () => resolve(data));
+        socket.on("error", reject);
+        socket.end(payload);
+      });
+    const basic = await send("*3\r\n$3\r\nSET\r\n$4\r\nname\r\n$5\r\nAlice\r\nGET name\r\nSET counter 10 NX\r\nINCRBY counter 5\r\nSET counter 1 NX\r\nGET missing\r\nEXISTS name missing\r\nMSET a 1 b 2\r\nMGET a missing b\r\nKEYS ?\r\nDBSIZE\r\nRENAME missing other\r\nGET\r\nFOO\r\n");
+    assert.strictEqual(basic, "+OK\r\n$5\r\nAlice\r\n+OK\r\n:15\r\n$-1\r\n$-1\r\n:1\r\n+OK\r\n*3\r\n$1\r\n1\r\n$-1\r\n$1\r\n2\r\n*2\r\n$1\r\na\r\n$1\r\nb\r\n:4\r\n-ERR no such key\r\n-ERR wrong number of arguments for 'get' command\r\n-ERR unknown command 'FOO'\r\n");
+    const expiry = await send("SET temp v EX 100\r\nTTL temp\r\nTTL name\r\nTTL missing\r\nPERSIST temp\r\nPERSIST temp\r\nEXPIRE missing 10\r\nPEXPIREAT name 1\r\nEXISTS name\r\n");
+    assert.strictEqual(expiry, "+OK\r\n:100\r\n:-1\r\n:-2\r\n:1\r\n:0\r\n:0\r\n:1\r\n:0\r\n");
+    const session = await send("SELECT users\r\nSET 1 Bob\r\nDBSIZE\r\nSELECT 0\r\nKEYS users:*\r\nHELLO 3\r\nGET missing\r\nQUIT\r\nPING\r\n");
+    assert.strictEqual(session, "+OK\r\n+OK\r\n:1\r\n+OK\r\n*1\r\n$7\r\nusers:1\r\n%6\r\n$6\r\nserver\r\n$8\r\nmiftahdb\r\n$5\r\nproto\r\n:3\r\n$2\r\nid\r\n:3\r\n$4\r\nmode\r\n$10\r\nstandalone\r\n$4\r\nrole\r\n$6\r\nmaster\r\n$7\r\nmodules\r\n*0\r\n_\r\n+OK\r\n");
+    const first = await send("SCAN 0 MATCH * COUNT 2\r\n");
+    const cursor = first.split("\r\n")[2];
+    assert.notStrictEqual(cursor, "0");
+    const rest = await send(`SCAN ${cursor} COUNT 10\r\n`);
+    assert.strictEqual(rest, "*2\r\n$1\r\n0\r\n*3\r\n$7\r\ncounter\r\n$4\r\ntemp\r\n$7\r\nusers:1\r\n");
+    const invalid = await send("*1\r\nx\r\n");
+    assert.strictEqual(invalid, "-ERR Protocol error: expected '$', got 'x'\r\n");
+    db.namespace("cache").set("old", "v", new Date(Date.now() - 1000));
+    db.namespace("cache").set("live", "v");
+    const expiredKeys = await send("SELECT cache\r\nDBSIZE\r\nKEYS [lo]*\r\nEXISTS old live\r\nGET old\r\n");
+    assert.strictEqual(expiredKeys, "+OK\r\n:1\r\n*1\r\n$4\r\nlive\r\n:1\r\n$-1\r\n");
+    server.close();
+    db.close();
+  });
+
+  it("HTTP Server", async () => {
+    const db = createDB();
+    const server = createHttpServer(db, { port: 0, basePath: "/db", auth: "secret" });
+    await once(server, "listening");
+    const { port } = server.address() as AddressInfo;
+    const request = (method: string, path: string, body?: string | Uint8Array, type = "application/json") =>
+      fetch(`http://127.0.0.1:${port}/db${path}`, {
+        method,
+        body,
+        headers: { Authorization: "Bearer secret", "Content-Type": type },
+      });
+    const unauthorized = await fetch(`http://127.0.0.1:${port}/db/keys`);
+    assert.strictEqual(unauthorized.status, 401);
+    const put = await request("PUT", "/kv/user%3A1", JSON.stringify({ name: "Alice" }));
+    assert.strictEqual(await put.json(), true);
+    const got = await request("GET", "/kv/user%3A1");
+    assert.deepStrictEqual(await got.json(), { name: "Alice" });
+    await request("PUT", "/ns/files/kv/logo", new Uint8Array([1, 2, 3]), "application/octet-stream");
+    const binary = await request("GET", "/ns/files/kv/logo");
+    assert.strictEqual(binary.headers.get("content-type"), "application/octet-stream");
+    assert.deepStrictEqual(new Uint8Array(await binary.arrayBuffer()), new Uint8Array([1, 2, 3]));
+    await request("PUT", "/kv/counter", "1");
+    const incremented = await request("POST", "/incr/counter", JSON.stringify({ amount: 4 }));
+    assert.strictEqual(await incremented.json(), 5);
+    const expired = await request("POST", "/kv/counter/expire", JSON.stringify({ ttl: 60000 }));
+    assert.strictEqual(await expired.json(), true);
+    assert.strictEqual(db.getExpire("counter").success, true);
+    const keys = await request("GET", "/keys?pattern=user%25");
+    assert.deepStrictEqual(await keys.json(), { keys: ["user:1"], cursor: null });
+    const missing = await request("GET", "/kv/missing");
+    assert.strictEqual(missing.status, 404);
+    assert.deepStrictEqual(await missing.json(), { error: "Key not found." });
+    db.set("old", "value", new Date(Date.now() - 1000));
+    const expiredGet = await request("GET", "/kv/old");
+    assert.strictEqual(expiredGet.status, 404);
+    db.set("old", "value", new Date(Date.now() - 1000));
+    const expiredExpire = await request("POST", "/kv/old/expire", JSON.stringify({ ttl: 60000 }));
+    assert.strictEqual(expiredExpire.status, 404);
+    const deleted = await request("DELETE", "/kv/user%3A1");
+    assert.strictEqual(await deleted.json(), 1);
+    const stats = await request("GET", "/stats");
+    assert.strictEqual((await stats.json()).keys, 2);
+    const cleanup = await request("POST", "/cleanup");
+    assert.strictEqual(await cleanup.json(), 0);
+    const notAllowed = await request("PATCH", "/kv/counter");
+    assert.strictEqual(notAllowed.status, 405);
+    server.close();
+    server.closeAllConnections();
+    db.close();
+  });
+
+  it("CLI", async () => {
+    rmSync("cli_test.db", { force: true });
+    const lines: string[] = [];
+    const output = { out: (text: string) => lines.push(text), err: (text: string) => lines.push(text) };
+    let vacuums = 0;
+    const open = (path: string, options: DBOptions) => {
+      const db = new MiftahDB(path, { ...options, autoCloseOnExit: false });
+      const vacuum = db.vacuum.bind(db);
+      db.vacuum = () => (vacuums++, vacuum());
+      return db;
+    };
+    const run = (...argv: string[]) => runCli(["cli_test.db", ...argv], open, output);
+    assert.strictEqual(await run("keys"), 1);
+    assert.strictEqual(existsSync("cli_test.db"), false);
+    new MiftahDB("cli_test.db", { journalMode: "DELETE", autoCloseOnExit: false }).close();
+    lines.length = 0;
+    assert.strictEqual(await run("set", "user:1", '{"name":"Alice","age":30}'), 0);
+    assert.strictEqual(await run("set", "name", "Bob", "--namespace", "users"), 0);
+    assert.strictEqual(await run("get", "user:1"), 0);
+    assert.strictEqual(await run("get", "name", "-n", "users"), 0);
+    assert.strictEqual(await run("keys"), 0);
+    assert.strictEqual(await run("count", "-n", "users"), 0);
+    assert.strictEqual(await run("ttl", "user:1"), 0);
+    assert.strictEqual(await run("del", "user:1", "missing"), 0);
+    assert.strictEqual(await run("get", "user:1"), 1);
+    assert.strictEqual(await run("unknown"), 1);
+    assert.deepStrictEqual(lines, ["OK", "OK", "{ name: 'Alice', age: 30 }", "'Bob'", "user:1\nusers:name", "1", "null", "1", "Error: Key not found, cannot get.", "Error: Unknown command unknown, run miftahdb --help for the list of commands."]);
+    lines.length = 0;
+    assert.strictEqual(await run("set", "name", "Carol", "-n", "teams/a", "--separator", "/"), 0);
+    assert.strictEqual(await run("keys", "teams/%", "--separator", "/"), 0);
+    assert.deepStrictEqual(lines, ["OK", "teams/a/name"]);
+    assert.strictEqual(vacuums, 0);
+    assert.strictEqual(readFileSync("cli_test.db")[18], 1);
+    const oldDB = new MiftahDB("cli_test.db", { journalMode: "DELETE", autoCloseOnExit: false });
+    oldDB.execute("DROP TRIGGER miftahDB_version_sequence");
+    oldDB.execute("DROP TABLE miftahDB_sequence");
+    oldDB.execute("ALTER TABLE miftahDB DROP COLUMN version");
+    oldDB.execute("DROP TABLE miftahDB_meta");
+    oldDB.close();
+    lines.length = 0;
+    assert.strictEqual(await run("keys"), 1);
+    assert.ok(lines[0].startsWith("Error: Database format version 1 is older than the current version"));
+    assert.strictEqual(await run("keys", "--upgrade"), 0);
+    assert.strictEqual(await run("keys"), 0);
+    assert.deepStrictEqual(lines.slice(1), ["teams/a/name\nusers:name", "teams/a/name\nusers:name"]);
+    rmSync("cli_test.db", { force: true });
+  });
+
+  it("Stats & Metrics", () => {
+    const db = createDB();
+    db.set("user:1", "Alice");
+    db.set("temp", "value", new Date(Date.now() - 1000));
+    db.get("user:1");
+    db.get("user:1");
+    db.get("missing");
+    db.multiGet(["user:1"]);
+    const users = db.namespace("users");
+    users.set("1", "Bob");
+    users.get("1");
+    const stats = db.stats();
+    if (!stats.success) throw stats.error;
+    assert.strictEqual(stats.data.keys, 3);
+    assert.strictEqual(stats.data.expiredKeys, 1);
+    assert.strictEqual(stats.data.getHits, 4);
+    assert.strictEqual(stats.data.getMisses, 1);
+    assert.strictEqual(stats.data.fileSize, 0);
+    assert.strictEqual(stats.data.pageCount > 0 && stats.data.pageSize > 0, true);
+    assert.strictEqual(stats.data.operations.get.calls, 4);
+    assert.strictEqual(stats.data.operations.get.errors, 1);
+    assert.strictEqual(stats.data.operations.multiGet.calls, 1);
+    assert.strictEqual(stats.data.operations.get.latency.counts.reduce((a, b) => a + b), 4);
+    const namespaced = users.stats();
+    assert.strictEqual(namespaced.success && namespaced.data.keys, 1);
+    const metrics = db.metricsText();
+    if (!metrics.success) throw metrics.error;
+    assert.ok(metrics.data.includes("# TYPE miftahdb_operation_duration_seconds histogram"));
+    assert.ok(metrics.data.includes('miftahdb_operations_total{operation="get"} 4'));
+    assert.ok(metrics.data.includes('miftahdb_operation_errors_total{operation="get"} 1'));
+    assert.ok(metrics.data.includes('miftahdb_operation_duration_seconds_count{operation="get"} 4'));
+    assert.ok(metrics.data.includes("miftahdb_get_misses_total 1\n"));
+    assert.ok(metrics.data.includes('miftahdb_operations_total{operation="stats"} 2'));
+  });
+
+  it("List Positions", async () => {
+    const db = createDB();
+    db.rpush("queue", "a", "b", "a", "c", "a");
+    assert.strictEqual(db.lrem("queue", 0, "a").success, true);
+    assert.strictEqual(db.llen("queue").success && db.llen("queue").data, 2);
+    assert.strictEqual(db.lindex("queue", -1).success && db.lindex("queue", -1).data, "c");
+    const pushed = db.lpush("queue", "z");
+    assert.strictEqual(pushed.success && pushed.data, 3);
+    const popped = db.rpop("queue");
+    assert.strictEqual(popped.success && popped.data, "c");
+    const range = db.lrange("queue");
+    assert.deepStrictEqual(range.success && range.data, ["z", "b"]);
+    db.rpush("gaps", 1, 2, 3);
+    db.execute("UPDATE miftahDB_list SET position = position * 10 WHERE key = 'gaps'");
+    db.execute("UPDATE miftahDB_meta SET value = '2' WHERE key = 'format_version'");
+    rmSync("list_upgrade_test.db", { force: true });
+    await db.backup("list_upgrade_test.db");
+    const upgraded = new MiftahDB("list_upgrade_test.db", { journalMode: "DELETE" });
+    assert.strictEqual(upgraded.llen("gaps").success && upgraded.llen("gaps").data, 3);
+    const last = upgraded.lindex("gaps", 2);
+    assert.strictEqual(last.success && last.data, 3);
+    upgraded.close();
+    rmSync("list_upgrade_test.db");
+  });
+
+  it("Expired Delete Payloads", async () => {
+    const db = new MiftahDB(":memory:", { cleanupInterval: 10 });
+    const users = db.namespace("users");
+    const events: { key: string }[] = [];
+    db.on("delete", "%", (payload) => events.push(payload));
+    users.namespace("posts").set("1", "post", -1000);
+    db.set("user:1234", "value", -1000);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    users.set("a:b", "user", -1000);
+    users.cleanup();
+    events.sort((a, b) => a.key.localeCompare(b.key));
+    assert.deepStrictEqual(events, [
+      { key: "a:b", namespace: "users", expired: true },
+      { key: "user:1234", namespace: null, expired: true },
+      { key: "users:posts:1", namespace: null, expired: true },
+    ]);
+    db.close();
+  });
+
+  it("Format Version Not Rewritten", () => {
+    rmSync("meta_test.db", { force: true });
+    const db = new MiftahDB("meta_test.db", { journalMode: "DELETE" });
+    db.set("key1", "value1");
+    db.execute("CREATE TRIGGER meta_is_read_only BEFORE INSERT ON miftahDB_meta BEGIN SELECT RAISE(FAIL, 'Meta written'); END");
+    db.close();
+    const reopened = new MiftahDB("meta_test.db", { journalMode: "DELETE" });
+    assert.strictEqual(reopened.get("key1").success && reopened.get("key1").data, "value1");
+    reopened.close();
+    rmSync("meta_test.db");
+  });
+
+  it("Versions Are Not Reused", async () => {
+    const db = createDB();
+    db.set("key1", "value1");
+    db.set("key1", "value2");
+    db.delete("key1");
+    db.set("key1", "value3");
+    const result = db.getWithVersion("key1");
+    assert.strictEqual(result.success && result.data.version, 3);
+    assert.strictEqual(db.setIfVersion("key1", "value4", 1).success, false);
+    db.set("key2", "value1", -1000);
+    const recreated = db.setIfVersion("key2", "value2", 0);
+    assert.strictEqual(recreated.success && recreated.data, 5);
+    db.flush();
+    db.set("key1", "value5");
+    const flushed = db.getWithVersion("key1");
+    assert.strictEqual(flushed.success && flushed.data.version, 6);
+  });
+
+  it("Interface Namespaces", () => {
+    // Interfaces have no index signature, so this only compiles if namespaces accept object types
+    interface Post {
+      title: string;
+      tags: string[];
+    }
+    const db = new MiftahDB(":memory:");
+    const posts = db.namespace<Post>("posts");
+    assert.strictEqual(posts.set("hello", { title: "Hello", tags: ["intro"] }).success, true);
+    const post = posts.get("hello");
+    assert.deepStrictEqual(post.success && post.data.tags, ["intro"]);
+    const drafts = posts.namespace("drafts");
+    assert.strictEqual(drafts.set("next", { title: "Next", tags: [] }).success, true);
+  });
+
+  it("Nested Call Metrics", async () => {
+    rmSync("metrics_export_test.ndjson", { force: true });
+    const db = createDB();
+    db.set("user:1", "Alice");
+    db.transaction((tx) => {
+      tx.get("user:1");
+      return tx.set("user:2", "Bob");
+    });
+    const exported = db.exportTo("metrics_export_test.ndjson");
+    db.get("user:2");
+    assert.strictEqual((await exported).success, true);
+    const stats = db.stats();
+    if (!stats.success) throw stats.error;
+    assert.strictEqual(stats.data.operations.transaction.calls, 1);
+    assert.strictEqual(stats.data.operations.get.calls, 2);
+    assert.strictEqual(stats.data.operations.set.calls, 2);
+    assert.strictEqual(stats.data.operations.exportTo.calls, 1);
+    assert.strictEqual(stats.data.operations.scan, undefined);
+    rmSync("metrics_export_test.ndjson", { force: true });
+  });
+
+  it("Namespace Prefix Case", () => {
+    const db = new MiftahDB(":memory:", { changeLog: true });
+    const lower = db.namespace("a");
+    const upper = db.namespace("A");
+    const events: string[] = [];
+    lower.on("set", "%", (payload) => events.push(payload.key));
+    lower.set("k", "lower");
+    upper.set("k", "upper");
+    upper.set("old", "value", new Date(Date.now() - 1000));
+    assert.deepStrictEqual(events, ["k"]);
+    assert.deepStrictEqual(lower.keys().success && lower.keys().data, ["k"]);
+    assert.strictEqual(lower.count().success && lower.count().data, 1);
+    const changes = lower.changesSince(0);
+    assert.deepStrictEqual(changes.success && changes.data.map((change) => change.key), ["k"]);
+    assert.strictEqual(lower.cleanup().success && lower.cleanup().data, 0);
+    const flushed = lower.flush();
+    assert.strictEqual(flushed.success && flushed.data, 1);
+    assert.strictEqual(upper.get("k").success && upper.get("k").data, "upper");
+    db.close();
+  });
+
+  it("Namespace Stats & Drop Case", () => {
+    const db = createDB();
+    db.namespace("users").set("a", "lower");
+    db.namespace("Users").set("x", "upper");
+    db.namespace("Users").set("y", "upper");
+    const stats = db.namespaceStats("users");
+    assert.strictEqual(stats.success && stats.data.keys, 1);
+    const dropped = db.dropNamespace("users");
+    assert.strictEqual(dropped.success && dropped.data, 1);
+    assert.strictEqual(db.namespace("Users").count().success && db.namespace("Users").count().data, 2);
+    db.close();
+  });
+
+  it("Namespaced Lazy Expiry", () => {
+    const db = createDB();
+    const ns = db.namespace("n");
+    const events: unknown[] = [];
+    db.on("delete", "%", (payload) => events.push(payload));
+    ns.set("e", "value", new Date(Date.now() - 1000));
+    ns.set("t", "value", new Date(Date.now() - 1000));
+    assert.strictEqual(ns.get("e").success, false);
+    assert.strictEqual(ns.ttl("t").success, false);
+    assert.strictEqual(db.exists("n:e").success, false);
+    assert.strictEqual(db.exists("n:t").success, false);
+    assert.deepStrictEqual(events, [
+      { key: "e", namespace: "n", expired: true },
+      { key: "t", namespace: "n", expired: true },
+    ]);
+    db.close();
+  });
+
+  it("Data Type Events & Change Log", () => {
+    const db = new MiftahDB(":memory:", { changeLog: true });
+    const events: unknown[] = [];
+    db.on("set", "%", (payload) => events.push(payload));
+    db.on("delete", "%", (payload) => events.push(payload));
+    db.hset("hash", "field", 1);
+    db.lpush("list", "a");
+    db.sadd("set", "a");
+    db.sadd("set", "a");
+    db.zadd("zset", 1, "a");
+    db.lpop("list");
+    assert.deepStrictEqual(events, [
+      { key: "hash", namespace: null, expiresAt: null, previousExpiresAt: null, operation: "hset" },
+      { key: "list", namespace: null, expiresAt: null, previousExpiresAt: null, operation: "lpush" },
+      { key: "set", namespace: null, expiresAt: null, previousExpiresAt: null, operation: "sadd" },
+      { key: "zset", namespace: null, expiresAt: null, previousExpiresAt: null, operation: "zadd" },
+      { key: "list", namespace: null, expired: false, operation: "lpop" },
+    ]);
+    const changes = db.changesSince(0);
+    const logged = changes.success && changes.data.map((change) => [change.op, change.key]);
+    assert.deepStrictEqual(logged, [["set", "hash"], ["set", "list"], ["set", "set"], ["set", "zset"], ["delete", "list"]]);
+    db.close();
+  });
+
+  it("Encryption Tampering", () => {
+    const key = { id: "key1", key: new Uint8Array(32).fill(1) };
+    const plain = new MiftahDB("tamper_test.db", { journalMode: "DELETE" });
+    plain.flush();
+    plain.set("plain", "attacker");
+    plain.close();
+    const db = new MiftahDB("tamper_test.db", { journalMode: "DELETE", encryption: { key } });
+    db.set("a", "value-a");
+    db.set("b", "value-b");
+    db.hset("hash", "field", "value-c");
+    db.rpush("list", "element");
+    const notEncrypted = "Value is not encrypted, it was tampered with or written before encryption was enabled.";
+    db.execute("UPDATE miftahDB SET value = (SELECT value FROM miftahDB WHERE key = 'plain') WHERE key = ?", ["a"]);
+    const overwritten = db.get("a");
+    assert.strictEqual(!overwritten.success && overwritten.error.message, notEncrypted);
+    db.execute("UPDATE miftahDB SET value = (SELECT value FROM miftahDB WHERE key = 'b') WHERE key = ?", ["a"]);
+    const moved = db.get("a");
+    const message = 'Value encrypted with key "key1" failed authentication, it was tampered with or the key is wrong.';
+    assert.strictEqual(!moved.success && moved.error.message, message);
+    db.hset("other", "field", "value-d");
+    db.execute("UPDATE miftahDB_hash SET value = (SELECT value FROM miftahDB_hash WHERE key = 'hash') WHERE key = ?", ["other"]);
+    const movedField = db.hget("other", "field");
+    assert.strictEqual(!movedField.success && movedField.error.message, message);
+    db.rename("b", "renamed");
+    assert.strictEqual(db.get("renamed").success && db.get("renamed").data, "value-b");
+    db.rename("list", "renamedList");
+    const popped = db.rpoplpush("renamedList", "otherList");
+    assert.strictEqual(popped.success && popped.data, "element");
+    assert.strictEqual(db.lindex("otherList", 0).success && db.lindex("otherList", 0).data, "element");
+    db.close();
+    const migrating = new MiftahDB("tamper_test.db", { journalMode: "DELETE", encryption: { key, allowUnencrypted: true } });
+    assert.strictEqual(migrating.get("plain").success && migrating.get("plain").data, "attacker");
+    migrating.close();
+  });
+
+  it("Namespaced Restore", async () => {
+    rmSync("namespace_restore_test.db", { force: true });
+    const db = new MiftahDB("namespace_restore_test.db", { journalMode: "DELETE" });
+    const users = db.namespace("users");
+    db.set("root", "value1");
+    users.set("1", "Alice");
+    await db.backup("namespace_restore_backup_test.db");
+    db.set("root", "changed");
+    users.set("1", "Bob");
+    const restored = await users.restore("namespace_restore_backup_test.db");
+    assert.strictEqual(restored.success, true);
+    assert.strictEqual(db.get("root").success && db.get("root").data, "value1");
+    assert.strictEqual(users.get("1").success && users.get("1").data, "Alice");
+    assert.strictEqual(db.namespace("users").get("1").success, true);
+    const memory = new MiftahDB(":memory:");
+    const posts = memory.namespace("posts");
+    const memoryRestored = await posts.restore("namespace_restore_backup_test.db");
+    assert.strictEqual(memoryRestored.success, true);
+    assert.strictEqual(memory.get("users:1").success && memory.get("users:1").data, "Alice");
+    memory.close();
+    db.close();
+    rmSync("namespace_restore_test.db");
+    rmSync("namespace_restore_backup_test.db");
+  });
 });
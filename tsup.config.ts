@@ -2,7 +2,7 @@ import { defineConfig } from "tsup";
 
 export default defineConfig({
   format: ["cjs", "esm"],
-  entry: ["src/index.ts", "src/bun.ts"],
+  entry: ["src/index.ts", "src/bun.ts", "src/bin.ts"],
   minify: true,
   dts: true,
   shims: true,